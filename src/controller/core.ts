@@ -1,8 +1,187 @@
-import { Bot, Context } from "grammy";
+import { Api, Context, GrammyError, InlineKeyboard, InputFile } from "grammy";
 import { generate } from '@derogab/llm-proxy';
 import { transcribe } from '@derogab/stt-proxy';
 import * as fs from 'fs';
 import * as dataUtils from "../utils/data";
+import * as digestUtils from "../utils/digest";
+import * as documentsUtils from "../utils/documents";
+import * as exportUtils from "../utils/export";
+import * as formatUtils from "../utils/format";
+import * as limitsUtils from "../utils/limits";
+import * as llmUtils from "../utils/llm";
+import * as logUtils from "../utils/log";
+import * as mediaUtils from "../utils/media";
+import * as messageUtils from "../utils/message";
+import * as promptsUtils from "../utils/prompts";
+import * as queueUtils from "../utils/queue";
+import * as rangeUtils from "../utils/range";
+import * as redactUtils from "../utils/redact";
+import * as schedulerUtils from "../utils/scheduler";
+import * as settingsUtils from "../utils/settings";
+import * as statsUtils from "../utils/stats";
+
+// Constants.
+const ASK_MAX_MESSAGES = 20; // The number of most relevant messages given to the AI to answer a question.
+const CATCHUP_MAX_AGE_MS = 1000 * 60 * 60 * 24 * 7; // /catchup starts from the last message of the user if it is this recent, from the default window otherwise.
+const CATCHUP_MAX_HIGHLIGHTS = 10; // The number of mentions and replies listed at the top of a catch-up.
+const HIGHLIGHT_MAX_LENGTH = 200;
+const MEDIA_MAX_SIZE = 20 * 1024 * 1024; // Telegram lets bots download files up to 20 MB: larger audio and video files are not transcribed.
+const PRIVATE_SUMMARY_MAX_CHECKS = 20; // The number of groups whose membership is checked, at most, to list the groups a user can summarize privately.
+const MEDIA_PLACEHOLDERS: Record<dataUtils.MediaKind, string> = { // The text of the messages without a caption, until the text of their file is ready.
+  'voice': '[voice message]',
+  'audio': '[audio]',
+  'video_note': '[video note]',
+  'video': '[video]',
+  'photo': '[photo]',
+  'document': '[document]',
+};
+const RESTRICTED_COMMANDS = ['summary', 'catchup', 'settings', 'schedule', 'prompt', 'ask', 'digest', 'stats', 'export', 'forget']; // Commands that chats can restrict to administrators (/forgetme, /optout and /optin are always allowed).
+
+/**
+ * A message of a user, to be saved in the history.
+ */
+interface IncomingMessage {
+  userId: string;
+  username: string | undefined;
+  firstname: string | undefined;
+  lastname: string | undefined;
+  text: string;
+  // The Telegram ids of the message and of the message it replies to, if any.
+  messageId: number | undefined;
+  replyTo: number | undefined;
+  // The Telegram id of the forum topic of the message, if any.
+  threadId: number | undefined;
+  // The media attached to the message, if any.
+  media?: dataUtils.MediaKind;
+}
+
+/**
+ * The parameters of a job summarizing a chat on request.
+ */
+interface SummaryJob {
+  chatId: string;
+  // The Telegram id of the message requesting the summary.
+  messageId: number | undefined;
+  range: dataUtils.HistoryRange | undefined;
+  incremental: settingsUtils.ChatSettings['incremental'];
+  format: settingsUtils.ChatSettings['format'];
+  // The private chat receiving the summary, if a member of the chat requested it privately.
+  recipientId?: string;
+  // The forum topic to summarize and send the summary to, if requested in a topic.
+  threadId?: number;
+}
+
+/**
+ * How to rewrite a summary, from the buttons under it.
+ */
+type RewriteMode = 'regenerate' | 'shorter' | 'longer' | 'translate';
+
+/**
+ * The parameters of a job rewriting a summary in place, from the buttons under it.
+ */
+interface RewriteJob {
+  chatId: string;
+  // The Telegram id of the message showing the summary.
+  messageId: number;
+  mode: RewriteMode;
+  // Whether the summary has a section per forum topic.
+  forum: boolean;
+  // Whether the summary was sent in several messages, of which only the last one can be edited.
+  multipart?: boolean;
+  // The language to translate the summary to, if requested.
+  language: string | undefined;
+}
+
+/**
+ * Changes to the usual summary of a chat, e.g. when rewritten from the buttons under it.
+ */
+interface SummaryVariant {
+  // The length of the summary compared to the usual one.
+  length?: 'shorter' | 'longer';
+  // The language of the summary, instead of the one chosen by the chat.
+  language?: string;
+}
+
+/**
+ * The parameters of a job building a digest of a chat from its scheduled summaries.
+ */
+interface DigestJob {
+  chatId: string;
+  level: dataUtils.DigestLevel;
+  // Whether it is the next digest of the chat, which is stored, or one of the last period requested with /digest.
+  scheduled: boolean;
+  // The Telegram id of the message requesting the digest, and its forum topic, if requested.
+  messageId?: number;
+  threadId?: number;
+}
+
+/**
+ * The parameters of a job summarizing what a user missed in a chat.
+ */
+interface CatchupJob {
+  chatId: string;
+  // The Telegram id of the message requesting the catch-up.
+  messageId: number | undefined;
+  // The display name of the user, e.g. "@alice", to find the mentions of the user and the replies to them.
+  author: string;
+  // The messages after the last one of the user, or undefined for the default window.
+  range: dataUtils.HistoryRange | undefined;
+  // The username of the chat, to link the messages of public supergroups.
+  chatUsername: string | undefined;
+  // The forum topic of the message requesting the catch-up, if any.
+  threadId: number | undefined;
+}
+
+/**
+ * The parameters of a job transcribing a voice message, an audio file, a video note or a video, then completing the saved message.
+ */
+interface TranscriptionJob {
+  chatId: string;
+  fileId: string;
+  // The Telegram id of the file that is the same for all its copies, e.g. when forwarded.
+  fileUniqueId: string;
+  // Whether the file is a video, whose audio has to be extracted.
+  video: boolean;
+  // The duration of the file, in seconds, if known.
+  duration: number | undefined;
+  // The message with the audio, with its caption as text, if any.
+  message: IncomingMessage;
+}
+
+/**
+ * The parameters of a job extracting the text of a document, then completing the saved message.
+ */
+interface DocumentJob {
+  chatId: string;
+  fileId: string;
+  kind: documentsUtils.DocumentKind;
+  // The message with the document, with its caption or the name of the document as text.
+  message: IncomingMessage;
+}
+
+/**
+ * The parameters of a job answering a question about a chat.
+ */
+interface AskJob {
+  chatId: string;
+  // The Telegram id of the message asking the question.
+  messageId: number | undefined;
+  // The forum topic of the message asking the question, if any.
+  threadId: number | undefined;
+  question: string;
+  // The username of the chat, to link the messages of public supergroups.
+  chatUsername: string | undefined;
+}
+
+/**
+ * The parameters of a job replying to a long message with its TL;DR.
+ */
+interface TldrJob {
+  chatId: string;
+  messageId: number | undefined;
+  threadId: number | undefined;
+  text: string;
+}
 
 /**
  * Check if STT (Speech-to-Text) is configured and available.
@@ -40,27 +219,708 @@ function isSTTConfigured(): boolean {
 }
 
 /**
- * Generate a summary of the chat history.
+ * Check if the bot can be used in a chat, according to WHITELISTED_CHATS.
  *
- * @param chatId the id of the chat to generate the summary.
- * @returns the summary.
+ * @param chatId the id of the chat.
+ * @returns true if the chat is whitelisted, or if there is no whitelist.
+ */
+function isChatWhitelisted(chatId: string): boolean {
+  return !process.env.WHITELISTED_CHATS || process.env.WHITELISTED_CHATS.split(',').includes(chatId);
+}
+
+/**
+ * Check if a user is an administrator of a chat.
+ * In private chats, the user is always considered an administrator.
+ *
+ * @param ctx the context of the telegram message.
+ * @param chatId the id of the chat.
+ * @param userId the id of the user.
+ * @returns true if the user is an administrator of the chat.
+ */
+async function isChatAdmin(ctx: Context, chatId: string, userId: string): Promise<boolean> {
+  if (ctx.update.message?.chat?.type === 'private') return true;
+  const member = await ctx.api.getChatMember(chatId, Number(userId));
+  return member.status === 'creator' || member.status === 'administrator';
+}
+
+/**
+ * Check the current membership of a user in a group.
+ *
+ * @param api the Telegram API of the bot.
+ * @param chatId the id of the group.
+ * @param userId the id of the user.
+ * @returns whether the user is a member of the group, and whether they are an administrator.
+ * Users are not members if the group cannot be retrieved, e.g. because the bot has been removed.
+ */
+async function getMembership(api: Api, chatId: string, userId: string): Promise<{ member: boolean, admin: boolean }> {
+  const member = await api.getChatMember(chatId, Number(userId)).catch(() => undefined);
+  const admin = member?.status === 'creator' || member?.status === 'administrator';
+  return { member: admin || member?.status === 'member' || (member?.status === 'restricted' && member.is_member), admin };
+}
+
+/**
+ * Check the rate limits of an action requested by a user, and record it if it is allowed.
+ *
+ * @param chatId the id of the chat.
+ * @param userId the id of the user.
+ * @param action the action requested by the user.
+ * @param ctx the context of the telegram message, to tell the user when they can try again if a limit is reached.
+ * @returns true if the action is allowed.
+ */
+async function consumeRateLimit(chatId: string, userId: string, action: limitsUtils.LimitedAction, ctx?: Context): Promise<boolean> {
+  const limit = limitsUtils.checkRateLimit(chatId, userId, action);
+  if (limit) {
+    if (ctx) await ctx.reply(limitsUtils.formatRateLimit(limit), { reply_to_message_id: ctx.update.message?.message_id });
+    return false;
+  }
+  dataUtils.recordUsage(chatId, userId, action);
+  return true;
+}
+
+/**
+ * Get the public link to a message.
+ * Links exist only for supergroups and channels: public ones by username, private ones by id.
+ *
+ * @param chatId the id of the chat.
+ * @param chatUsername the username of the chat, if public.
+ * @param messageId the Telegram id of the message.
+ * @returns the link, or undefined if the message cannot be linked.
+ */
+function getMessageLink(chatId: string, chatUsername: string | undefined, messageId: number): string | undefined {
+  if (chatUsername) return `https://t.me/${chatUsername}/${messageId}`;
+  if (chatId.startsWith('-100')) return `https://t.me/c/${chatId.slice(4)}/${messageId}`;
+  return undefined;
+}
+
+/**
+ * Get the function masking the personal data in the text sent to the AI.
+ *
+ * @param chatId the id of the chat.
+ * @returns the redaction of the text, or the identity if the chat does not enable the redaction.
+ */
+function getRedactor(chatId: string): (text: string) => string {
+  return settingsUtils.getSettings(chatId).redaction ? redactUtils.redactText : (text) => text;
+}
+
+/**
+ * Format a message of the history for the AI, e.g. "@bob (replying to @alice): Hello".
+ *
+ * @param message the message of the history.
+ * @param redact the function masking the personal data in the text of the message.
+ * @returns the formatted message.
+ */
+function formatHistoryMessage(message: dataUtils.HistoryMessage, redact: (text: string) => string = (text) => text): string {
+  return message.author + (message.replyTo ? ' (replying to ' + message.replyTo + ')' : '') + ': ' + redact(message.message);
+}
+
+/**
+ * Reply to a message of the chat.
+ * If the message has been deleted in the meantime, it is dropped from the history instead.
+ *
+ * @param api the Telegram API of the bot.
+ * @param chatId the id of the chat.
+ * @param threadId the Telegram id of the forum topic of the message, if any.
+ * @param messageId the Telegram id of the message to reply to.
+ * @param text the text of the reply.
+ * @param filename the name of the document sent if the text is too long for messages.
+ * @param html whether the text is HTML.
+ */
+async function replyToMessage(api: Api, chatId: string, threadId: number | undefined, messageId: number | undefined, text: string, filename: string, html = false) {
+  try {
+    await messageUtils.sendText(messageUtils.toChat(api, chatId, threadId), text, { html, replyTo: messageId, filename });
+  } catch (error) {
+    if (messageId && error instanceof GrammyError && /message to be replied not found/i.test(error.description)) {
+      dataUtils.deleteMessages(chatId, [messageId]);
+      return;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Parse a bot command, e.g. "/summary@summarygram_bot 3h".
+ *
+ * @param text the text of the message.
+ * @returns the command name and its arguments, or undefined if the text is not a command.
+ */
+function parseCommand(text: string): { command: string, args: string } | undefined {
+  const match = text.match(/^\/(\w+)(@\w+)?(\s+([\s\S]*))?$/);
+  if (!match) return undefined;
+  return { command: match[1].toLowerCase(), args: (match[4] ?? '').trim() };
+}
+
+/**
+ * Call the LLM or the STT provider, and log the call in the usage log of the chat, whether it succeeds or not.
+ *
+ * @param chatId the id of the chat the call is for.
+ * @param call the kind, purpose and input size of the call.
+ * @param run the call.
+ * @returns the result of the call.
+ */
+async function logModelCall<T>(chatId: string, call: Pick<dataUtils.ModelCall, 'kind' | 'purpose' | 'inputSize'>, run: () => Promise<T>): Promise<T> {
+  const start = Date.now();
+  try {
+    const result = await run();
+    dataUtils.recordModelCall(chatId, { ...call, durationMs: Date.now() - start, success: true });
+    return result;
+  } catch (error) {
+    dataUtils.recordModelCall(chatId, { ...call, durationMs: Date.now() - start, success: false });
+    throw error;
+  }
+}
+
+/**
+ * Generate a response with the LLM, logged in the usage log of the chat.
+ *
+ * @param chatId the id of the chat the response is for.
+ * @param purpose what the response is for.
+ * @param messages the messages sent to the LLM.
+ * @returns the response.
  */
-async function generateSummary(chatId: string) {
-  // Generate a smart reply using the AI based on instructions and chat history.
-  const m = await generate([
+function generateFor(chatId: string, purpose: dataUtils.ModelPurpose, messages: Parameters<typeof generate>[0]) {
+  const inputSize = messages.reduce((total, x) => total + (typeof x.content === 'string' ? x.content.length : 0), 0);
+  return logModelCall(chatId, { kind: 'generate', purpose, inputSize }, () => generate(messages));
+}
+
+/**
+ * Get the instruction on the language of the generated text.
+ *
+ * @param language the language chosen by the chat, if any.
+ * @param source what the language should match if no language is chosen, e.g. "the text".
+ * @returns the instruction for the AI.
+ */
+function getLanguageInstruction(language: string | undefined, source: string): string {
+  return language ? `Reply in ${language}.` : `Use the same language used ${source}.`;
+}
+
+/**
+ * Get the instruction on the format of a summary.
+ *
+ * @param format the format of the summary.
+ * @returns the instruction for the AI.
+ */
+function getFormatInstruction(format: settingsUtils.ChatSettings['format']): string {
+  if (format === 'plain') return "Reply in simple text WITHOUT any special formatting characters (DO NOT use ** or _ please).";
+  return "Reply ONLY with a JSON object, without any other text, like: " +
+    "{\"topics\": [\"...\"], \"decisions\": [\"...\"], \"action_items\": [{\"task\": \"...\", \"owner\": \"@alice\"}], \"open_questions\": [\"...\"]}. " +
+    "Topics are the subjects discussed, decisions are what has been agreed on, action items are the tasks someone has to do (owner is null if nobody took it), " +
+    "open questions are the questions left unanswered. Use an empty list when there is nothing to report.";
+}
+
+/**
+ * Get the title of a chat, for the prompts: the title of groups, or the name of the user in private chats.
+ *
+ * @param api the Telegram API of the bot.
+ * @param chatId the id of the chat.
+ * @returns the title, or undefined if the chat cannot be retrieved.
+ */
+async function getChatTitle(api: Api, chatId: string): Promise<string | undefined> {
+  const chat = await api.getChat(chatId).catch(() => undefined);
+  if (!chat) return undefined;
+  return chat.type === 'private' ? [chat.first_name, chat.last_name].filter(x => x).join(' ') : chat.title;
+}
+
+/**
+ * Get the instructions for the AI from a prompt template of a chat.
+ * The chat title and the date range are only looked up if the template uses them.
+ *
+ * @param api the Telegram API of the bot.
+ * @param chatId the id of the chat.
+ * @param template the template.
+ * @param history the messages the prompt is about, in chronological order, if any.
+ * @returns the instructions.
+ */
+async function getPrompt(api: Api, chatId: string, template: string, history?: dataUtils.HistoryMessage[]): Promise<string> {
+  return promptsUtils.renderPrompt(template, {
+    chatTitle: promptsUtils.usesPlaceholder(template, 'chat_title') ? await getChatTitle(api, chatId) : undefined,
+    period: history?.length && promptsUtils.usesPlaceholder(template, 'date_range') ? dataUtils.getHistoryPeriod(chatId, history[0].id, history[history.length - 1].id) : undefined,
+    language: settingsUtils.getSettings(chatId).language,
+  });
+}
+
+/**
+ * Merge partial summaries into a single summary.
+ * If the partial summaries do not fit in the context budget, they are merged in groups first,
+ * or cut to fit if they are too long to be grouped.
+ *
+ * @param chatId the id of the chat of the summary.
+ * @param partials the partial summaries, in chronological order.
+ * @param budget the maximum number of characters to send to the LLM in a single request.
+ * @param language the language of the summary, or undefined to use the language of the partial summaries.
+ * @param format the format of the merged summary. Groups are always merged as plain text.
+ * @param prompt the instructions of the chat on the style of the summary, for the final merge.
+ * @returns the merged summary.
+ */
+async function mergeSummaries(chatId: string, partials: string[], budget: number, language: string | undefined, format: settingsUtils.ChatSettings['format'] = 'plain', prompt?: string): Promise<string> {
+  // Reduce groups of partial summaries until they fit in a single request.
+  // Stop if grouping makes no progress (each partial summary alone fills the budget).
+  const chunks = llmUtils.splitIntoChunks(partials, budget);
+  if (chunks.length > 1 && chunks.length < partials.length) {
+    const merged: string[] = [];
+    for (const chunk of chunks) merged.push(await mergeSummaries(chatId, chunk, budget, language));
+    return mergeSummaries(chatId, merged, budget, language, format, prompt);
+  }
+  // Cut the partial summaries if grouping made no progress, not to exceed the budget.
+  const fitted = llmUtils.fitIntoBudget(partials, budget);
+
+  // Generate the final summary from the partial ones.
+  const m = await generateFor(chatId, 'summary', [
     // Instructions for the AI.
     { role: 'system', content: "You are an helpful assistant." },
-    { role: 'system', content: "Your only task is to summarize a lot of messages written by different authors." },
-    { role: 'system', content: "You will receive all messages of a chat and you will have to return a summary of the all conversation." },
-    { role: 'system', content: "Use the same language used by the other people. Reply in simple text WITHOUT any special formatting characters (DO NOT use ** or _ please)." },
-    // Chat history.
-    ...dataUtils.getHistory(chatId).map(x => ({ role: 'user', content: x.author + ': ' + x.message }))
+    { role: 'system', content: "Your only task is to merge partial summaries of a chat into a single summary." },
+    { role: 'system', content: "You will receive the summaries of consecutive parts of the same conversation, in chronological order, and you will have to return a summary of the all conversation." },
+    ...(prompt ? [{ role: 'system', content: "Write the summary following these instructions:\n\n" + prompt }] : []),
+    { role: 'system', content: getLanguageInstruction(language, 'in the summaries') + " " + getFormatInstruction(format) },
+    // Partial summaries.
+    ...fitted.map((x, i) => ({ role: 'user', content: 'Part ' + (i + 1) + ':\n\n' + x }))
   ]);
 
   // Return the summary.
   return m.content as string;
 }
 
+/**
+ * Restrict a portion of the history to a forum topic.
+ *
+ * @param range the portion of the history, or undefined for the default window.
+ * @param threadId the Telegram id of the topic, if any.
+ * @returns the portion of the history in the topic, or the given one if there is no topic.
+ */
+function inTopic(range: dataUtils.HistoryRange | undefined, threadId: number | undefined): dataUtils.HistoryRange | undefined {
+  return threadId ? { ...(range ?? dataUtils.getDefaultRange()), threadId } : range;
+}
+
+/**
+ * Get the history to summarize for a chat, or for one of its forum topics.
+ * Without an explicit range, incremental summaries only cover the messages since the last summary.
+ *
+ * @param chatId the id of the chat.
+ * @param range the portion of the history requested by the user, if any.
+ * @param incremental the incremental mode of the chat.
+ * @param threadId the Telegram id of the forum topic to summarize, or undefined for the whole chat.
+ * @returns the messages to summarize and the previous summary to give as context, if any.
+ */
+function getSummaryHistory(chatId: string, range: dataUtils.HistoryRange | undefined, incremental: settingsUtils.ChatSettings['incremental'], threadId?: number) {
+  const last = incremental !== 'off' && !range ? dataUtils.getLastSummary(chatId, threadId) : undefined;
+  if (last) {
+    return { history: dataUtils.getHistory(chatId, inTopic({ afterId: last.lastMessageId }, threadId)), previous: incremental === 'context' ? last.summary : undefined };
+  }
+  return { history: dataUtils.getHistory(chatId, inTopic(range, threadId)), previous: undefined };
+}
+
+/**
+ * Generate a summary of the chat history.
+ * Histories that exceed the context budget of the LLM are summarized in chunks,
+ * then the partial summaries are merged (map-reduce).
+ * Structured summaries are rendered as HTML; if the AI does not return a valid structure,
+ * the summary falls back to plain text.
+ * The style of the summary follows the prompt template of the chat.
+ *
+ * @param api the Telegram API of the bot.
+ * @param chatId the id of the chat to generate the summary.
+ * @param history the messages to summarize, in chronological order. It must not be empty.
+ * @param previous the previous summary of the chat, given to the AI as context, if any.
+ * @param format the format of the summary.
+ * @param variant the changes to the usual summary, if any.
+ * @returns the text of the summary, whether it is HTML, and its plain text to store.
+ */
+async function generateSummary(api: Api, chatId: string, history: dataUtils.HistoryMessage[], previous: string | undefined, format: settingsUtils.ChatSettings['format'], variant: SummaryVariant = {}) {
+  const language = variant.language ?? settingsUtils.getSettings(chatId).language;
+  // Ask for a shorter or longer summary than usual, if requested.
+  const length = variant.length === 'shorter' ? "\n\nMake the summary much shorter than usual: keep only the few most important points."
+    : variant.length === 'longer' ? "\n\nMake the summary more detailed than usual: cover every topic, with the relevant facts, names, numbers and decisions."
+    : '';
+  const prompt = await getPrompt(api, chatId, promptsUtils.getChatPrompt(chatId).template, history) + length;
+  const budget = llmUtils.getContextBudget();
+  const redact = getRedactor(chatId);
+  const lines = history.map(x => formatHistoryMessage(x, redact));
+  const chunks = llmUtils.splitIntoChunks(lines, budget);
+
+  // Generate a smart reply using the AI based on instructions and a chunk of chat history.
+  const summarize = async (chunk: string[], format: settingsUtils.ChatSettings['format']) => {
+    const m = await generateFor(chatId, 'summary', [
+      // Instructions for the AI.
+      { role: 'system', content: prompt },
+      { role: 'system', content: "Replies are marked with the author of the message they reply to, e.g. \"@bob (replying to @alice): ...\". Use them to follow who is answering whom." },
+      chunks.length > 1
+        ? { role: 'system', content: "You will receive a part of the messages of a chat and you will have to return a summary of that part of the conversation." }
+        : { role: 'system', content: "You will receive all messages of a chat and you will have to return a summary of the all conversation." },
+      { role: 'system', content: getLanguageInstruction(language, 'by the other people') + " " + getFormatInstruction(format) },
+      // Previous summary, as context.
+      ...(previous ? [{ role: 'system', content: "This is the summary of the previous part of the conversation. Use it only as context and DO NOT repeat it:\n\n" + redact(previous) }] : []),
+      // Chat history.
+      ...chunk.map(x => ({ role: 'user', content: x }))
+    ]);
+    return m.content as string;
+  };
+
+  // Summarize each chunk as plain text, then merge the partial summaries if the history was split.
+  // Only the final step produces the requested format.
+  const partials: string[] = [];
+  if (chunks.length > 1) for (const chunk of chunks) partials.push(await summarize(chunk, 'plain'));
+  const finalize = (format: settingsUtils.ChatSettings['format']) => chunks.length > 1 ? mergeSummaries(chatId, partials, budget, language, format, prompt) : summarize(chunks[0], format);
+
+  // Fall back to a plain text summary if the structure is not valid.
+  const structured = format === 'structured' ? formatUtils.parseStructuredSummary(await finalize('structured')) : undefined;
+  if (structured) return { text: formatUtils.renderStructuredSummaryHtml(structured), html: true, plain: formatUtils.renderStructuredSummaryText(structured) };
+  const text = await finalize('plain');
+  return { text, html: false, plain: text };
+}
+
+/**
+ * Generate a summary of the chat history, send it to the chat, and store it with the range of messages it covers.
+ * The summary is only stored once sent, so that a failed attempt can be retried.
+ * Summaries sent privately to a member are not stored, so that they do not change the incremental summaries of the chat.
+ *
+ * @param api the Telegram API of the bot.
+ * @param chatId the id of the chat.
+ * @param history the messages to summarize, in chronological order. It must not be empty.
+ * @param previous the previous summary of the chat, given to the AI as context, if any.
+ * @param format the format of the summary.
+ * @param recipientId the private chat to send the summary to instead of the chat, if any.
+ * @param threadId the forum topic of the summary, if it only covers a topic: it is sent to that topic.
+ * @param scheduled whether it is the scheduled summary of the chat.
+ */
+async function sendSummary(api: Api, chatId: string, history: dataUtils.HistoryMessage[], previous: string | undefined, format: settingsUtils.ChatSettings['format'], recipientId?: string, threadId?: number, scheduled = false) {
+  // Set the bot as typing.
+  await api.sendChatAction(recipientId ?? chatId, 'typing', recipientId || !threadId ? undefined : { message_thread_id: threadId }).catch(() => {});
+  // Generate the summary.
+  const summary = await generateSummary(api, chatId, history, previous, format);
+  // Send the message, with the buttons to rewrite the summary if it is stored.
+  const target = recipientId ? messageUtils.toChat(api, recipientId) : messageUtils.toChat(api, chatId, threadId);
+  const keyboard = recipientId ? undefined : getSummaryKeyboard(false, messageUtils.splitMessage(summary.text, messageUtils.MESSAGE_MAX_LENGTH, summary.html).length > 1);
+  const messageId = await messageUtils.sendText(target, summary.text, { html: summary.html, filename: 'summary.txt', keyboard });
+  // Store the summary with the range of messages it covers.
+  if (!recipientId) dataUtils.saveSummary(chatId, summary.plain, history[0].id, history[history.length - 1].id, threadId, messageId, scheduled);
+}
+
+/**
+ * Generate the summary of the history of a forum, with a section per active topic.
+ *
+ * @param api the Telegram API of the bot.
+ * @param chatId the id of the chat.
+ * @param history the messages to summarize, in chronological order. It must not be empty.
+ * @param previous the previous summary of the chat, given to the AI as context, if any.
+ * @param format the format of the sections.
+ * @param variant the changes to the usual summary, if any.
+ * @returns the text of the summary, whether it is HTML, and its plain text to store.
+ */
+async function generateForumSummary(api: Api, chatId: string, history: dataUtils.HistoryMessage[], previous: string | undefined, format: settingsUtils.ChatSettings['format'], variant: SummaryVariant = {}) {
+  // Summarize each topic, in order of first activity. Messages outside topics are in the General topic.
+  const names = dataUtils.getTopicNames(chatId);
+  const sections: { name: string, summary: Awaited<ReturnType<typeof generateSummary>> }[] = [];
+  for (const threadId of new Set(history.map(x => x.threadId))) {
+    const name = threadId === undefined ? 'General' : names[threadId] ?? `Topic ${threadId}`;
+    sections.push({ name, summary: await generateSummary(api, chatId, history.filter(x => x.threadId === threadId), previous, format, variant) });
+  }
+  // Render the sections as HTML if any of them is structured.
+  const html = sections.some(x => x.summary.html);
+  const text = sections
+    .map(x => html ? `<b>${formatUtils.escapeHtml(x.name)}</b>\n${x.summary.html ? x.summary.text : formatUtils.escapeHtml(x.summary.text)}` : `${x.name}\n${x.summary.text}`)
+    .join('\n\n');
+  return { text, html, plain: sections.map(x => `${x.name}\n${x.summary.plain}`).join('\n\n') };
+}
+
+/**
+ * Generate the summary of the history of a forum, with a section per active topic, send it to the chat and store it.
+ *
+ * @param api the Telegram API of the bot.
+ * @param chatId the id of the chat.
+ * @param history the messages to summarize, in chronological order. It must not be empty.
+ * @param previous the previous summary of the chat, given to the AI as context, if any.
+ * @param format the format of the sections.
+ * @param scheduled whether it is the scheduled summary of the chat.
+ */
+async function sendForumSummary(api: Api, chatId: string, history: dataUtils.HistoryMessage[], previous: string | undefined, format: settingsUtils.ChatSettings['format'], scheduled = false) {
+  // Set the bot as typing.
+  await api.sendChatAction(chatId, 'typing').catch(() => {});
+  // Generate the summary and send it, with the buttons to rewrite it.
+  const summary = await generateForumSummary(api, chatId, history, previous, format);
+  const keyboard = getSummaryKeyboard(true, messageUtils.splitMessage(summary.text, messageUtils.MESSAGE_MAX_LENGTH, summary.html).length > 1);
+  const messageId = await messageUtils.sendText(messageUtils.toChat(api, chatId), summary.text, { html: summary.html, filename: 'summary.txt', keyboard });
+  // Store the summary with the range of messages it covers.
+  dataUtils.saveSummary(chatId, summary.plain, history[0].id, history[history.length - 1].id, undefined, messageId, scheduled);
+}
+
+/**
+ * Get the buttons shown under a stored summary, to rewrite it in place.
+ * The data of each button is "rewrite:" and the mode, then ":forum" if the summary has a section per topic,
+ * and ":multipart" if it was sent in several messages.
+ *
+ * @param forum whether the summary has a section per forum topic.
+ * @param multipart whether the summary is sent in several messages, the buttons being under the last one.
+ * @returns the inline keyboard.
+ */
+function getSummaryKeyboard(forum: boolean, multipart = false): InlineKeyboard {
+  const data = (mode: RewriteMode) => `rewrite:${mode}${forum ? ':forum' : ''}${multipart ? ':multipart' : ''}`;
+  return new InlineKeyboard()
+    .text('Regenerate', data('regenerate')).text('Shorter', data('shorter')).row()
+    .text('More detail', data('longer')).text('Translate', data('translate'));
+}
+
+/**
+ * Get the English name of a language, e.g. "Italian" for "it".
+ *
+ * @param code the IETF language tag, if known.
+ * @returns the name of the language, or undefined if it is unknown.
+ */
+function getLanguageName(code: string | undefined): string | undefined {
+  if (!code) return undefined;
+  try {
+    const name = new Intl.DisplayNames(['en'], { type: 'language' }).of(code);
+    return name && name !== code ? name : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Get the messages covered by a stored summary that are still stored.
+ *
+ * @param chatId the id of the chat.
+ * @param summary the summary.
+ * @returns the messages, in chronological order.
+ */
+function getSummaryWindow(chatId: string, summary: dataUtils.StoredSummary): dataUtils.HistoryMessage[] {
+  return dataUtils.getHistory(chatId, { afterId: summary.firstMessageId - 1, untilId: summary.lastMessageId, threadId: summary.threadId });
+}
+
+/**
+ * Request to rewrite a summary of the chat from the buttons under it: regenerated, shorter, more detailed,
+ * or translated to the language of the user. The summary is rewritten in the background.
+ *
+ * @param ctx the context of the callback query.
+ * @param chatId the id of the chat of the summary.
+ * @param userId the id of the user who pressed the button.
+ * @param messageId the Telegram id of the message showing the summary.
+ * @param args the arguments of the button: the mode, then "forum" if the summary has a section per topic and "multipart" if it was sent in several messages.
+ */
+async function requestRewrite(ctx: Context, chatId: string, userId: string, messageId: number, args: string) {
+  const [mode, ...flags] = args.split(':');
+  if (!['regenerate', 'shorter', 'longer', 'translate'].includes(mode) || !isChatWhitelisted(chatId)) return;
+  // Check if the chat restricts the commands to its administrators.
+  if (settingsUtils.getSettings(chatId).adminOnly && !await isChatAdmin(ctx, chatId, userId)) {
+    await ctx.reply('Only the administrators of this chat can use the commands of the bot.');
+    return;
+  }
+  // Check if the messages of the summary are still stored, e.g. not deleted by the retention policy.
+  const summary = dataUtils.getSummaryByMessage(chatId, messageId);
+  if (!summary || getSummaryWindow(chatId, summary).length === 0) {
+    await ctx.reply('I no longer have the messages of this summary, so I cannot rewrite it.');
+    return;
+  }
+  // Check the rate limits.
+  if (!await consumeRateLimit(chatId, userId, 'summary', ctx)) return;
+  // Translate to the language of the user, or to English if it is unknown.
+  const language = mode === 'translate' ? getLanguageName(ctx.update.callback_query?.from.language_code) ?? 'English' : undefined;
+  // Rewrite the summary in the background.
+  queueUtils.enqueueJob('rewrite', { chatId, messageId, mode: mode as RewriteMode, forum: flags.includes('forum'), multipart: flags.includes('multipart'), language } satisfies RewriteJob);
+}
+
+/**
+ * Rewrite a stored summary from the messages it covers, and edit its message in place.
+ * Rewritten summaries too long for a single message, and the rewrites of summaries sent in several messages,
+ * are sent as a reply to it instead: editing the last message would leave the previous ones showing the old summary.
+ *
+ * @param api the Telegram API of the bot.
+ * @param job the parameters of the job.
+ */
+async function rewriteSummary(api: Api, job: RewriteJob) {
+  // Check if the summary and its messages are still stored.
+  const summary = dataUtils.getSummaryByMessage(job.chatId, job.messageId);
+  const history = summary ? getSummaryWindow(job.chatId, summary) : [];
+  if (!summary || history.length === 0) return;
+  // Generate the new summary, without the previous one as context: it covers the same messages.
+  const { format } = settingsUtils.getSettings(job.chatId);
+  const variant: SummaryVariant = { length: job.mode === 'shorter' || job.mode === 'longer' ? job.mode : undefined, language: job.language };
+  const rewritten = job.forum
+    ? await generateForumSummary(api, job.chatId, history, undefined, format, variant)
+    : await generateSummary(api, job.chatId, history, undefined, format, variant);
+  // Reply with the new summary if the summary takes several messages.
+  if (job.multipart || messageUtils.splitMessage(rewritten.text, messageUtils.MESSAGE_MAX_LENGTH, rewritten.html).length > 1) {
+    await messageUtils.sendText(messageUtils.toChat(api, job.chatId, summary.threadId), rewritten.text, { replyTo: job.messageId, html: rewritten.html, filename: 'summary.txt' });
+    return;
+  }
+  // Edit the message in place, keeping the buttons. Regenerating may return the same text, which Telegram rejects.
+  await api.editMessageText(job.chatId, job.messageId, rewritten.text, { ...(rewritten.html ? { parse_mode: 'HTML' as const } : {}), reply_markup: getSummaryKeyboard(job.forum) }).catch(error => {
+    if (!(error instanceof GrammyError && /message is not modified/i.test(error.description))) throw error;
+  });
+  dataUtils.updateSummary(summary.id, rewritten.plain);
+}
+
+/**
+ * Request a summary of a chat, from the arguments of the /summary command (e.g. "structured 3h"),
+ * explaining the syntax if they are not valid. The summary is generated in the background.
+ * "new" only covers the messages since the last summary, whatever the chat settings.
+ * "structured" and "plain" override the format of the chat settings.
+ *
+ * @param ctx the context of the telegram update.
+ * @param chatId the id of the chat to summarize.
+ * @param userId the id of the user requesting the summary.
+ * @param args the arguments of the command.
+ * @param recipientId the private chat to send the summary to instead of the chat, if any.
+ * @param threadId the forum topic to summarize, if requested in a topic.
+ */
+async function requestSummary(ctx: Context, chatId: string, userId: string, args: string, recipientId?: string, threadId?: number) {
+  const settings = settingsUtils.getSettings(chatId);
+  // Parse the requested options and range.
+  const words = args.split(/\s+/).filter(x => x);
+  const options = words.filter(x => ['new', 'structured', 'plain'].includes(x.toLowerCase())).map(x => x.toLowerCase());
+  const incremental = options.includes('new');
+  const format = options.includes('structured') ? 'structured' : options.includes('plain') ? 'plain' : settings.format;
+  let range: dataUtils.HistoryRange | undefined;
+  try {
+    const rangeArgs = words.filter(x => !options.includes(x.toLowerCase())).join(' ');
+    if (incremental && rangeArgs) throw new Error('"/summary new" cannot be combined with a range.');
+    range = rangeUtils.parseHistoryRange(rangeArgs, Date.now(), dataUtils.getChatSchedule(chatId)?.timezone);
+  } catch (error) {
+    await ctx.reply((error as Error).message);
+    return;
+  }
+  const mode = incremental && settings.incremental === 'off' ? 'on' : settings.incremental;
+  const { history } = getSummaryHistory(chatId, range, mode, threadId);
+  // Check if there is something to summarize.
+  if (history.length === 0) {
+    await ctx.reply(incremental ? 'There are no new messages since the last summary.' : 'There are no messages to summarize in the requested range.');
+    return;
+  }
+  // Check the rate limits.
+  if (!await consumeRateLimit(chatId, userId, 'summary', ctx)) return;
+  // Generate and send the summary in the background.
+  queueUtils.enqueueJob('summary', { chatId, messageId: ctx.update.message?.message_id, range, incremental: mode, format, recipientId, threadId } satisfies SummaryJob);
+}
+
+/**
+ * Find the group named at the start of the arguments of a command, by title (case insensitive) or id.
+ * The longest title wins, so that "Book club 3h" finds "Book club" rather than "Book".
+ *
+ * @param chats the groups to search.
+ * @param args the arguments of the command.
+ * @returns the group and the rest of the arguments, or undefined if no group matches.
+ */
+function findKnownChat(chats: dataUtils.KnownChat[], args: string): { chat: dataUtils.KnownChat, rest: string } | undefined {
+  const text = args.toLowerCase();
+  for (const chat of [...chats].sort((a, b) => b.title.length - a.title.length)) {
+    for (const name of [chat.title.toLowerCase(), chat.chatId]) {
+      if (text === name || text.startsWith(name + ' ')) return { chat, rest: args.slice(name.length).trim() };
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Check if /summary in a private chat requests the summary of a group, rather than of the private chat itself:
+ * it does if it names a group or asks for the list of groups ("/summary groups"), or if the private chat is not whitelisted.
+ *
+ * @param chatId the id of the private chat.
+ * @param args the arguments of the command.
+ * @returns true if the command requests the summary of a group.
+ */
+function isGroupSummaryRequest(chatId: string, args: string): boolean {
+  if (!isChatWhitelisted(chatId) || args.toLowerCase() === 'groups') return true;
+  return !!args && findKnownChat(dataUtils.getKnownChats().filter(x => isChatWhitelisted(x.chatId)), args) !== undefined;
+}
+
+/**
+ * Request the summary of a group from a private chat: the group is named in the arguments of /summary
+ * (e.g. "/summary Book club 3h"), or chosen by the user from an inline keyboard of their groups.
+ * Users only get the summaries of the groups they are currently a member of.
+ * The keyboard lists a bounded number of groups, checking first the groups where the user has written.
+ *
+ * @param ctx the context of the telegram update.
+ * @param userId the id of the user.
+ * @param recipientId the id of the private chat.
+ * @param args the arguments of the command: the title or id of the group, then the options of /summary.
+ */
+async function requestPrivateSummary(ctx: Context, userId: string, recipientId: string, args: string) {
+  const chats = dataUtils.getKnownChats().filter(x => isChatWhitelisted(x.chatId));
+
+  // Let the user choose among their groups. Each membership check is a request to Telegram, so only a few groups are checked.
+  if (!args || args.toLowerCase() === 'groups') {
+    const written = (chat: dataUtils.KnownChat) => dataUtils.getLastUserMessageId(chat.chatId, userId, 0) !== undefined;
+    const candidates = [...chats.filter(written), ...chats.filter(x => !written(x))].slice(0, PRIVATE_SUMMARY_MAX_CHECKS);
+    const groups: dataUtils.KnownChat[] = [];
+    for (const chat of candidates) if ((await getMembership(ctx.api, chat.chatId, userId)).member) groups.push(chat);
+    groups.sort((a, b) => a.title.localeCompare(b.title));
+    // Groups beyond the checked ones can still be named.
+    const unchecked = chats.length > candidates.length;
+    if (groups.length === 0) {
+      await ctx.reply(unchecked
+        ? 'I could not find your groups among the ones I checked. Name your group, e.g. /summary Book club.'
+        : 'I have no messages of the groups you are a member of. Add me to a group, then send /summary groups here to summarize it privately.');
+      return;
+    }
+    await ctx.reply('Which group do you want to summarize?' + (unchecked ? ' If your group is not listed, name it, e.g. /summary Book club.' : ''), { reply_markup: { inline_keyboard: groups.map(x => [{ text: x.title, callback_data: 'summary:' + x.chatId }]) } });
+    return;
+  }
+
+  // Groups the user is not a member of are reported as unknown, not to reveal them.
+  const found = findKnownChat(chats, args);
+  const membership = found ? await getMembership(ctx.api, found.chat.chatId, userId) : undefined;
+  if (!found || !membership?.member) {
+    await ctx.reply('I could not find that group among the groups you are a member of. Send /summary groups to choose one of them.');
+    return;
+  }
+  // Check if the group restricts the commands to its administrators.
+  if (settingsUtils.getSettings(found.chat.chatId).adminOnly && !membership.admin) {
+    await ctx.reply('Only the administrators of that group can use the commands of the bot.');
+    return;
+  }
+  await requestSummary(ctx, found.chat.chatId, userId, found.rest, recipientId);
+}
+
+/**
+ * Request the TL;DR of a message, if it is too long.
+ * TL;DRs over the rate limits are skipped silently, not to add noise to the chat.
+ *
+ * @param chatId the id of the chat.
+ * @param message the message.
+ */
+async function requestTldr(chatId: string, message: IncomingMessage) {
+  if (message.text.length > settingsUtils.getSettings(chatId).tldrThreshold && await consumeRateLimit(chatId, message.userId, 'tldr')) {
+    queueUtils.enqueueJob('tldr', { chatId, messageId: message.messageId, threadId: message.threadId, text: message.text } satisfies TldrJob);
+  }
+}
+
+/**
+ * Save a message in the history, and request its TL;DR if it is too long.
+ *
+ * @param chatId the id of the chat.
+ * @param message the message.
+ */
+async function saveMessage(chatId: string, message: IncomingMessage) {
+  dataUtils.updateHistory(chatId, message.userId, message.username, message.firstname, message.lastname, message.text, message.messageId, message.replyTo, message.threadId, message.media);
+  await requestTldr(chatId, message);
+}
+
+/**
+ * Save a message with a file to transcribe or read in the background, so that it keeps its place in the history.
+ * Until its file is ready, it is saved with its caption, or with a placeholder.
+ *
+ * @param chatId the id of the chat.
+ * @param message the message.
+ */
+function saveMessageWithFile(chatId: string, message: IncomingMessage) {
+  const text = message.text || (message.media ? MEDIA_PLACEHOLDERS[message.media] : '');
+  dataUtils.updateHistory(chatId, message.userId, message.username, message.firstname, message.lastname, text, message.messageId, message.replyTo, message.threadId, message.media);
+}
+
+/**
+ * Append the text of its file to a message saved by saveMessageWithFile, once ready, and request its TL;DR if it is too long.
+ * The text of the file is stored apart too, so that it is kept when the caption is edited.
+ * Messages left without any text are deleted. Messages deleted meanwhile are not saved again.
+ *
+ * @param chatId the id of the chat.
+ * @param message the message.
+ * @param fileText the text of the file, e.g. the transcription of its audio, or empty if it has none.
+ */
+async function completeMessage(chatId: string, message: IncomingMessage, fileText: string) {
+  if (message.messageId === undefined) return;
+  const text = ((message.text ? message.text + '\n\n' : '') + fileText).trim();
+  if (!text) dataUtils.deleteMessages(chatId, [message.messageId]);
+  else if (dataUtils.editHistory(chatId, message.messageId, message.text, fileText)) await requestTldr(chatId, { ...message, text });
+}
+
 /**
  * Function to be called when a message is received.
  *
@@ -78,91 +938,658 @@ export async function onMessageReceived(ctx: Context) {
 
   // Check if chatId is not available.
   if (!chatId) throw new Error('No Chat found.');
+  // Check if a user requests the summary of a group privately, which is allowed even if the private chat is not whitelisted.
+  const privateCommand = message?.chat?.type === 'private' && text ? parseCommand(text) : undefined;
+  if (privateCommand?.command === 'summary' && fromId && isGroupSummaryRequest(chatId, privateCommand.args)) {
+    await requestPrivateSummary(ctx, fromId, chatId, privateCommand.args);
+    return;
+  }
   // Check if the chat is whitelisted.
-  if (process.env.WHITELISTED_CHATS && !process.env.WHITELISTED_CHATS?.split(',').includes(chatId)) return;
+  if (!isChatWhitelisted(chatId)) return;
   // Check if the message author is not available.
   if (!fromId) throw new Error('No Message Author found.');
-  
+  // Get the settings of the chat.
+  const settings = settingsUtils.getSettings(chatId);
+  // Remember the title of groups, so that their members can summarize them privately.
+  if (message?.chat?.type === 'group' || message?.chat?.type === 'supergroup') dataUtils.saveChat(chatId, message.chat.title);
+
   // If no text is available, check if a caption or document is attached.
   if (!text && message?.caption) text = message?.caption;
   if (!text && message?.document?.file_name) text = message?.document?.file_name;
-  
-  // Check if audio is attached (voice message or audio file). Is so, and whisper is configured, transcribe the audio and append to the text.
-  const voice = message?.voice;
-  const audio = message?.audio;
-  if ((voice || audio) && isSTTConfigured()) {
-    const fileId = voice?.file_id || audio?.file_id;
-    if (fileId) {
-      await ctx.api.sendChatAction(chatId, 'typing').catch(() => {}); // Set the bot as typing.
-      const file = await ctx.api.getFile(fileId);
-      const filePath = file.file_path;
-      if (filePath) {
-        const fileUrl = `https://api.telegram.org/file/bot${ctx.api.token}/${filePath}`;
-        const response = await fetch(fileUrl);
-        const arrayBuffer = await response.arrayBuffer();
-        const buffer = Buffer.from(arrayBuffer);
-        const result = await transcribe(buffer);
-        if (result?.text) {
-          await ctx.reply(result.text, { reply_to_message_id: message?.message_id });
-          text = ((text ? text + '\n\n' : '') + result.text).trim();
-        }
-      }
-    }
+  // Replies to the message that created a forum topic are just messages in that topic, not actual replies.
+  const replyTo = message?.reply_to_message?.forum_topic_created ? undefined : message?.reply_to_message?.message_id;
+  const threadId = message?.is_topic_message ? message.message_thread_id : undefined;
+  const mediaKind = message?.voice ? 'voice' : message?.audio ? 'audio' : message?.video_note ? 'video_note' : message?.video ? 'video' : message?.photo ? 'photo' : message?.document ? 'document' : undefined;
+  const incoming: IncomingMessage = { userId: fromId, username: fromUsername, firstname: fromFirstname, lastname: fromLastname, text: text ?? '', messageId: message?.message_id, replyTo, threadId, media: mediaKind };
+  // Remember the names of the forum topics, to title the sections of the scheduled summaries.
+  // The messages of a topic reply to its creation, whose name is outdated if the topic has been renamed.
+  const topic = message?.forum_topic_created ?? message?.forum_topic_edited;
+  const created = message?.reply_to_message?.forum_topic_created;
+  if (threadId && topic?.name) dataUtils.saveTopic(chatId, threadId, topic.name);
+  else if (threadId && created) dataUtils.saveTopic(chatId, threadId, created.name, false);
+
+  // Check if audio is attached (voice message, audio file, video note or video). If so, and transcription is enabled and configured,
+  // transcribe the audio in the background: the message is saved now, and its transcription appended once ready.
+  // Files too large to download are saved with their caption only, like other media.
+  // The messages of the users who opted out are neither transcribed nor stored.
+  const optedOut = dataUtils.isOptedOut(chatId, fromId);
+  const media = message?.voice ?? message?.audio ?? message?.video_note ?? message?.video;
+  if (media && (media.file_size ?? 0) <= MEDIA_MAX_SIZE && !optedOut && settings.transcription && isSTTConfigured()) {
+    saveMessageWithFile(chatId, incoming);
+    queueUtils.enqueueJob('transcription', {
+      chatId, fileId: media.file_id, fileUniqueId: media.file_unique_id, video: !!(message?.video_note || message?.video), duration: media.duration, message: incoming,
+    } satisfies TranscriptionJob);
+    return;
+  }
+  // Check if a supported document is attached. If so, and it is not too large, extract its text in the background:
+  // the message is saved now, and the text of the document appended once ready, with a TL;DR like long messages.
+  const document = message?.document;
+  const documentKind = document ? documentsUtils.getDocumentKind(document.mime_type, document.file_name) : undefined;
+  const maxDocumentSize = documentsUtils.getMaxDocumentSize();
+  if (document && documentKind && !optedOut && maxDocumentSize > 0 && (document.file_size ?? 0) <= maxDocumentSize) {
+    saveMessageWithFile(chatId, incoming);
+    queueUtils.enqueueJob('document', { chatId, fileId: document.file_id, kind: documentKind, message: incoming } satisfies DocumentJob);
+    return;
   }
 
   // Check if text is not yet available.
   if (!text) return;
   
+  // Check if the message is a command.
+  const command = parseCommand(text);
+
+  // Check if the chat restricts the commands to its administrators.
+  if (command && RESTRICTED_COMMANDS.includes(command.command) && settings.adminOnly && !await isChatAdmin(ctx, chatId, fromId)) {
+    await ctx.reply('Only the administrators of this chat can use the commands of the bot.');
+    return;
+  }
+
   // Check if the message is a special word to execute the summary.
-  if (text?.startsWith('/summary')) {
-    // Set the bot as typing.
-    await ctx.api.sendChatAction(chatId, 'typing').catch(() => {});
-    // Generate the summary.
-    const summary = await generateSummary(chatId);
-    // Send the message.
-    await ctx.reply(summary);
-
-  } else {
+  if (command?.command === 'summary') {
+    // Generate and send the summary in the background. In a forum topic, only the topic is summarized.
+    await requestSummary(ctx, chatId, fromId, command.args, undefined, threadId);
+
+  } else if (command?.command === 'catchup') {
+    // Summarize the messages since the last message of the user, or the default window if they have not written recently.
+    const lastId = dataUtils.getLastUserMessageId(chatId, fromId, Date.now() - CATCHUP_MAX_AGE_MS);
+    const range = lastId !== undefined ? { afterId: lastId } : undefined;
+    // Check if there is something to summarize.
+    if (dataUtils.getHistory(chatId, range).length === 0) {
+      await ctx.reply(range ? 'You have not missed anything since your last message.' : 'There are no messages to summarize.', { reply_to_message_id: message?.message_id });
+      return;
+    }
+    // Check the rate limits, shared with /summary.
+    if (!await consumeRateLimit(chatId, fromId, 'summary', ctx)) return;
+    // Generate and send the catch-up in the background.
+    const author = fromUsername ? '@' + fromUsername : fromFirstname ?? fromId;
+    const chatUsername = message?.chat?.type === 'supergroup' ? message.chat.username : undefined;
+    queueUtils.enqueueJob('catchup', { chatId, messageId: message?.message_id, author, range, chatUsername, threadId } satisfies CatchupJob);
+
+  } else if (command?.command === 'settings') {
+    // Update the settings if requested, explaining the syntax if it is not valid.
+    if (command.args) {
+      try {
+        settingsUtils.updateSettings(chatId, command.args, await isChatAdmin(ctx, chatId, fromId));
+      } catch (error) {
+        await ctx.reply((error as Error).message);
+        return;
+      }
+    }
+    // Send the current settings.
+    await ctx.reply(settingsUtils.formatSettings(chatId));
+
+  } else if (command?.command === 'schedule') {
+    // Update the schedule if requested, explaining the syntax if it is not valid.
+    // Only administrators can change it, as scheduled summaries are not rate limited.
+    if (command.args && !await isChatAdmin(ctx, chatId, fromId)) {
+      await ctx.reply('Only the administrators of this chat can change its schedule.');
+      return;
+    }
+    if (command.args) {
+      try {
+        schedulerUtils.updateChatSchedule(chatId, command.args.toLowerCase() === 'default' ? null : schedulerUtils.parseSchedule(command.args));
+      } catch (error) {
+        await ctx.reply((error as Error).message);
+        return;
+      }
+    }
+    // Send the current schedule.
+    const schedule = dataUtils.getChatSchedule(chatId);
+    const defaultSchedule = schedulerUtils.getDefaultSchedule();
+    const current = schedule ?? defaultSchedule;
+    await ctx.reply([
+      current ? `Scheduled summaries: ${current.schedule} (${current.timezone ?? 'server time zone'})${schedule ? '' : ', the default schedule'}.` : 'Scheduled summaries are disabled by default.',
+      'Change it with /schedule followed by a cron expression and an optional time zone (e.g. "/schedule 0 8 * * * Europe/Rome"), or /schedule default to restore the default.',
+    ].join('\n'));
+
+  } else if (command?.command === 'prompt') {
+    // Update the prompt if requested, explaining the syntax if it is not valid.
+    if (command.args) {
+      try {
+        promptsUtils.setChatPrompt(chatId, command.args);
+      } catch (error) {
+        await ctx.reply((error as Error).message);
+        return;
+      }
+    }
+    // Send the current prompt and the presets.
+    await ctx.reply(promptsUtils.formatChatPrompt(chatId));
+
+  } else if (command?.command === 'ask') {
+    // Check if there is a question.
+    if (!command.args) {
+      await ctx.reply('Ask a question about this chat, e.g. "/ask what did we decide about the release?".');
+      return;
+    }
+    // Check if any message is relevant to the question.
+    if (dataUtils.searchHistory(chatId, command.args, ASK_MAX_MESSAGES).length === 0) {
+      await ctx.reply('I could not find any message about that.', { reply_to_message_id: message?.message_id });
+      return;
+    }
+    // Check the rate limits.
+    if (!await consumeRateLimit(chatId, fromId, 'ask', ctx)) return;
+    // Answer the question in the background.
+    const chatUsername = message?.chat?.type === 'supergroup' ? message.chat.username : undefined;
+    queueUtils.enqueueJob('ask', { chatId, messageId: message?.message_id, threadId, question: command.args, chatUsername } satisfies AskJob);
+
+  } else if (command?.command === 'digest') {
+    // Check the requested period, a week by default.
+    const level = (command.args.trim().toLowerCase() || 'week') as dataUtils.DigestLevel;
+    if (level !== 'week' && level !== 'month') {
+      await ctx.reply('Choose the period of the digest, e.g. "/digest week" or "/digest month".');
+      return;
+    }
+    // Check if there are scheduled summaries to build the digest from.
+    if (!digestUtils.getRecentDigest(chatId, level)) {
+      await ctx.reply(`There are no scheduled summaries of the last ${level}: digests are built from them, see /schedule.`, { reply_to_message_id: message?.message_id });
+      return;
+    }
+    // Check the rate limits, shared with /summary.
+    if (!await consumeRateLimit(chatId, fromId, 'summary', ctx)) return;
+    // Generate and send the digest in the background.
+    queueUtils.enqueueJob('digest', { chatId, level, scheduled: false, messageId: message?.message_id, threadId } satisfies DigestJob);
+
+  } else if (command?.command === 'stats') {
+    // "/stats usage" reports the calls to the AI, only to the administrators.
+    const [first, ...rest] = command.args.split(/\s+/);
+    const usage = first?.toLowerCase() === 'usage';
+    if (usage && !await isChatAdmin(ctx, chatId, fromId)) {
+      await ctx.reply('Only the administrators of this chat can see its usage of the AI.');
+      return;
+    }
+    // Parse the requested range, explaining the syntax if it is not valid.
+    let range: dataUtils.HistoryRange | undefined;
+    try {
+      range = rangeUtils.parseHistoryRange(usage ? rest.join(' ') : command.args, Date.now(), dataUtils.getChatSchedule(chatId)?.timezone);
+      if (usage && range && !('since' in range)) throw new Error('The usage report covers a time range, e.g. "/stats usage 7d".');
+    } catch (error) {
+      await ctx.reply((error as Error).message);
+      return;
+    }
+    // Send the statistics of the messages, or the usage report of the whole log if no range is given.
+    if (usage) {
+      await ctx.reply(statsUtils.getUsageReport(chatId, range && 'since' in range ? range : { since: 0 }) ?? 'The AI has not been used for this chat in the requested range.');
+    } else {
+      await ctx.reply(statsUtils.getChatStats(chatId, range) ?? 'There are no messages in the requested range.');
+    }
+
+  } else if (command?.command === 'forget') {
+    // Only administrators can wipe the history of the chat.
+    if (!await isChatAdmin(ctx, chatId, fromId)) {
+      await ctx.reply('Only the administrators of this chat can delete its history.');
+      return;
+    }
+    // Delete the history of the chat.
+    const count = dataUtils.deleteChatHistory(chatId);
+    await ctx.reply(`Deleted ${count} stored messages of this chat, with their summaries.`);
+
+  } else if (command?.command === 'export') {
+    // Only administrators can export the history of the chat.
+    if (!await isChatAdmin(ctx, chatId, fromId)) {
+      await ctx.reply('Only the administrators of this chat can export its history.');
+      return;
+    }
+    // Parse the requested range and format (e.g. "/export 7d csv"), explaining the syntax if it is not valid.
+    let options: ReturnType<typeof exportUtils.parseExportArgs>;
+    try {
+      options = exportUtils.parseExportArgs(command.args, Date.now(), dataUtils.getChatSchedule(chatId)?.timezone);
+    } catch (error) {
+      await ctx.reply((error as Error).message);
+      return;
+    }
+    // Export the history and send it as a document.
+    const content = exportUtils.exportHistory(chatId, options.range, options.format);
+    if (!content) {
+      await ctx.reply('There are no messages to export in the requested range.');
+      return;
+    }
+    await ctx.replyWithDocument(new InputFile(Buffer.from(content), `chat-${chatId}.${options.extension}`));
+
+  } else if (command?.command === 'forgetme') {
+    // Delete the messages of the user in every chat.
+    const count = dataUtils.deleteUserHistory(fromId);
+    await ctx.reply(`Deleted ${count} stored messages of yours, in every chat.`, { reply_to_message_id: message?.message_id });
+
+  } else if (command?.command === 'optout' || command?.command === 'optin') {
+    // Stop or restart the storage of the messages of the user, in this chat or in all chats ("all").
+    const scope = command.args.trim().toLowerCase();
+    if (scope && scope !== 'all') {
+      await ctx.reply(`Use /${command.command} for this chat, or /${command.command} all for all chats.`, { reply_to_message_id: message?.message_id });
+      return;
+    }
+    const all = scope === 'all';
+    dataUtils.setOptOut(fromId, all ? null : chatId, command.command === 'optout');
+    let reply: string;
+    if (command.command === 'optout') {
+      reply = `Your messages will no longer be stored ${all ? 'in any chat' : 'in this chat'}. Use /forgetme to delete the ones already stored.`;
+    } else if (dataUtils.isOptedOut(chatId, fromId)) {
+      reply = 'You are still opted out in all chats: use /optin all to have your messages stored again.';
+    } else {
+      reply = `Your messages will be stored again ${all ? 'in every chat' : 'in this chat'}.`;
+    }
+    await ctx.reply(reply, { reply_to_message_id: message?.message_id });
+
+  } else if (!optedOut) {
     // Save message.
-    dataUtils.updateHistory(chatId, fromId, fromUsername, fromFirstname, fromLastname, text);
-    // Check if the message is too long.
-    if (text.length > Number(process.env.MSG_LENGTH_LIMIT ?? 1000)) {
-      // Generate a smart summary for the message.
-      const m = await generate([
-        // Instructions for the AI.
-        { role: 'system', content: "You are an helpful assistant." },
-        { role: 'system', content: "Your only task is to summarize a text." },
-        { role: 'system', content: "You will receive the text and you will have to return only a very short and concise summary of that text." },
-        { role: 'system', content: "Use the same language used in the text. Reply in simple text WITHOUT any special formatting characters (DO NOT use ** or _ please)." },
-        { role: 'system', content: "Use smart spacing so that the text will be easy to read." },
-        // Message.
-        { role: 'user', content: 'Text:\n\n' + text },
-      ]);
+    await saveMessage(chatId, incoming);
+  }
+}
 
-      // Send the summarized text.
-      await ctx.reply('TL;DR\n\n' + (m.content as string), {
-        reply_to_message_id: message?.message_id
-      });
+/**
+ * Function to be called when a message is edited.
+ * The stored text of the message is updated, so that summaries do not quote outdated text.
+ *
+ * @param ctx the context of the telegram message.
+ */
+export async function onMessageEdited(ctx: Context) {
+  // Get the message from the context and extract info.
+  const message = ctx.update.edited_message;
+  const chatId = message?.chat?.id ? ''+message?.chat?.id : undefined;
+  const text = message?.text ?? message?.caption;
+
+  // Check if chatId is not available.
+  if (!chatId) throw new Error('No Chat found.');
+  // Check if the chat is whitelisted.
+  if (!isChatWhitelisted(chatId)) return;
+  // Check if the new text is available.
+  if (!text || !message?.message_id) return;
+
+  // Update the stored message, if any (e.g. commands are never stored).
+  // The transcription of its audio or the text of its document, if any, is kept after the new caption.
+  dataUtils.editHistory(chatId, message.message_id, text);
+}
+
+/**
+ * Function to be called when a button of an inline keyboard is pressed.
+ * The data of the buttons is the action and its argument, e.g. "summary:-1001234567890" to summarize a group privately,
+ * or "rewrite:shorter" to shorten the summary shown by the message of the button.
+ *
+ * @param ctx the context of the callback query.
+ */
+export async function onCallbackQuery(ctx: Context) {
+  const query = ctx.update.callback_query;
+  const chatId = query?.message?.chat?.id ? ''+query.message.chat.id : undefined;
+  const fromId = query?.from?.id ? ''+query.from.id : undefined;
+  const data = query?.data ?? '';
+  const separator = data.indexOf(':');
+  const action = separator >= 0 ? data.slice(0, separator) : data;
+
+  // Stop the loading animation of the button.
+  await ctx.answerCallbackQuery().catch(() => {});
+  // Check if the chat and the user are available.
+  if (!chatId || !fromId) return;
+
+  if (action === 'summary' && query?.message?.chat?.type === 'private') {
+    await requestPrivateSummary(ctx, fromId, chatId, data.slice(separator + 1));
+  } else if (action === 'rewrite' && query?.message) {
+    await requestRewrite(ctx, chatId, fromId, query.message.message_id, data.slice(separator + 1));
+  }
+}
+
+/**
+ * Send the scheduled summary to a chat, if it wants one and has new messages to summarize.
+ * Then the digests of the chat that are due are built in the background, from the scheduled summaries.
+ *
+ * @param api the Telegram API of the bot.
+ * @param chatId the id of the chat.
+ */
+async function sendScheduledSummary(api: Api, chatId: string) {
+  // Check if the chat wants scheduled summaries.
+  const settings = settingsUtils.getSettings(chatId);
+  if (!settings.autoSummary) return;
+  // Check if the chat has history, with new messages since its last summary.
+  // Without incremental summaries, the summary covers the messages since the last scheduled one, whatever the schedule of the chat,
+  // or the default window for the first one.
+  const lastScheduled = settings.incremental === 'off' ? dataUtils.getLastScheduledSummary(chatId) : undefined;
+  const { history, previous } = getSummaryHistory(chatId, lastScheduled && { afterId: lastScheduled.lastMessageId }, settings.incremental);
+  const last = dataUtils.getLastSummary(chatId);
+  if (history.length === 0 || (last && history[history.length - 1].id <= last.lastMessageId)) return;
+  // Generate, send and store the summary, with a section per topic in forums.
+  if (history.some(x => x.threadId !== undefined)) await sendForumSummary(api, chatId, history, previous, settings.format, true);
+  else await sendSummary(api, chatId, history, previous, settings.format, undefined, undefined, true);
+  // Build the digests that are due.
+  for (const level of settings.digests) {
+    if (digestUtils.getDueDigest(chatId, level)) queueUtils.enqueueJob('digest', { chatId, level, scheduled: true } satisfies DigestJob);
+  }
+}
+
+/**
+ * Generate a digest of a chat from its scheduled summaries, merging them as the partial summaries of a long history.
+ * The style of the digest follows the prompt template of the chat.
+ *
+ * @param api the Telegram API of the bot.
+ * @param chatId the id of the chat.
+ * @param level the period of the digest.
+ * @param summaries the scheduled summaries, in chronological order. It must not be empty.
+ * @returns the text of the digest, whether it is HTML, and its plain text to store.
+ */
+async function generateDigest(api: Api, chatId: string, level: dataUtils.DigestLevel, summaries: dataUtils.StoredSummary[]) {
+  const { language, format } = settingsUtils.getSettings(chatId);
+  const prompt = await getPrompt(api, chatId, promptsUtils.getChatPrompt(chatId).template)
+    + `\n\nThe parts are the daily summaries of the last ${level}: write a digest of the ${level}. Focus on the main topics, the decisions and how the discussions evolved, rather than on each day.`;
+  const redact = getRedactor(chatId);
+  const partials = summaries.map(x => `Summary of ${new Date(x.createdAt).toISOString().slice(0, 10)}:\n\n${redact(x.summary)}`);
+  const merge = (format: settingsUtils.ChatSettings['format']) => mergeSummaries(chatId, partials, llmUtils.getContextBudget(), language, format, prompt);
+
+  // Fall back to a plain text digest if the structure is not valid.
+  const structured = format === 'structured' ? formatUtils.parseStructuredSummary(await merge('structured')) : undefined;
+  if (structured) return { text: formatUtils.renderStructuredSummaryHtml(structured), html: true, plain: formatUtils.renderStructuredSummaryText(structured) };
+  const text = await merge('plain');
+  return { text, html: false, plain: text };
+}
+
+/**
+ * Send a digest of a chat, built from its scheduled summaries.
+ * Only the scheduled digests are stored, so that the digests requested with /digest do not change their periods.
+ *
+ * @param api the Telegram API of the bot.
+ * @param job the parameters of the job.
+ */
+async function sendDigest(api: Api, job: DigestJob) {
+  // Check if the digest is still due, e.g. not already sent by a previous attempt, and has summaries.
+  const window = job.scheduled ? digestUtils.getDueDigest(job.chatId, job.level) : digestUtils.getRecentDigest(job.chatId, job.level);
+  if (!window) return;
+  // Set the bot as typing.
+  await api.sendChatAction(job.chatId, 'typing', job.threadId ? { message_thread_id: job.threadId } : undefined).catch(() => {});
+  // Generate the digest and send it under its title.
+  const digest = await generateDigest(api, job.chatId, job.level, window.summaries);
+  const title = digestUtils.getDigestTitle(job.level, window);
+  const text = (digest.html ? `<b>${formatUtils.escapeHtml(title)}</b>` : title) + '\n\n' + digest.text;
+  await messageUtils.sendText(messageUtils.toChat(api, job.chatId, job.threadId), text, { replyTo: job.messageId, html: digest.html, filename: 'digest.txt' });
+  // Store the scheduled digest with the period it covers.
+  if (job.scheduled) dataUtils.saveDigest(job.chatId, job.level, digest.plain, window.summaries, window.until);
+}
+
+/**
+ * Reply to a user with what they missed: the mentions of the user and the replies to them, then the summary of the messages.
+ * Catch-ups are not stored as summaries, so that they do not change the incremental summaries of the chat.
+ *
+ * @param api the Telegram API of the bot.
+ * @param job the parameters of the job.
+ */
+async function sendCatchup(api: Api, job: CatchupJob) {
+  const history = dataUtils.getStoredHistory(job.chatId, job.range);
+  if (history.length === 0) return;
+  // Set the bot as typing.
+  await api.sendChatAction(job.chatId, 'typing', job.threadId ? { message_thread_id: job.threadId } : undefined).catch(() => {});
+  // Generate the summary.
+  const summary = await generateSummary(api, job.chatId, history, undefined, settingsUtils.getSettings(job.chatId).format);
+
+  // List the latest mentions of the user and replies to them, linked when possible.
+  const highlights = history
+    .filter(x => x.replyTo === job.author || x.message.toLowerCase().match(/@\w+/g)?.includes(job.author.toLowerCase()))
+    .slice(-CATCHUP_MAX_HIGHLIGHTS)
+    .map(x => {
+      const text = x.message.length > HIGHLIGHT_MAX_LENGTH ? x.message.slice(0, HIGHLIGHT_MAX_LENGTH - 1) + '…' : x.message;
+      const link = x.messageId ? getMessageLink(job.chatId, job.chatUsername, x.messageId) : undefined;
+      return `- ${x.author}${x.replyTo === job.author ? ' (replying to you)' : ''}: ${text}${link ? ' ' + link : ''}`;
+    });
+  const header = highlights.length > 0 ? ['Mentions and replies to you:', ...highlights].join('\n') + '\n\n' : '';
+
+  // Send the catch-up.
+  await replyToMessage(api, job.chatId, job.threadId, job.messageId, (summary.html ? formatUtils.escapeHtml(header) : header) + summary.text, 'catchup.txt', summary.html);
+}
+
+/**
+ * Answer a question about a chat from its stored messages most relevant to the question, citing them.
+ *
+ * @param api the Telegram API of the bot.
+ * @param job the parameters of the job.
+ */
+async function answerQuestion(api: Api, job: AskJob) {
+  // Search the messages most relevant to the question, most relevant first.
+  const results = dataUtils.searchHistory(job.chatId, job.question, ASK_MAX_MESSAGES);
+  if (results.length === 0) return;
+  // Keep the most relevant messages that fit in the context budget, whole, numbered in chronological order.
+  // A single message longer than the budget is cut.
+  const redact = getRedactor(job.chatId);
+  const budget = llmUtils.getContextBudget();
+  const numbered = (messages: dataUtils.StoredMessage[]) => [...messages]
+    .sort((a, b) => a.id - b.id)
+    .map((x, i) => ({ message: x, line: `[${i + 1}] ${new Date(x.createdAt).toISOString().slice(0, 16).replace('T', ' ')} ${formatHistoryMessage(x, redact)}`.slice(0, budget) }));
+  let kept = results;
+  while (kept.length > 1 && numbered(kept).reduce((total, x) => total + x.line.length + 1, 0) > budget) kept = kept.slice(0, -1);
+  const sources = numbered(kept);
+  // Set the bot as typing.
+  await api.sendChatAction(job.chatId, 'typing', job.threadId ? { message_thread_id: job.threadId } : undefined).catch(() => {});
+  // Generate the answer.
+  const m = await generateFor(job.chatId, 'ask', [
+    // Instructions for the AI.
+    { role: 'system', content: "You are an helpful assistant." },
+    { role: 'system', content: "Your only task is to answer a question about a chat, using only the messages of the chat you receive." },
+    { role: 'system', content: "Each message starts with its number in square brackets, its date and its author. Cite the messages your answer is based on with their numbers in square brackets, e.g. [2]." },
+    { role: 'system', content: "If the messages do not contain the answer, say that you do not know." },
+    { role: 'system', content: getLanguageInstruction(settingsUtils.getSettings(job.chatId).language, 'in the question') + " Reply in simple text WITHOUT any special formatting characters (DO NOT use ** or _ please)." },
+    // Messages and question.
+    { role: 'user', content: 'Messages:\n\n' + sources.map(x => x.line).join('\n') },
+    { role: 'user', content: 'Question: ' + redact(job.question) },
+  ]);
+  const answer = m.content as string;
+  // Add the links to the cited messages.
+  const citations = [...new Set([...answer.matchAll(/\[(\d+)\]/g)].map(x => Number(x[1])))]
+    .filter(x => x >= 1 && x <= sources.length)
+    .sort((a, b) => a - b)
+    .map(x => {
+      const result = sources[x - 1].message;
+      const link = result.messageId ? getMessageLink(job.chatId, job.chatUsername, result.messageId) : undefined;
+      return `[${x}] ${link ?? result.author + ', ' + new Date(result.createdAt).toISOString().slice(0, 10)}`;
+    });
+  // Send the answer.
+  await messageUtils.sendText(messageUtils.toChat(api, job.chatId, job.threadId), answer + (citations.length > 0 ? '\n\nSources:\n' + citations.join('\n') : ''), { replyTo: job.messageId, filename: 'answer.txt' });
+}
+
+/**
+ * Download a file sent to the bot.
+ *
+ * @param api the Telegram API of the bot.
+ * @param fileId the Telegram id of the file.
+ * @returns the content of the file, or undefined if Telegram does not make it available.
+ */
+async function downloadFile(api: Api, fileId: string): Promise<Buffer | undefined> {
+  const file = await api.getFile(fileId);
+  if (!file.file_path) return undefined;
+  const response = await fetch(`https://api.telegram.org/file/bot${api.token}/${file.file_path}`);
+  return Buffer.from(await response.arrayBuffer());
+}
+
+/**
+ * Transcribe an audio or video file. Videos and long audio files are converted with ffmpeg and transcribed in chunks.
+ *
+ * @param chatId the id of the chat of the file.
+ * @param media the content of the file.
+ * @param video whether the file is a video.
+ * @param duration the duration of the file, in seconds, if known.
+ * @returns the transcription, empty if the file has no speech.
+ */
+async function transcribeMedia(chatId: string, media: Buffer, video: boolean, duration: number | undefined): Promise<string> {
+  const chunkDuration = mediaUtils.getChunkDuration();
+  const chunks = video || (duration ?? 0) > chunkDuration ? await mediaUtils.extractAudioChunks(media, chunkDuration) : [media];
+  const texts: string[] = [];
+  for (const chunk of chunks) {
+    const result = await logModelCall(chatId, { kind: 'transcribe', purpose: 'transcription', inputSize: chunk.length }, () => transcribe(chunk));
+    if (result?.text) texts.push(result.text);
+  }
+  return texts.join(' ').trim();
+}
+
+/**
+ * Transcribe a voice message, an audio file, a video note or a video, reply with the transcription, then append it to the saved message.
+ *
+ * @param api the Telegram API of the bot.
+ * @param job the parameters of the job.
+ */
+async function transcribeMessage(api: Api, job: TranscriptionJob) {
+  // Chats can keep the transcriptions for the summaries without posting them.
+  const { transcriptionReply } = settingsUtils.getSettings(job.chatId);
+  // Set the bot as typing.
+  if (transcriptionReply) await api.sendChatAction(job.chatId, 'typing').catch(() => {});
+  // Reuse the transcription of a copy of the same file, e.g. of a forwarded message. Otherwise, download and transcribe the file.
+  let transcription = dataUtils.getTranscription(job.fileUniqueId);
+  if (transcription === undefined) {
+    const media = await downloadFile(api, job.fileId);
+    if (media) {
+      transcription = await transcribeMedia(job.chatId, media, job.video, job.duration);
+      dataUtils.saveTranscription(job.fileUniqueId, transcription, job.chatId, job.message.userId);
     }
   }
+  if (transcription && transcriptionReply) await replyToMessage(api, job.chatId, job.message.threadId, job.message.messageId, transcription, 'transcription.txt');
+  await completeMessage(job.chatId, job.message, transcription ?? '');
+}
+
+/**
+ * Extract the text of a document, then append it to the saved message.
+ *
+ * @param api the Telegram API of the bot.
+ * @param job the parameters of the job.
+ */
+async function readDocument(api: Api, job: DocumentJob) {
+  // Download the document and extract its text. Invalid documents would fail again: they are saved without their text.
+  const document = await downloadFile(api, job.fileId);
+  let content = '';
+  try {
+    content = document ? await documentsUtils.extractText(document, job.kind) : '';
+  } catch (error) {
+    logUtils.logError(`Could not extract the text of a document in chat ${job.chatId}`, error);
+  }
+  await completeMessage(job.chatId, job.message, content);
+}
+
+/**
+ * Reply to a long message with its TL;DR.
+ *
+ * @param api the Telegram API of the bot.
+ * @param job the parameters of the job.
+ */
+async function sendTldr(api: Api, job: TldrJob) {
+  const { language } = settingsUtils.getSettings(job.chatId);
+  // Generate a smart summary for the message.
+  const m = await generateFor(job.chatId, 'tldr', [
+    // Instructions for the AI.
+    { role: 'system', content: await getPrompt(api, job.chatId, promptsUtils.getTldrTemplate()) },
+    { role: 'system', content: getLanguageInstruction(language, 'in the text') + " Reply in simple text WITHOUT any special formatting characters (DO NOT use ** or _ please)." },
+    { role: 'system', content: "Use smart spacing so that the text will be easy to read." },
+    // Message.
+    // Long documents are cut to the context of the AI.
+    { role: 'user', content: 'Text:\n\n' + getRedactor(job.chatId)(job.text).slice(0, llmUtils.getContextBudget()) },
+  ]);
+
+  // Send the summarized text.
+  await replyToMessage(api, job.chatId, job.threadId, job.messageId, 'TL;DR\n\n' + (m.content as string), 'tldr.txt');
 }
 
 /**
- * Function to be called when a cron job is triggered.
+ * Get the handlers of the background jobs: summaries, rewrites, digests, catch-ups, answers, transcriptions, documents and TL;DRs.
+ * When a job fails for the last time, the users who requested it are told.
  *
- * @param bot the bot instance.
+ * @param api the Telegram API of the bot.
+ * @returns the handlers by job type.
+ */
+export function getJobHandlers(api: Api): Record<string, queueUtils.JobHandler> {
+  return {
+    'summary': {
+      run: async (job: SummaryJob) => {
+        const { history, previous } = getSummaryHistory(job.chatId, job.range, job.incremental, job.threadId);
+        if (history.length > 0) await sendSummary(api, job.chatId, history, previous, job.format, job.recipientId, job.threadId);
+      },
+      onFailure: (job: SummaryJob) => api.sendMessage(job.recipientId ?? job.chatId, 'Sorry, I could not generate the summary. Please try again later.', { reply_to_message_id: job.messageId, message_thread_id: job.threadId }),
+    },
+    'rewrite': {
+      run: (job: RewriteJob) => rewriteSummary(api, job),
+      onFailure: (job: RewriteJob) => api.sendMessage(job.chatId, 'Sorry, I could not rewrite the summary. Please try again later.', { reply_to_message_id: job.messageId }),
+    },
+    'catchup': {
+      run: (job: CatchupJob) => sendCatchup(api, job),
+      onFailure: (job: CatchupJob) => api.sendMessage(job.chatId, 'Sorry, I could not generate your catch-up. Please try again later.', { reply_to_message_id: job.messageId, message_thread_id: job.threadId }),
+    },
+    'scheduled-summary': {
+      run: (job: { chatId: string }) => sendScheduledSummary(api, job.chatId),
+      onFailure: (job: { chatId: string }) => api.sendMessage(job.chatId, 'Sorry, I could not generate the scheduled summary.'),
+    },
+    'digest': {
+      run: (job: DigestJob) => sendDigest(api, job),
+      onFailure: (job: DigestJob) => api.sendMessage(job.chatId, `Sorry, I could not generate the ${job.level === 'week' ? 'weekly' : 'monthly'} digest.`, { reply_to_message_id: job.messageId, message_thread_id: job.threadId }),
+    },
+    'transcription': {
+      run: (job: TranscriptionJob) => transcribeMessage(api, job),
+      onFailure: async (job: TranscriptionJob) => {
+        // Keep the caption of the message, if any, even without the transcription.
+        await completeMessage(job.chatId, job.message, '');
+        await api.sendMessage(job.chatId, 'Sorry, I could not transcribe this message.', { reply_to_message_id: job.message.messageId, message_thread_id: job.message.threadId });
+      },
+    },
+    'document': {
+      run: (job: DocumentJob) => readDocument(api, job),
+      // Keep the caption or the name of the document, even without its text.
+      onFailure: (job: DocumentJob) => completeMessage(job.chatId, job.message, ''),
+    },
+    'ask': {
+      run: (job: AskJob) => answerQuestion(api, job),
+      onFailure: (job: AskJob) => api.sendMessage(job.chatId, 'Sorry, I could not answer your question. Please try again later.', { reply_to_message_id: job.messageId, message_thread_id: job.threadId }),
+    },
+    'tldr': {
+      run: (job: TldrJob) => sendTldr(api, job),
+    },
+  };
+}
+
+/**
+ * Function to be called when the default cron job is triggered.
+ * A summary job is queued for each active chat following the default schedule.
  */
-export async function onCronJob(bot: Bot) {
-  // For each chat, generate a summary.
+export function onCronJob() {
   for (const chatId of dataUtils.getActiveChats()) {
-    // Check if the chat has history.
-    const history = dataUtils.getHistory(chatId);
-    if (history.length === 0) continue;
-    // Set the bot as typing.
-    await bot.api.sendChatAction(chatId, 'typing').catch(() => {});
-    // Generate the summary.
-    const summary = await generateSummary(chatId);
-    // Send the message.
-    await bot.api.sendMessage(chatId, summary);
+    // A failure in a chat must not prevent the summaries of the next ones.
+    try {
+      // Chats with a custom schedule are summarized by their own cron job.
+      if (dataUtils.getChatSchedule(chatId)) continue;
+      queueUtils.enqueueJob('scheduled-summary', { chatId });
+    } catch (error) {
+      logUtils.logError(`Failed to schedule the summary of chat ${chatId}`, error);
+    }
+  }
+}
+
+/**
+ * Function to be called when the cron job of a chat with a custom schedule is triggered.
+ *
+ * @param chatId the id of the chat.
+ */
+export function onChatCronJob(chatId: string) {
+  queueUtils.enqueueJob('scheduled-summary', { chatId });
+}
+
+/**
+ * Function to be called when the retention cron job is triggered.
+ * Deletes the stored data older than the retention period (RETENTION_DAYS), if any, but the scheduled summaries of the digests in progress.
+ */
+export function onRetentionJob() {
+  const retentionDays = Number(process.env.RETENTION_DAYS);
+  if (!process.env.RETENTION_DAYS || !Number.isFinite(retentionDays) || retentionDays <= 0) return;
+  // Keep what the digests in progress need, even if older: each digest starts where the last one of its period ended.
+  const digestStarts: Record<string, number> = {};
+  for (const chatId of dataUtils.getScheduledSummaryChats()) {
+    const levels = settingsUtils.getSettings(chatId).digests;
+    if (levels.length > 0) digestStarts[chatId] = Math.min(...levels.map(level => dataUtils.getLastDigest(chatId, level)?.until ?? 0));
   }
+  dataUtils.purgeHistory(Date.now() - retentionDays * 1000 * 60 * 60 * 24, digestStarts);
 }
@@ -1,26 +1,80 @@
 // Dependencies.
-import { Bot } from "grammy";
+import { Bot, webhookCallback } from "grammy";
 import * as dotenv from 'dotenv';
 import cron from 'node-cron';
 
-import { onCronJob, onMessageReceived } from './controller/core';
+import { getJobHandlers, onCallbackQuery, onChatCronJob, onCronJob, onMessageEdited, onMessageReceived, onRetentionJob } from './controller/core';
+import { checkDatabase } from './utils/data';
+import { logError } from './utils/log';
+import { recordPoll, recordUpdate, setMode } from './utils/health';
+import { getDefaultPreset } from './utils/prompts';
+import { startQueue, stopQueue } from './utils/queue';
+import { getCustomPatterns } from './utils/redact';
+import { getDefaultSchedule, startScheduler, stopScheduler } from './utils/scheduler';
+import { getPort, getWebhookConfig, startServer } from './utils/server';
 
 // Configs.
 dotenv.config();
 
 // Init bot.
 const bot = new Bot(process.env.TELEGRAM_BOT_TOKEN ?? '');
+const webhook = getWebhookConfig();
+// Check the custom redaction patterns now, rather than when the first summary fails.
+getCustomPatterns();
+// Check PROMPTS_DIR and SUMMARY_PRESET, for the same reason.
+getDefaultPreset();
+// Open the database, refusing to start if ENCRYPTION_KEY is not its key.
+checkDatabase();
+const allowedUpdates = ["message", "edited_message", "callback_query"] as const;
+
+// Track the activity of the bot for the health checks: processed updates, and requests for new updates in polling mode.
+bot.use(async (_ctx, next) => { try { await next(); } finally { recordUpdate(); } });
+bot.api.config.use(async (prev, method, payload, signal) => {
+  const result = await prev(method, payload, signal);
+  if (method === 'getUpdates' && result.ok) recordPoll();
+  return result;
+});
+
+// Log the errors of the listeners, e.g. when the Telegram API is unreachable, and keep receiving the updates.
+bot.catch((error) => logError(`Failed to handle the update ${error.ctx.update.update_id}`, error.error));
 
 // Add message event listener(s).
 bot.on('message', async (ctx) => onMessageReceived(ctx));
+bot.on('edited_message', async (ctx) => onMessageEdited(ctx));
+bot.on('callback_query:data', async (ctx) => onCallbackQuery(ctx));
+
+// Run the background jobs (summaries, catch-ups, answers, transcriptions and TL;DRs), including the ones left by a previous run.
+startQueue(getJobHandlers(bot.api));
+
+// Add cron job listener(s): the default schedule, and the custom schedules of the chats.
+const defaultSchedule = getDefaultSchedule();
+if (defaultSchedule) cron.schedule(defaultSchedule.schedule, () => onCronJob(), { timezone: defaultSchedule.timezone });
+startScheduler((chatId) => onChatCronJob(chatId));
+
+// Purge the data older than the retention period, at startup and then every hour.
+onRetentionJob();
+cron.schedule('0 * * * *', () => onRetentionJob());
 
-// Add cron job listener(s).
-const cronSchedule = process.env.CRON_SCHEDULE || '59 23 * * *';
-if (cronSchedule !== 'never') cron.schedule(cronSchedule, () => onCronJob(bot));
+// Start the HTTP server, with the health endpoints and, in webhook mode, the endpoint receiving the updates.
+// Updates still being handled after 50 seconds are answered anyway, before Telegram gives up on the request and sends them again.
+const server = startServer(getPort(), webhook && {
+  path: webhook.path,
+  handler: webhookCallback(bot, 'http', { secretToken: webhook.secret, timeoutMilliseconds: 50_000, onTimeout: 'return' }),
+});
 
-// Start bot.
-bot.start({ allowed_updates: ["message"] });
+// Start bot, receiving the updates from the webhook if configured, by long polling otherwise.
+if (webhook) {
+  bot.api.setWebhook(webhook.url, { secret_token: webhook.secret, allowed_updates: allowedUpdates })
+    .then(() => setMode('webhook'))
+    .catch((error) => {
+      // Without the webhook, the bot would never receive any update.
+      logError('Failed to set the webhook, check WEBHOOK_URL and TELEGRAM_BOT_TOKEN', error);
+      process.exit(1);
+    });
+} else {
+  bot.start({ allowed_updates: allowedUpdates, onStart: () => setMode('polling') });
+}
 
 // Enable graceful stop.
-process.once('SIGINT', () => { bot.stop(); });
-process.once('SIGTERM', () => { bot.stop(); });
+process.once('SIGINT', () => { stopScheduler(); stopQueue(); server.close(); bot.stop(); });
+process.once('SIGTERM', () => { stopScheduler(); stopQueue(); server.close(); bot.stop(); });
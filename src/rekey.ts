@@ -0,0 +1,18 @@
+// Dependencies.
+import * as dotenv from 'dotenv';
+import { close, rekeyDatabase } from './utils/data';
+import { parseKey } from './utils/encryption';
+
+// Configs.
+dotenv.config();
+
+// Encrypt the database with NEW_ENCRYPTION_KEY, or decrypt it if it is "none".
+// The current key of the database is ENCRYPTION_KEY, if it is encrypted.
+const value = process.env.NEW_ENCRYPTION_KEY;
+if (!value) {
+  console.error('Set NEW_ENCRYPTION_KEY to the new key of the database, or to "none" to decrypt it.');
+  process.exit(1);
+}
+const count = rekeyDatabase(value === 'none' ? undefined : parseKey(value, 'NEW_ENCRYPTION_KEY'));
+close();
+console.log(`${value === 'none' ? 'Decrypted' : 'Encrypted'} ${count} messages. Set ENCRYPTION_KEY to ${value === 'none' ? 'an empty value' : 'the new key'} before starting the bot.`);
@@ -2,12 +2,291 @@
 import { DatabaseSync } from 'node:sqlite';
 import * as fs from 'fs';
 import * as path from 'path';
+import * as encryptionUtils from './encryption';
 
 // Constants.
-const HISTORY_WINDOW_MS = 1000 * 60 * 60 * 24; // Summaries only consider messages from the last 24 hours.
+const HISTORY_WINDOW_MS = 1000 * 60 * 60 * 24; // By default, summaries only consider messages from the last 24 hours.
+const USAGE_WINDOW_MS = 1000 * 60 * 60 * 24; // Usage is only kept for the rate limits, which look at the last 24 hours.
+const KEY_CHECK = 'summarygram'; // Stored encrypted, to check that the key given at startup is the one of the database.
+
+/**
+ * A portion of a chat history: a time range, the last N messages, or the messages after a given one (up to another one, if given).
+ * It can be restricted to a forum topic.
+ */
+export type HistoryRange = ({ since: number, until?: number } | { limit: number } | { afterId: number, untilId?: number }) & {
+  // The Telegram id of the forum topic, if the portion only covers a topic.
+  threadId?: number;
+};
+
+/**
+ * A message of a chat history.
+ */
+export interface HistoryMessage {
+  // The id of the message in the storage, increasing in chronological order.
+  id: number;
+  author: string;
+  message: string;
+  // The author of the message this one replies to, if it is stored.
+  replyTo: string | undefined;
+  // The Telegram id of the forum topic of the message, if any.
+  threadId: number | undefined;
+}
+
+/**
+ * The kinds of media attached to the stored messages.
+ */
+export type MediaKind = 'voice' | 'audio' | 'video_note' | 'video' | 'photo' | 'document';
+
+/**
+ * A message of a chat history, with its Telegram id and time.
+ */
+export interface StoredMessage extends HistoryMessage {
+  // The Telegram id of the message, if known.
+  messageId: number | undefined;
+  // The media attached to the message, if any.
+  media: MediaKind | undefined;
+  createdAt: number;
+}
+
+/**
+ * A summary generated for a chat.
+ */
+export interface StoredSummary {
+  id: number;
+  summary: string;
+  // The ids of the first and last message covered by the summary.
+  firstMessageId: number;
+  lastMessageId: number;
+  createdAt: number;
+  // The Telegram id of the forum topic of the summary, if it only covers a topic.
+  threadId: number | undefined;
+}
+
+/**
+ * The periods covered by the digests of a chat.
+ */
+export type DigestLevel = 'week' | 'month';
+
+/**
+ * A digest of a chat, built from its scheduled summaries.
+ */
+export interface StoredDigest {
+  id: number;
+  level: DigestLevel;
+  summary: string;
+  // The ids of the first and last message covered by the summaries of the digest.
+  firstMessageId: number;
+  lastMessageId: number;
+  // The period of the digest: from the creation of its first summary, up to "until". The next digest starts after it.
+  since: number;
+  until: number;
+  createdAt: number;
+}
+
+/**
+ * A use of the bot that is subject to rate limits, e.g. a requested summary.
+ */
+export interface UsageEvent {
+  userId: string;
+  action: string;
+  createdAt: number;
+}
+
+/**
+ * What a call to the LLM or to the STT provider was for.
+ */
+export type ModelPurpose = 'summary' | 'tldr' | 'ask' | 'transcription';
+
+/**
+ * A call to the LLM or to the STT provider, in the usage log of a chat.
+ */
+export interface ModelCall {
+  kind: 'generate' | 'transcribe';
+  purpose: ModelPurpose;
+  // The size of the input: characters of text for the LLM, bytes of audio for the STT provider.
+  inputSize: number;
+  durationMs: number;
+  // Whether the call succeeded.
+  success: boolean;
+  createdAt: number;
+}
+
+/**
+ * A job of the queue, claimed to be run.
+ */
+export interface StoredJob {
+  id: number;
+  type: string;
+  // The parameters of the job, as JSON.
+  payload: string;
+  // The number of failed attempts to run the job.
+  attempts: number;
+}
 
 // The handle for the SQLite database, opened on first use.
 let db: DatabaseSync | null = null;
+// The key encrypting the messages, summaries and jobs, or undefined if they are stored in plain text.
+let encryptionKey: Buffer | undefined = undefined;
+
+// The columns of a message and of the message it replies to, for the history queries on "messages m".
+const MESSAGE_COLUMNS = `
+  m.id, m.user_id, m.username, m.user_firstname, m.message, m.message_id, m.thread_id, m.media, m.created_at,
+  parent.user_id AS parent_user_id, parent.username AS parent_username, parent.user_firstname AS parent_firstname
+`;
+const MESSAGE_PARENT_JOIN = 'LEFT JOIN messages parent ON parent.chat_id = m.chat_id AND parent.message_id = m.reply_to_message_id';
+// The columns of a summary, for the queries on "summaries".
+const SUMMARY_COLUMNS = 'id, summary, first_message_id, last_message_id, created_at, thread_id';
+
+/**
+ * Encrypt a text to store, if the database is encrypted.
+ *
+ * @param text the text.
+ * @returns the value to store.
+ */
+function encryptText(text: string): string {
+  return encryptionKey ? encryptionUtils.encrypt(text, encryptionKey) : text;
+}
+
+/**
+ * Decrypt a stored text, if the database is encrypted.
+ *
+ * @param value the stored value.
+ * @returns the text.
+ */
+function decryptText(value: string): string {
+  return encryptionKey ? encryptionUtils.decrypt(value, encryptionKey) : value;
+}
+
+/**
+ * Decrypt a stored text that may be missing, e.g. the name of a user.
+ *
+ * @param value the stored value, or null.
+ * @returns the text, or undefined.
+ */
+function decryptOptionalText(value: unknown): string | undefined {
+  return value === null || value === undefined ? undefined : decryptText(value as string);
+}
+
+/**
+ * Add a column to a table of an existing database, if it does not have it yet.
+ *
+ * @param database the database handle.
+ * @param table the name of the table.
+ * @param column the name of the column.
+ * @param definition the type and constraints of the column.
+ */
+function addColumnIfMissing(database: DatabaseSync, table: string, column: string, definition: string) {
+  const columns = database.prepare(`PRAGMA table_info(${table})`).all().map(row => row.name as string);
+  if (!columns.includes(column)) database.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+}
+
+/**
+ * Give the messages of an older database an AUTOINCREMENT id, keeping their rowid as id.
+ * Without it, SQLite reuses the rowids of the newest messages once they are deleted, and the summaries that cover
+ * the messages after an id would skip the messages stored since.
+ *
+ * @param database the database handle.
+ */
+function addMessageIds(database: DatabaseSync) {
+  const columns = database.prepare('PRAGMA table_info(messages)').all().map(row => row.name as string);
+  if (columns.includes('id')) return;
+
+  // Dropping the old table also drops its triggers, which setupSearchIndex creates again for the new one.
+  const names = columns.join(', ');
+  database.exec('BEGIN');
+  try {
+    database.exec(`
+      CREATE TABLE messages_new (
+        id             INTEGER PRIMARY KEY AUTOINCREMENT,
+        chat_id        TEXT    NOT NULL,
+        user_id        TEXT    NOT NULL,
+        username       TEXT,
+        user_firstname TEXT,
+        user_lastname  TEXT,
+        message        TEXT    NOT NULL,
+        created_at     INTEGER NOT NULL,
+        message_id          INTEGER,
+        reply_to_message_id INTEGER,
+        thread_id           INTEGER,
+        media               TEXT,
+        file_text           TEXT
+      );
+      INSERT INTO messages_new (id, ${names}) SELECT rowid, ${names} FROM messages;
+      DROP TABLE messages;
+      ALTER TABLE messages_new RENAME TO messages;
+      CREATE INDEX idx_messages_chat_id_created_at ON messages (chat_id, created_at);
+      CREATE INDEX idx_messages_user_id ON messages (user_id);
+    `);
+    database.exec('COMMIT');
+  } catch (error) {
+    database.exec('ROLLBACK');
+    throw error;
+  }
+}
+
+/**
+ * Check the encryption key against the database.
+ * A new database is encrypted from the start; an existing one must be encrypted with rekeyDatabase first.
+ *
+ * @param database the database handle.
+ * @param key the key given at startup, if any.
+ * @returns the key to use.
+ * @throws an error if the key is wrong, missing for an encrypted database, or given for a database not encrypted yet.
+ */
+function checkEncryptionKey(database: DatabaseSync, key: Buffer | undefined): Buffer | undefined {
+  const check = database.prepare("SELECT value FROM meta WHERE key = 'encryption_check'").get()?.value as string | undefined;
+  if (check === undefined) {
+    if (!key) return undefined;
+    const row = database.prepare('SELECT EXISTS (SELECT 1 FROM messages) OR EXISTS (SELECT 1 FROM summaries) OR EXISTS (SELECT 1 FROM digests) OR EXISTS (SELECT 1 FROM jobs) OR EXISTS (SELECT 1 FROM chats) OR EXISTS (SELECT 1 FROM topics) OR EXISTS (SELECT 1 FROM transcriptions) AS has_data').get();
+    if (row?.has_data) throw new Error('The database is not encrypted: encrypt it with the rekey command before setting ENCRYPTION_KEY.');
+    database.prepare("INSERT INTO meta (key, value) VALUES ('encryption_check', ?)").run(encryptionUtils.encrypt(KEY_CHECK, key));
+    return key;
+  }
+  if (!key) throw new Error('The database is encrypted: set ENCRYPTION_KEY to its key.');
+  try {
+    encryptionUtils.decrypt(check, key);
+  } catch {
+    throw new Error('ENCRYPTION_KEY is not the key of the database.');
+  }
+  return key;
+}
+
+/**
+ * Set up the full-text index of the messages, kept up to date by triggers on every change of the messages table.
+ * Messages stored before the index existed are indexed when it is created.
+ * Encrypted databases have no index, as it would store the words of the messages in plain text.
+ *
+ * @param database the database handle.
+ */
+function setupSearchIndex(database: DatabaseSync) {
+  if (encryptionKey) {
+    database.exec(`
+      DROP TRIGGER IF EXISTS messages_fts_insert;
+      DROP TRIGGER IF EXISTS messages_fts_delete;
+      DROP TRIGGER IF EXISTS messages_fts_update;
+      DROP TABLE IF EXISTS messages_fts;
+    `);
+    return;
+  }
+
+  const hasSearchIndex = database.prepare("SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = 'messages_fts'").get() !== undefined;
+  database.exec(`
+    CREATE VIRTUAL TABLE IF NOT EXISTS messages_fts USING fts5 (
+      message, content = 'messages', content_rowid = 'rowid', tokenize = 'porter unicode61 remove_diacritics 2'
+    );
+    CREATE TRIGGER IF NOT EXISTS messages_fts_insert AFTER INSERT ON messages BEGIN
+      INSERT INTO messages_fts (rowid, message) VALUES (new.rowid, new.message);
+    END;
+    CREATE TRIGGER IF NOT EXISTS messages_fts_delete AFTER DELETE ON messages BEGIN
+      INSERT INTO messages_fts (messages_fts, rowid, message) VALUES ('delete', old.rowid, old.message);
+    END;
+    CREATE TRIGGER IF NOT EXISTS messages_fts_update AFTER UPDATE OF message ON messages BEGIN
+      INSERT INTO messages_fts (messages_fts, rowid, message) VALUES ('delete', old.rowid, old.message);
+      INSERT INTO messages_fts (rowid, message) VALUES (new.rowid, new.message);
+    END;
+  `);
+  if (!hasSearchIndex) database.exec("INSERT INTO messages_fts (messages_fts) VALUES ('rebuild')");
+}
 
 /**
  * Get the SQLite database, opening the file on first use.
@@ -24,16 +303,130 @@ function getDb(): DatabaseSync {
   db = new DatabaseSync(dbPath);
   db.exec(`
     CREATE TABLE IF NOT EXISTS messages (
+      id             INTEGER PRIMARY KEY AUTOINCREMENT,
       chat_id        TEXT    NOT NULL,
       user_id        TEXT    NOT NULL,
       username       TEXT,
       user_firstname TEXT,
       user_lastname  TEXT,
       message        TEXT    NOT NULL,
-      created_at     INTEGER NOT NULL
+      created_at     INTEGER NOT NULL,
+      message_id          INTEGER,
+      reply_to_message_id INTEGER
     );
     CREATE INDEX IF NOT EXISTS idx_messages_chat_id_created_at ON messages (chat_id, created_at);
+    CREATE INDEX IF NOT EXISTS idx_messages_user_id ON messages (user_id);
+    CREATE TABLE IF NOT EXISTS summaries (
+      id               INTEGER PRIMARY KEY,
+      chat_id          TEXT    NOT NULL,
+      summary          TEXT    NOT NULL,
+      first_message_id INTEGER NOT NULL,
+      last_message_id  INTEGER NOT NULL,
+      created_at       INTEGER NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS idx_summaries_chat_id_last_message_id ON summaries (chat_id, last_message_id);
+    CREATE TABLE IF NOT EXISTS digests (
+      id               INTEGER PRIMARY KEY,
+      chat_id          TEXT    NOT NULL,
+      level            TEXT    NOT NULL,
+      summary          TEXT    NOT NULL,
+      first_message_id INTEGER NOT NULL,
+      last_message_id  INTEGER NOT NULL,
+      since            INTEGER NOT NULL,
+      until            INTEGER NOT NULL,
+      created_at       INTEGER NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS idx_digests_chat_id_level_until ON digests (chat_id, level, until);
+    CREATE TABLE IF NOT EXISTS chat_settings (
+      chat_id TEXT NOT NULL,
+      key     TEXT NOT NULL,
+      value   TEXT NOT NULL,
+      PRIMARY KEY (chat_id, key)
+    );
+    CREATE TABLE IF NOT EXISTS chat_schedules (
+      chat_id  TEXT NOT NULL PRIMARY KEY,
+      schedule TEXT NOT NULL,
+      timezone TEXT
+    );
+    CREATE TABLE IF NOT EXISTS usage (
+      chat_id    TEXT    NOT NULL,
+      user_id    TEXT    NOT NULL,
+      action     TEXT    NOT NULL,
+      created_at INTEGER NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS idx_usage_chat_id_created_at ON usage (chat_id, created_at);
+    CREATE TABLE IF NOT EXISTS model_calls (
+      chat_id     TEXT    NOT NULL,
+      kind        TEXT    NOT NULL,
+      purpose     TEXT    NOT NULL,
+      input_size  INTEGER NOT NULL,
+      duration_ms INTEGER NOT NULL,
+      success     INTEGER NOT NULL,
+      created_at  INTEGER NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS idx_model_calls_chat_id_created_at ON model_calls (chat_id, created_at);
+    CREATE TABLE IF NOT EXISTS meta (
+      key   TEXT NOT NULL PRIMARY KEY,
+      value TEXT NOT NULL
+    );
+    CREATE TABLE IF NOT EXISTS optouts (
+      user_id TEXT NOT NULL,
+      chat_id TEXT NOT NULL,
+      PRIMARY KEY (user_id, chat_id)
+    );
+    CREATE TABLE IF NOT EXISTS jobs (
+      id         INTEGER PRIMARY KEY,
+      type       TEXT    NOT NULL,
+      payload    TEXT    NOT NULL,
+      attempts   INTEGER NOT NULL DEFAULT 0,
+      running    INTEGER NOT NULL DEFAULT 0,
+      run_at     INTEGER NOT NULL,
+      last_error TEXT,
+      created_at INTEGER NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS idx_jobs_running_run_at ON jobs (running, run_at);
+    CREATE TABLE IF NOT EXISTS chats (
+      chat_id    TEXT    NOT NULL PRIMARY KEY,
+      title      TEXT    NOT NULL,
+      updated_at INTEGER NOT NULL
+    );
+    CREATE TABLE IF NOT EXISTS topics (
+      chat_id   TEXT    NOT NULL,
+      thread_id INTEGER NOT NULL,
+      name      TEXT    NOT NULL,
+      PRIMARY KEY (chat_id, thread_id)
+    );
+    CREATE TABLE IF NOT EXISTS transcriptions (
+      file_unique_id TEXT    PRIMARY KEY,
+      text           TEXT    NOT NULL,
+      created_at     INTEGER NOT NULL,
+      chat_id        TEXT,
+      user_id        TEXT
+    );
   `);
+  // Columns added after the tables were first released are missing in older databases.
+  addColumnIfMissing(db, 'messages', 'message_id', 'INTEGER');
+  addColumnIfMissing(db, 'messages', 'reply_to_message_id', 'INTEGER');
+  addColumnIfMissing(db, 'messages', 'thread_id', 'INTEGER');
+  addColumnIfMissing(db, 'messages', 'media', 'TEXT');
+  addColumnIfMissing(db, 'messages', 'file_text', 'TEXT');
+  addColumnIfMissing(db, 'summaries', 'thread_id', 'INTEGER');
+  addColumnIfMissing(db, 'summaries', 'message_id', 'INTEGER');
+  addColumnIfMissing(db, 'summaries', 'scheduled', 'INTEGER NOT NULL DEFAULT 0');
+  addColumnIfMissing(db, 'transcriptions', 'chat_id', 'TEXT');
+  addColumnIfMissing(db, 'transcriptions', 'user_id', 'TEXT');
+  addMessageIds(db);
+  db.exec('CREATE INDEX IF NOT EXISTS idx_messages_chat_id_message_id ON messages (chat_id, message_id)');
+
+  // Check the encryption key before anything reads or writes the data, closing the database if it is wrong.
+  try {
+    encryptionKey = checkEncryptionKey(db, encryptionUtils.getKey());
+  } catch (error) {
+    close();
+    throw error;
+  }
+  setupSearchIndex(db);
+
   // Refresh planner statistics: with them, the active-chats query skip-scans the index
   // instead of scanning all retained history. analysis_limit bounds the sampling so
   // startup cost stays constant no matter how much history is retained.
@@ -42,12 +435,22 @@ function getDb(): DatabaseSync {
   return db;
 }
 
+/**
+ * Check that the SQLite database can be queried.
+ *
+ * @throws the error of the database, if it cannot be queried.
+ */
+export function checkDatabase() {
+  getDb().prepare('SELECT 1').get();
+}
+
 /**
  * Close the SQLite database. It will be reopened on next use.
  */
 export function close() {
   db?.close();
   db = null;
+  encryptionKey = undefined;
 }
 
 /**
@@ -59,27 +462,321 @@ export function close() {
  * @param userFirstname the first name of the user who sent the message, if available.
  * @param userLastname the last name of the user who sent the message, if available.
  * @param message the message to update the history with.
+ * @param messageId the Telegram id of the message, if available.
+ * @param replyToMessageId the Telegram id of the message this one replies to, if any.
+ * @param threadId the Telegram id of the forum topic of the message, if any.
+ * @param media the media attached to the message, if any.
  */
-export function updateHistory(chatId: string, userId: string, username: string | undefined, userFirstname: string | undefined, userLastname: string | undefined, message: string) {
+export function updateHistory(chatId: string, userId: string, username: string | undefined, userFirstname: string | undefined, userLastname: string | undefined, message: string, messageId?: number, replyToMessageId?: number, threadId?: number, media?: MediaKind) {
   getDb()
-    .prepare('INSERT INTO messages (chat_id, user_id, username, user_firstname, user_lastname, message, created_at) VALUES (?, ?, ?, ?, ?, ?, ?)')
-    .run(chatId, userId, username ?? null, userFirstname ?? null, userLastname ?? null, message, Date.now());
+    .prepare('INSERT INTO messages (chat_id, user_id, username, user_firstname, user_lastname, message, created_at, message_id, reply_to_message_id, thread_id, media) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)')
+    .run(
+      chatId, userId,
+      username !== undefined ? encryptText(username) : null,
+      userFirstname !== undefined ? encryptText(userFirstname) : null,
+      userLastname !== undefined ? encryptText(userLastname) : null,
+      encryptText(message), Date.now(), messageId ?? null, replyToMessageId ?? null, threadId ?? null, media ?? null,
+    );
+}
+
+/**
+ * Update the text of a stored message, e.g. after it has been edited.
+ * The text of its file (the transcription of its audio, or the text of its document) is kept after the new text.
+ *
+ * @param chatId the id of the chat of the message.
+ * @param messageId the Telegram id of the message.
+ * @param message the new text of the message, without the text of its file.
+ * @param fileText the text of the file of the message, once ready. The stored one is kept if not given.
+ * @returns true if the message was stored and has been updated.
+ */
+export function editHistory(chatId: string, messageId: number, message: string, fileText?: string): boolean {
+  const row = getDb().prepare('SELECT file_text FROM messages WHERE chat_id = ? AND message_id = ?').get(chatId, messageId);
+  if (!row) return false;
+  const file = fileText ?? decryptOptionalText(row.file_text) ?? '';
+  getDb()
+    .prepare('UPDATE messages SET message = ?, file_text = ? WHERE chat_id = ? AND message_id = ?')
+    .run(encryptText(((message ? message + '\n\n' : '') + file).trim()), file ? encryptText(file) : null, chatId, messageId);
+  return true;
+}
+
+/**
+ * Delete stored messages, e.g. after they have been deleted from the chat.
+ *
+ * @param chatId the id of the chat of the messages.
+ * @param messageIds the Telegram ids of the messages.
+ * @returns the number of deleted messages.
+ */
+export function deleteMessages(chatId: string, messageIds: number[]): number {
+  const statement = getDb().prepare('DELETE FROM messages WHERE chat_id = ? AND message_id = ?');
+  return messageIds.reduce((count, messageId) => count + Number(statement.run(chatId, messageId).changes), 0);
+}
+
+/**
+ * Get the display name of the author of a message: @username, or the plain first name, or the user id as a last resort.
+ *
+ * @param userId the id of the user.
+ * @param username the username of the user, if any.
+ * @param firstname the first name of the user, if any.
+ * @returns the display name.
+ */
+function formatAuthor(userId: string, username: string | undefined, firstname: string | undefined): string {
+  return username !== undefined ? '@' + username : firstname ?? userId;
+}
+
+/**
+ * Read a message selected with MESSAGE_COLUMNS, decrypting its text and the names of the users.
+ *
+ * @param row the row of the message.
+ * @returns the message.
+ */
+function toStoredMessage(row: Record<string, unknown>): StoredMessage {
+  return {
+    id: row.id as number,
+    author: formatAuthor(row.user_id as string, decryptOptionalText(row.username), decryptOptionalText(row.user_firstname)),
+    message: decryptText(row.message as string),
+    // Replies are linked to the author of the replied message, when it is stored.
+    replyTo: row.parent_user_id !== null ? formatAuthor(row.parent_user_id as string, decryptOptionalText(row.parent_username), decryptOptionalText(row.parent_firstname)) : undefined,
+    threadId: (row.thread_id as number | null) ?? undefined,
+    messageId: (row.message_id as number | null) ?? undefined,
+    media: (row.media as MediaKind | null) ?? undefined,
+    createdAt: row.created_at as number,
+  };
+}
+
+/**
+ * Get a portion of the history from the storage.
+ *
+ * @param chatId the id of the chat to get the history.
+ * @param range the portion of the history to get.
+ * @returns the messages, in chronological order.
+ */
+function queryHistory(chatId: string, range: HistoryRange): StoredMessage[] {
+  // Retrieve the requested history in insertion order. Messages outside the range stay stored but are not returned.
+  const query = `SELECT ${MESSAGE_COLUMNS} FROM messages m ${MESSAGE_PARENT_JOIN}`;
+  // Restrict the history to a forum topic, if requested.
+  const chat = range.threadId !== undefined ? 'm.chat_id = ? AND m.thread_id = ?' : 'm.chat_id = ?';
+  const chatParams = range.threadId !== undefined ? [chatId, range.threadId] : [chatId];
+  let rows;
+  if ('limit' in range) {
+    // The last N messages are selected newest first, then put back in chronological order.
+    rows = getDb()
+      .prepare(`${query} WHERE ${chat} ORDER BY m.id DESC LIMIT ?`)
+      .all(...chatParams, range.limit)
+      .reverse();
+  } else if ('afterId' in range) {
+    rows = getDb()
+      .prepare(`${query} WHERE ${chat} AND m.id > ? AND m.id <= ? ORDER BY m.id`)
+      .all(...chatParams, range.afterId, range.untilId ?? Number.MAX_SAFE_INTEGER);
+  } else {
+    rows = getDb()
+      .prepare(`${query} WHERE ${chat} AND m.created_at >= ? AND m.created_at < ? ORDER BY m.id`)
+      .all(...chatParams, range.since, range.until ?? Number.MAX_SAFE_INTEGER);
+  }
+  return rows.map(toStoredMessage);
+}
+
+/**
+ * Get the default portion of the history: the last 24 hours.
+ *
+ * @returns the range.
+ */
+export function getDefaultRange(): HistoryRange {
+  return { since: Date.now() - HISTORY_WINDOW_MS };
 }
 
 /**
  * Get the history from the storage.
  *
  * @param chatId the id of the chat to get the history.
- * @returns the history messages and their author display names from the last 24 hours.
+ * @param range the portion of the history to get. Defaults to the last 24 hours.
+ * @returns the history messages, with their ids and author display names, in chronological order.
  */
-export function getHistory(chatId: string): { author: string, message: string }[] {
-  // Retrieve the recent history in insertion order. Older messages stay stored but are not returned.
-  // Authors are displayed as @username; those without one fall back to their plain
-  // first name, or user id as a last resort ('@' || NULL is NULL, skipping the prefix).
-  const rows = getDb()
-    .prepare("SELECT COALESCE('@' || username, user_firstname, user_id) AS author, message FROM messages WHERE chat_id = ? AND created_at >= ? ORDER BY rowid")
-    .all(chatId, Date.now() - HISTORY_WINDOW_MS);
-  return rows.map(row => ({ author: row.author as string, message: row.message as string }));
+export function getHistory(chatId: string, range: HistoryRange = getDefaultRange()): HistoryMessage[] {
+  return queryHistory(chatId, range).map(({ id, author, message, replyTo, threadId }) => ({ id, author, message, replyTo, threadId }));
+}
+
+/**
+ * Get the history from the storage, with the Telegram id and time of each message.
+ *
+ * @param chatId the id of the chat to get the history.
+ * @param range the portion of the history to get. Defaults to the last 24 hours.
+ * @returns the history messages, in chronological order.
+ */
+export function getStoredHistory(chatId: string, range: HistoryRange = getDefaultRange()): StoredMessage[] {
+  return queryHistory(chatId, range);
+}
+
+/**
+ * Get the last message of a user in a chat, e.g. to summarize what they missed since then.
+ *
+ * @param chatId the id of the chat.
+ * @param userId the id of the user.
+ * @param since the time from which messages are considered, in milliseconds.
+ * @returns the id of the message, or undefined if the user has no messages since then.
+ */
+export function getLastUserMessageId(chatId: string, userId: string, since: number): number | undefined {
+  const row = getDb()
+    .prepare('SELECT MAX(id) AS id FROM messages WHERE chat_id = ? AND user_id = ? AND created_at >= ?')
+    .get(chatId, userId, since);
+  return (row?.id as number | null) ?? undefined;
+}
+
+/**
+ * Get the time span of a portion of the history, e.g. to tell the AI which period a summary covers.
+ *
+ * @param chatId the id of the chat.
+ * @param firstMessageId the id of the first message of the portion.
+ * @param lastMessageId the id of the last message of the portion.
+ * @returns the times of the first and last message, in milliseconds, or undefined if there are no such messages.
+ */
+export function getHistoryPeriod(chatId: string, firstMessageId: number, lastMessageId: number): { since: number, until: number } | undefined {
+  const row = getDb()
+    .prepare('SELECT MIN(created_at) AS since, MAX(created_at) AS until FROM messages WHERE chat_id = ? AND id BETWEEN ? AND ?')
+    .get(chatId, firstMessageId, lastMessageId);
+  return row?.since != null ? { since: row.since as number, until: row.until as number } : undefined;
+}
+
+/**
+ * Delete the messages, summaries, digests and transcriptions older than a given time from the storage.
+ * The digests still need the scheduled summaries of the periods in progress, and the last digest of each period,
+ * where the next one starts: they are kept until the next digest is built.
+ *
+ * @param before the time before which data is deleted, in milliseconds.
+ * @param digestStarts the start of the oldest digest in progress of the chats that build digests, in milliseconds, by chat:
+ * their scheduled summaries since then are kept.
+ * @returns the number of deleted messages.
+ */
+export function purgeHistory(before: number, digestStarts: Record<string, number> = {}): number {
+  const chats = getDb()
+    .prepare('SELECT DISTINCT chat_id FROM summaries WHERE created_at < ?')
+    .all(before);
+  const deleteSummaries = getDb().prepare('DELETE FROM summaries WHERE chat_id = ? AND created_at < ? AND (scheduled = 0 OR created_at <= ?)');
+  for (const row of chats) {
+    const chatId = row.chat_id as string;
+    deleteSummaries.run(chatId, before, Math.min(before, digestStarts[chatId] ?? before));
+  }
+  getDb()
+    .prepare(`
+      DELETE FROM digests WHERE created_at < ? AND (chat_id NOT IN (SELECT value FROM json_each(?)) OR EXISTS (
+        SELECT 1 FROM digests later
+        WHERE later.chat_id = digests.chat_id AND later.level = digests.level AND (later.until > digests.until OR (later.until = digests.until AND later.id > digests.id))
+      ))
+    `)
+    .run(before, JSON.stringify(Object.keys(digestStarts)));
+  getDb()
+    .prepare('DELETE FROM transcriptions WHERE created_at < ?')
+    .run(before);
+  getDb()
+    .prepare('DELETE FROM model_calls WHERE created_at < ?')
+    .run(before);
+  const result = getDb()
+    .prepare('DELETE FROM messages WHERE created_at < ?')
+    .run(before);
+  return Number(result.changes);
+}
+
+/**
+ * Delete the whole history of a chat from the storage, with its summaries, digests and transcriptions.
+ *
+ * @param chatId the id of the chat.
+ * @returns the number of deleted messages.
+ */
+export function deleteChatHistory(chatId: string): number {
+  getDb()
+    .prepare('DELETE FROM summaries WHERE chat_id = ?')
+    .run(chatId);
+  getDb()
+    .prepare('DELETE FROM digests WHERE chat_id = ?')
+    .run(chatId);
+  getDb()
+    .prepare('DELETE FROM usage WHERE chat_id = ?')
+    .run(chatId);
+  getDb()
+    .prepare('DELETE FROM model_calls WHERE chat_id = ?')
+    .run(chatId);
+  getDb()
+    .prepare('DELETE FROM transcriptions WHERE chat_id = ?')
+    .run(chatId);
+  const result = getDb()
+    .prepare('DELETE FROM messages WHERE chat_id = ?')
+    .run(chatId);
+  return Number(result.changes);
+}
+
+/**
+ * Delete all the messages of a user from the storage, in every chat.
+ * The summaries and digests covering any of those messages are deleted too, as they may quote them, and so are the transcriptions of their files.
+ *
+ * @param userId the id of the user.
+ * @returns the number of deleted messages.
+ */
+export function deleteUserHistory(userId: string): number {
+  for (const table of ['summaries', 'digests']) {
+    getDb()
+      .prepare(`
+        DELETE FROM ${table} WHERE EXISTS (
+          SELECT 1 FROM messages
+          WHERE messages.user_id = ? AND messages.chat_id = ${table}.chat_id
+            AND messages.id BETWEEN ${table}.first_message_id AND ${table}.last_message_id
+        )
+      `)
+      .run(userId);
+  }
+  getDb()
+    .prepare('DELETE FROM usage WHERE user_id = ?')
+    .run(userId);
+  getDb()
+    .prepare('DELETE FROM transcriptions WHERE user_id = ?')
+    .run(userId);
+  const result = getDb()
+    .prepare('DELETE FROM messages WHERE user_id = ?')
+    .run(userId);
+  return Number(result.changes);
+}
+
+/**
+ * Search the history of a chat for the messages most relevant to a text.
+ *
+ * @param chatId the id of the chat to search.
+ * @param text the text to search for, e.g. a question.
+ * @param limit the maximum number of messages to return.
+ * @returns the matching messages, most relevant first.
+ */
+export function searchHistory(chatId: string, text: string, limit: number): StoredMessage[] {
+  // Match any of the significant words of the text, as a prefix (so "decide" matches "decided").
+  const words = [...new Set(text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [])].filter(x => x.length >= 3);
+  if (words.length === 0) return [];
+  const database = getDb();
+
+  // Encrypted messages have no full-text index: the messages of the chat are ranked by the number of words they match.
+  if (encryptionKey) {
+    return database
+      .prepare(`SELECT ${MESSAGE_COLUMNS} FROM messages m ${MESSAGE_PARENT_JOIN} WHERE m.chat_id = ?`)
+      .all(chatId)
+      .map(toStoredMessage)
+      .map(message => {
+        const tokens = message.message.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+        return { message, score: words.filter(word => tokens.some(token => token.startsWith(word))).length };
+      })
+      .filter(x => x.score > 0)
+      .sort((a, b) => b.score - a.score || b.message.id - a.message.id)
+      .slice(0, limit)
+      .map(x => x.message);
+  }
+
+  // Words are quoted so that FTS5 operators in the text are treated as plain words.
+  const query = words.map(x => `"${x}"*`).join(' OR ');
+  return database
+    .prepare(`
+      SELECT ${MESSAGE_COLUMNS}
+      FROM messages_fts
+        JOIN messages m ON m.id = messages_fts.rowid
+        ${MESSAGE_PARENT_JOIN}
+      WHERE messages_fts MATCH ? AND m.chat_id = ?
+      ORDER BY rank LIMIT ?
+    `)
+    .all(query, chatId, limit)
+    .map(toStoredMessage);
 }
 
 /**
@@ -93,3 +790,605 @@ export function getActiveChats(): string[] {
     .all(Date.now() - HISTORY_WINDOW_MS); // Chats whose messages are all older than the summary window are not active.
   return rows.map(row => row.chat_id as string);
 }
+
+/**
+ * A group the bot has seen, that users can summarize from a private chat.
+ */
+export interface KnownChat {
+  chatId: string;
+  title: string;
+}
+
+/**
+ * Save the title of a group in the storage, so that users can find it from a private chat.
+ *
+ * @param chatId the id of the chat.
+ * @param title the current title of the chat.
+ */
+export function saveChat(chatId: string, title: string) {
+  getDb()
+    .prepare('INSERT INTO chats (chat_id, title, updated_at) VALUES (?, ?, ?) ON CONFLICT (chat_id) DO UPDATE SET title = excluded.title, updated_at = excluded.updated_at')
+    .run(chatId, encryptText(title), Date.now());
+}
+
+/**
+ * Get the groups with stored messages, with their titles.
+ *
+ * @returns the groups, sorted by title.
+ */
+export function getKnownChats(): KnownChat[] {
+  const rows = getDb()
+    .prepare('SELECT chat_id, title FROM chats c WHERE EXISTS (SELECT 1 FROM messages m WHERE m.chat_id = c.chat_id)')
+    .all();
+  // Titles may be encrypted, so they are sorted once decrypted.
+  return rows
+    .map(row => ({ chatId: row.chat_id as string, title: decryptText(row.title as string) }))
+    .sort((a, b) => a.title.localeCompare(b.title));
+}
+
+/**
+ * Save the name of a forum topic in the storage, to title the sections of the summaries.
+ *
+ * @param chatId the id of the chat.
+ * @param threadId the Telegram id of the topic.
+ * @param name the name of the topic.
+ * @param replace whether the name replaces the stored one, false if it may be outdated.
+ */
+export function saveTopic(chatId: string, threadId: number, name: string, replace = true) {
+  getDb()
+    .prepare(`INSERT INTO topics (chat_id, thread_id, name) VALUES (?, ?, ?) ON CONFLICT (chat_id, thread_id) DO ${replace ? 'UPDATE SET name = excluded.name' : 'NOTHING'}`)
+    .run(chatId, threadId, encryptText(name));
+}
+
+/**
+ * Get the names of the forum topics of a chat.
+ *
+ * @param chatId the id of the chat.
+ * @returns the names, by Telegram id of the topic.
+ */
+export function getTopicNames(chatId: string): Record<number, string> {
+  const rows = getDb()
+    .prepare('SELECT thread_id, name FROM topics WHERE chat_id = ?')
+    .all(chatId);
+  return Object.fromEntries(rows.map(row => [row.thread_id as number, decryptText(row.name as string)]));
+}
+
+/**
+ * Save the transcription of an audio or video file in the storage, so that copies of the file are not transcribed again.
+ *
+ * @param fileUniqueId the Telegram unique id of the file, the same for all its copies.
+ * @param text the transcription, empty if the file has no speech.
+ * @param chatId the id of the chat the file was sent to, whose history deletion deletes the transcription.
+ * @param userId the id of the user who sent the file, whose history deletion deletes the transcription.
+ */
+export function saveTranscription(fileUniqueId: string, text: string, chatId: string, userId: string) {
+  getDb()
+    .prepare('INSERT INTO transcriptions (file_unique_id, text, created_at, chat_id, user_id) VALUES (?, ?, ?, ?, ?) ON CONFLICT (file_unique_id) DO UPDATE SET text = excluded.text, created_at = excluded.created_at, chat_id = excluded.chat_id, user_id = excluded.user_id')
+    .run(fileUniqueId, encryptText(text), Date.now(), chatId, userId);
+}
+
+/**
+ * Get the stored transcription of an audio or video file.
+ *
+ * @param fileUniqueId the Telegram unique id of the file.
+ * @returns the transcription, or undefined if the file has not been transcribed.
+ */
+export function getTranscription(fileUniqueId: string): string | undefined {
+  const row = getDb()
+    .prepare('SELECT text FROM transcriptions WHERE file_unique_id = ?')
+    .get(fileUniqueId);
+  return row ? decryptText(row.text as string) : undefined;
+}
+
+/**
+ * Save a generated summary in the storage.
+ *
+ * @param chatId the id of the chat of the summary.
+ * @param summary the text of the summary.
+ * @param firstMessageId the id of the first message covered by the summary.
+ * @param lastMessageId the id of the last message covered by the summary.
+ * @param threadId the Telegram id of the forum topic of the summary, if it only covers a topic.
+ * @param messageId the Telegram id of the message showing the summary, if any.
+ * @param scheduled whether it is a scheduled summary, which the digests are built from.
+ * @returns the id of the stored summary.
+ */
+export function saveSummary(chatId: string, summary: string, firstMessageId: number, lastMessageId: number, threadId?: number, messageId?: number, scheduled = false): number {
+  const result = getDb()
+    .prepare('INSERT INTO summaries (chat_id, summary, first_message_id, last_message_id, created_at, thread_id, message_id, scheduled) VALUES (?, ?, ?, ?, ?, ?, ?, ?)')
+    .run(chatId, encryptText(summary), firstMessageId, lastMessageId, Date.now(), threadId ?? null, messageId ?? null, scheduled ? 1 : 0);
+  return Number(result.lastInsertRowid);
+}
+
+/**
+ * Update the text of a stored summary, e.g. once rewritten.
+ *
+ * @param id the id of the summary.
+ * @param summary the new text of the summary.
+ */
+export function updateSummary(id: number, summary: string) {
+  getDb()
+    .prepare('UPDATE summaries SET summary = ? WHERE id = ?')
+    .run(encryptText(summary), id);
+}
+
+/**
+ * Read a summary selected with SUMMARY_COLUMNS, decrypting its text.
+ *
+ * @param row the row of the summary.
+ * @returns the summary.
+ */
+function toStoredSummary(row: Record<string, unknown>): StoredSummary {
+  return {
+    id: row.id as number,
+    summary: decryptText(row.summary as string),
+    firstMessageId: row.first_message_id as number,
+    lastMessageId: row.last_message_id as number,
+    createdAt: row.created_at as number,
+    threadId: (row.thread_id as number | null) ?? undefined,
+  };
+}
+
+/**
+ * Get the latest summary of a chat, or of one of its forum topics, from the storage.
+ *
+ * @param chatId the id of the chat.
+ * @param threadId the Telegram id of the forum topic, or undefined for the summaries of the whole chat.
+ * @returns the summary covering the most recent messages, or undefined if the chat has no summaries.
+ */
+export function getLastSummary(chatId: string, threadId?: number): StoredSummary | undefined {
+  const row = getDb()
+    .prepare(`SELECT ${SUMMARY_COLUMNS} FROM summaries WHERE chat_id = ? AND thread_id IS ? ORDER BY last_message_id DESC, id DESC LIMIT 1`)
+    .get(chatId, threadId ?? null);
+  return row ? toStoredSummary(row) : undefined;
+}
+
+/**
+ * Get the latest scheduled summary of a chat from the storage.
+ *
+ * @param chatId the id of the chat.
+ * @returns the scheduled summary covering the most recent messages, or undefined if the chat has no scheduled summaries.
+ */
+export function getLastScheduledSummary(chatId: string): StoredSummary | undefined {
+  const row = getDb()
+    .prepare(`SELECT ${SUMMARY_COLUMNS} FROM summaries WHERE chat_id = ? AND scheduled = 1 ORDER BY last_message_id DESC, id DESC LIMIT 1`)
+    .get(chatId);
+  return row ? toStoredSummary(row) : undefined;
+}
+
+/**
+ * Get the summary shown by a message of the bot from the storage.
+ *
+ * @param chatId the id of the chat.
+ * @param messageId the Telegram id of the message showing the summary.
+ * @returns the summary, or undefined if the message does not show a stored summary.
+ */
+export function getSummaryByMessage(chatId: string, messageId: number): StoredSummary | undefined {
+  const row = getDb()
+    .prepare(`SELECT ${SUMMARY_COLUMNS} FROM summaries WHERE chat_id = ? AND message_id = ? ORDER BY id DESC LIMIT 1`)
+    .get(chatId, messageId);
+  return row ? toStoredSummary(row) : undefined;
+}
+
+/**
+ * Get the summaries of a chat from the storage that cover a range of messages.
+ *
+ * @param chatId the id of the chat.
+ * @param firstMessageId the id of the first message of the range.
+ * @param lastMessageId the id of the last message of the range.
+ * @returns the summaries covering any message of the range, in chronological order.
+ */
+export function getSummaries(chatId: string, firstMessageId: number, lastMessageId: number): StoredSummary[] {
+  const rows = getDb()
+    .prepare(`SELECT ${SUMMARY_COLUMNS} FROM summaries WHERE chat_id = ? AND first_message_id <= ? AND last_message_id >= ? ORDER BY last_message_id, id`)
+    .all(chatId, lastMessageId, firstMessageId);
+  return rows.map(toStoredSummary);
+}
+
+/**
+ * Get the scheduled summaries of a chat from the storage, created in a period.
+ *
+ * @param chatId the id of the chat.
+ * @param after the time after which the summaries were created, in milliseconds.
+ * @param until the time up to which the summaries were created, in milliseconds.
+ * @returns the summaries, in chronological order.
+ */
+export function getScheduledSummaries(chatId: string, after: number, until: number): StoredSummary[] {
+  const rows = getDb()
+    .prepare(`SELECT ${SUMMARY_COLUMNS} FROM summaries WHERE chat_id = ? AND scheduled = 1 AND created_at > ? AND created_at <= ? ORDER BY created_at, id`)
+    .all(chatId, after, until);
+  return rows.map(toStoredSummary);
+}
+
+/**
+ * Get the chats that have scheduled summaries in the storage.
+ *
+ * @returns the ids of the chats.
+ */
+export function getScheduledSummaryChats(): string[] {
+  const rows = getDb()
+    .prepare('SELECT DISTINCT chat_id FROM summaries WHERE scheduled = 1')
+    .all();
+  return rows.map(row => row.chat_id as string);
+}
+
+/**
+ * Save a digest of a chat in the storage.
+ *
+ * @param chatId the id of the chat.
+ * @param level the period of the digest.
+ * @param summary the text of the digest.
+ * @param summaries the scheduled summaries the digest is built from, in chronological order. It must not be empty.
+ * @param until the end of the period of the digest, in milliseconds.
+ * @returns the id of the stored digest.
+ */
+export function saveDigest(chatId: string, level: DigestLevel, summary: string, summaries: StoredSummary[], until: number): number {
+  const result = getDb()
+    .prepare('INSERT INTO digests (chat_id, level, summary, first_message_id, last_message_id, since, until, created_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?)')
+    .run(
+      chatId, level, encryptText(summary),
+      Math.min(...summaries.map(x => x.firstMessageId)), Math.max(...summaries.map(x => x.lastMessageId)),
+      summaries[0].createdAt, until, Date.now(),
+    );
+  return Number(result.lastInsertRowid);
+}
+
+/**
+ * Get the latest digest of a chat for a period from the storage.
+ *
+ * @param chatId the id of the chat.
+ * @param level the period of the digest.
+ * @returns the digest ending last, or undefined if the chat has no digests for that period.
+ */
+export function getLastDigest(chatId: string, level: DigestLevel): StoredDigest | undefined {
+  const row = getDb()
+    .prepare('SELECT id, level, summary, first_message_id, last_message_id, since, until, created_at FROM digests WHERE chat_id = ? AND level = ? ORDER BY until DESC, id DESC LIMIT 1')
+    .get(chatId, level);
+  if (!row) return undefined;
+  return {
+    id: row.id as number,
+    level: row.level as DigestLevel,
+    summary: decryptText(row.summary as string),
+    firstMessageId: row.first_message_id as number,
+    lastMessageId: row.last_message_id as number,
+    since: row.since as number,
+    until: row.until as number,
+    createdAt: row.created_at as number,
+  };
+}
+
+/**
+ * Get the settings of a chat from the storage.
+ *
+ * @param chatId the id of the chat to get the settings.
+ * @returns the values of the settings the chat has set, by key.
+ */
+export function getChatSettings(chatId: string): Record<string, string> {
+  const rows = getDb()
+    .prepare('SELECT key, value FROM chat_settings WHERE chat_id = ?')
+    .all(chatId);
+  return Object.fromEntries(rows.map(row => [row.key as string, row.value as string]));
+}
+
+/**
+ * Update a setting of a chat in the storage.
+ *
+ * @param chatId the id of the chat to update the setting.
+ * @param key the key of the setting.
+ * @param value the new value of the setting, or null to unset it.
+ */
+export function setChatSetting(chatId: string, key: string, value: string | null) {
+  if (value === null) {
+    getDb()
+      .prepare('DELETE FROM chat_settings WHERE chat_id = ? AND key = ?')
+      .run(chatId, key);
+  } else {
+    getDb()
+      .prepare('INSERT INTO chat_settings (chat_id, key, value) VALUES (?, ?, ?) ON CONFLICT (chat_id, key) DO UPDATE SET value = excluded.value')
+      .run(chatId, key, value);
+  }
+}
+
+/**
+ * A cron schedule for the automatic summaries of a chat.
+ */
+export interface ChatSchedule {
+  chatId: string;
+  // The cron expression, e.g. "0 8 * * *".
+  schedule: string;
+  // The IANA time zone of the cron expression, or undefined for the server time zone.
+  timezone: string | undefined;
+}
+
+/**
+ * Get the custom schedules of all chats from the storage.
+ *
+ * @returns the schedules.
+ */
+export function getChatSchedules(): ChatSchedule[] {
+  const rows = getDb()
+    .prepare('SELECT chat_id, schedule, timezone FROM chat_schedules')
+    .all();
+  return rows.map(row => ({ chatId: row.chat_id as string, schedule: row.schedule as string, timezone: (row.timezone as string | null) ?? undefined }));
+}
+
+/**
+ * Get the custom schedule of a chat from the storage.
+ *
+ * @param chatId the id of the chat.
+ * @returns the schedule, or undefined if the chat uses the default one.
+ */
+export function getChatSchedule(chatId: string): ChatSchedule | undefined {
+  const row = getDb()
+    .prepare('SELECT chat_id, schedule, timezone FROM chat_schedules WHERE chat_id = ?')
+    .get(chatId);
+  return row ? { chatId: row.chat_id as string, schedule: row.schedule as string, timezone: (row.timezone as string | null) ?? undefined } : undefined;
+}
+
+/**
+ * Update the custom schedule of a chat in the storage.
+ *
+ * @param chatId the id of the chat.
+ * @param schedule the cron expression and time zone, or null to go back to the default schedule.
+ */
+export function setChatSchedule(chatId: string, schedule: { schedule: string, timezone: string | undefined } | null) {
+  if (schedule === null) {
+    getDb()
+      .prepare('DELETE FROM chat_schedules WHERE chat_id = ?')
+      .run(chatId);
+  } else {
+    getDb()
+      .prepare('INSERT INTO chat_schedules (chat_id, schedule, timezone) VALUES (?, ?, ?) ON CONFLICT (chat_id) DO UPDATE SET schedule = excluded.schedule, timezone = excluded.timezone')
+      .run(chatId, schedule.schedule, schedule.timezone ?? null);
+  }
+}
+
+/**
+ * Record a use of the bot that is subject to rate limits.
+ * Uses older than the rate limit window are deleted, as they are no longer needed.
+ *
+ * @param chatId the id of the chat.
+ * @param userId the id of the user.
+ * @param action the rate limited action, e.g. "summary".
+ */
+export function recordUsage(chatId: string, userId: string, action: string) {
+  const now = Date.now();
+  getDb()
+    .prepare('DELETE FROM usage WHERE created_at < ?')
+    .run(now - USAGE_WINDOW_MS);
+  getDb()
+    .prepare('INSERT INTO usage (chat_id, user_id, action, created_at) VALUES (?, ?, ?, ?)')
+    .run(chatId, userId, action, now);
+}
+
+/**
+ * Get the recent uses of the bot in a chat.
+ *
+ * @param chatId the id of the chat.
+ * @param since the time since which uses are returned, in milliseconds.
+ * @returns the uses, oldest first.
+ */
+export function getUsage(chatId: string, since: number): UsageEvent[] {
+  const rows = getDb()
+    .prepare('SELECT user_id, action, created_at FROM usage WHERE chat_id = ? AND created_at >= ? ORDER BY created_at, rowid')
+    .all(chatId, since);
+  return rows.map(row => ({
+    userId: row.user_id as string,
+    action: row.action as string,
+    createdAt: row.created_at as number,
+  }));
+}
+
+/**
+ * Record a call to the LLM or to the STT provider in the usage log of a chat.
+ *
+ * @param chatId the id of the chat the call was for.
+ * @param call the call.
+ */
+export function recordModelCall(chatId: string, call: Omit<ModelCall, 'createdAt'>) {
+  getDb()
+    .prepare('INSERT INTO model_calls (chat_id, kind, purpose, input_size, duration_ms, success, created_at) VALUES (?, ?, ?, ?, ?, ?, ?)')
+    .run(chatId, call.kind, call.purpose, call.inputSize, call.durationMs, call.success ? 1 : 0, Date.now());
+}
+
+/**
+ * Get the calls to the LLM and to the STT provider in the usage log of a chat.
+ *
+ * @param chatId the id of the chat.
+ * @param since the time since which calls are returned, in milliseconds.
+ * @param until the time until which calls are returned, in milliseconds, excluded.
+ * @returns the calls, oldest first.
+ */
+export function getModelCalls(chatId: string, since: number, until = Number.MAX_SAFE_INTEGER): ModelCall[] {
+  const rows = getDb()
+    .prepare('SELECT kind, purpose, input_size, duration_ms, success, created_at FROM model_calls WHERE chat_id = ? AND created_at >= ? AND created_at < ? ORDER BY created_at, rowid')
+    .all(chatId, since, until);
+  return rows.map(row => ({
+    kind: row.kind as ModelCall['kind'],
+    purpose: row.purpose as ModelPurpose,
+    inputSize: row.input_size as number,
+    durationMs: row.duration_ms as number,
+    success: row.success === 1,
+    createdAt: row.created_at as number,
+  }));
+}
+
+/**
+ * Check if a user has opted out of the storage of their messages in a chat, or in all chats.
+ *
+ * @param chatId the id of the chat.
+ * @param userId the id of the user.
+ * @returns true if the messages of the user must not be stored in the chat.
+ */
+export function isOptedOut(chatId: string, userId: string): boolean {
+  const row = getDb()
+    .prepare("SELECT 1 FROM optouts WHERE user_id = ? AND chat_id IN (?, '*')")
+    .get(userId, chatId);
+  return row !== undefined;
+}
+
+/**
+ * Opt a user out of the storage of their messages, or back in.
+ *
+ * @param userId the id of the user.
+ * @param chatId the id of the chat, or null for all chats.
+ * Opting back in for all chats also removes the opt-outs of single chats.
+ * @param optedOut whether the messages of the user must not be stored.
+ */
+export function setOptOut(userId: string, chatId: string | null, optedOut: boolean) {
+  if (optedOut) {
+    getDb()
+      .prepare('INSERT OR IGNORE INTO optouts (user_id, chat_id) VALUES (?, ?)')
+      .run(userId, chatId ?? '*');
+  } else if (chatId === null) {
+    getDb()
+      .prepare('DELETE FROM optouts WHERE user_id = ?')
+      .run(userId);
+  } else {
+    getDb()
+      .prepare('DELETE FROM optouts WHERE user_id = ? AND chat_id = ?')
+      .run(userId, chatId);
+  }
+}
+
+/**
+ * Add a job to the queue.
+ *
+ * @param type the type of the job.
+ * @param payload the parameters of the job, as JSON.
+ * @param runAt the time from which the job can run, in milliseconds.
+ * @returns the id of the job.
+ */
+export function addJob(type: string, payload: string, runAt: number): number {
+  const result = getDb()
+    .prepare('INSERT INTO jobs (type, payload, run_at, created_at) VALUES (?, ?, ?, ?)')
+    .run(type, encryptText(payload), runAt, Date.now());
+  return Number(result.lastInsertRowid);
+}
+
+/**
+ * Claim the jobs of the queue that are due, marking them as running.
+ *
+ * @param now the current time, in milliseconds.
+ * @param limit the maximum number of jobs to claim.
+ * @returns the claimed jobs, oldest due first.
+ */
+export function claimJobs(now: number, limit: number): StoredJob[] {
+  const rows = getDb()
+    .prepare(`
+      UPDATE jobs SET running = 1
+      WHERE id IN (SELECT id FROM jobs WHERE running = 0 AND run_at <= ? ORDER BY run_at, id LIMIT ?)
+      RETURNING id, type, payload, attempts, run_at
+    `)
+    .all(now, limit);
+  // RETURNING does not preserve the order of the subquery.
+  return rows
+    .sort((a, b) => (a.run_at as number) - (b.run_at as number) || (a.id as number) - (b.id as number))
+    .map(row => ({
+      id: row.id as number,
+      type: row.type as string,
+      payload: decryptText(row.payload as string),
+      attempts: row.attempts as number,
+    }));
+}
+
+/**
+ * Get when the next job of the queue is due.
+ *
+ * @returns the time of the next job that is not running, in milliseconds, or undefined if there is none.
+ */
+export function getNextJobTime(): number | undefined {
+  const row = getDb()
+    .prepare('SELECT MIN(run_at) AS run_at FROM jobs WHERE running = 0')
+    .get();
+  return (row?.run_at as number | null) ?? undefined;
+}
+
+/**
+ * Delete a job from the queue, e.g. when it is done.
+ *
+ * @param id the id of the job.
+ */
+export function deleteJob(id: number) {
+  getDb()
+    .prepare('DELETE FROM jobs WHERE id = ?')
+    .run(id);
+}
+
+/**
+ * Schedule a failed job to run again.
+ *
+ * @param id the id of the job.
+ * @param runAt the time from which the job can run again, in milliseconds.
+ * @param error the error of the failed attempt.
+ */
+export function retryJob(id: number, runAt: number, error: string) {
+  getDb()
+    .prepare('UPDATE jobs SET running = 0, attempts = attempts + 1, run_at = ?, last_error = ? WHERE id = ?')
+    .run(runAt, error, id);
+}
+
+/**
+ * Release the jobs marked as running, e.g. those interrupted by a restart.
+ */
+export function releaseJobs() {
+  getDb()
+    .prepare('UPDATE jobs SET running = 0 WHERE running = 1')
+    .run();
+}
+
+/**
+ * Encrypt the database with a new key, or decrypt it, e.g. to rotate the key or encrypt an existing database.
+ * The current key is the one given at startup (ENCRYPTION_KEY), if any. The bot must not be running.
+ *
+ * @param newKey the new key, or undefined to store the data in plain text.
+ * @returns the number of messages rewritten.
+ */
+export function rekeyDatabase(newKey: Buffer | undefined): number {
+  const database = getDb();
+  const oldKey = encryptionKey;
+  const rekey = (value: string) => {
+    const text = oldKey ? encryptionUtils.decrypt(value, oldKey) : value;
+    return newKey ? encryptionUtils.encrypt(text, newKey) : text;
+  };
+  const rekeyOptional = (value: unknown) => value === null ? null : rekey(value as string);
+
+  // The search index must not keep the words of the messages once they are encrypted.
+  encryptionKey = newKey;
+  if (newKey) setupSearchIndex(database);
+
+  let count = 0;
+  database.exec('BEGIN');
+  try {
+    const messages = database.prepare('SELECT id, username, user_firstname, user_lastname, message, file_text FROM messages').all();
+    const updateMessage = database.prepare('UPDATE messages SET username = ?, user_firstname = ?, user_lastname = ?, message = ?, file_text = ? WHERE id = ?');
+    for (const row of messages) {
+      updateMessage.run(rekeyOptional(row.username), rekeyOptional(row.user_firstname), rekeyOptional(row.user_lastname), rekey(row.message as string), rekeyOptional(row.file_text), row.id as number);
+    }
+    count = messages.length;
+    const updateSummary = database.prepare('UPDATE summaries SET summary = ? WHERE id = ?');
+    for (const row of database.prepare('SELECT id, summary FROM summaries').all()) updateSummary.run(rekey(row.summary as string), row.id as number);
+    const updateDigest = database.prepare('UPDATE digests SET summary = ? WHERE id = ?');
+    for (const row of database.prepare('SELECT id, summary FROM digests').all()) updateDigest.run(rekey(row.summary as string), row.id as number);
+    const updateJob = database.prepare('UPDATE jobs SET payload = ? WHERE id = ?');
+    for (const row of database.prepare('SELECT id, payload FROM jobs').all()) updateJob.run(rekey(row.payload as string), row.id as number);
+    const updateChat = database.prepare('UPDATE chats SET title = ? WHERE chat_id = ?');
+    for (const row of database.prepare('SELECT chat_id, title FROM chats').all()) updateChat.run(rekey(row.title as string), row.chat_id as string);
+    const updateTopic = database.prepare('UPDATE topics SET name = ? WHERE chat_id = ? AND thread_id = ?');
+    for (const row of database.prepare('SELECT chat_id, thread_id, name FROM topics').all()) updateTopic.run(rekey(row.name as string), row.chat_id as string, row.thread_id as number);
+    const updateTranscription = database.prepare('UPDATE transcriptions SET text = ? WHERE file_unique_id = ?');
+    for (const row of database.prepare('SELECT file_unique_id, text FROM transcriptions').all()) updateTranscription.run(rekey(row.text as string), row.file_unique_id as string);
+
+    database.exec("DELETE FROM meta WHERE key = 'encryption_check'");
+    if (newKey) database.prepare("INSERT INTO meta (key, value) VALUES ('encryption_check', ?)").run(encryptionUtils.encrypt(KEY_CHECK, newKey));
+    database.exec('COMMIT');
+  } catch (error) {
+    database.exec('ROLLBACK');
+    // The key of the database has not changed: it is checked again when the database is reopened.
+    close();
+    throw error;
+  }
+
+  // Decrypted messages can be indexed again.
+  if (!newKey) setupSearchIndex(database);
+  return count;
+}
@@ -0,0 +1,75 @@
+// Dependencies.
+import * as dataUtils from './data';
+
+// Constants.
+const WEEK_MS = 1000 * 60 * 60 * 24 * 7;
+const LEVEL_NAMES: Record<dataUtils.DigestLevel, string> = {
+  'week': 'Weekly digest',
+  'month': 'Monthly digest',
+};
+
+/**
+ * The scheduled summaries a digest is built from, and the end of its period.
+ */
+export interface DigestWindow {
+  // The summaries, in chronological order. It is never empty.
+  summaries: dataUtils.StoredSummary[];
+  until: number;
+}
+
+/**
+ * Move a time by the period of a digest: a week, or a calendar month.
+ *
+ * @param level the period of the digest.
+ * @param time the time, in milliseconds.
+ * @param direction 1 to move forward, -1 to move back.
+ * @returns the moved time, in milliseconds.
+ */
+function shiftPeriod(level: dataUtils.DigestLevel, time: number, direction: 1 | -1): number {
+  if (level === 'week') return time + direction * WEEK_MS;
+  const date = new Date(time);
+  date.setUTCMonth(date.getUTCMonth() + direction);
+  return date.getTime();
+}
+
+/**
+ * Get the scheduled summaries of the next digest of a chat, if it is due.
+ * Each digest starts where the previous one of the same period ended, and the first one with the first scheduled summary:
+ * it is due once a whole period has passed since its start, and covers every scheduled summary since then.
+ *
+ * @param chatId the id of the chat.
+ * @param level the period of the digest.
+ * @param now the current time, in milliseconds.
+ * @returns the summaries of the digest and the end of its period, or undefined if it is not due.
+ */
+export function getDueDigest(chatId: string, level: dataUtils.DigestLevel, now = Date.now()): DigestWindow | undefined {
+  const last = dataUtils.getLastDigest(chatId, level);
+  const summaries = dataUtils.getScheduledSummaries(chatId, last?.until ?? 0, now);
+  if (summaries.length === 0 || now < shiftPeriod(level, last?.until ?? summaries[0].createdAt, 1)) return undefined;
+  return { summaries, until: now };
+}
+
+/**
+ * Get the scheduled summaries of a chat from the last period, for a digest requested with /digest.
+ *
+ * @param chatId the id of the chat.
+ * @param level the period of the digest.
+ * @param now the current time, in milliseconds.
+ * @returns the summaries of the digest and the end of its period, or undefined if there are no scheduled summaries in the period.
+ */
+export function getRecentDigest(chatId: string, level: dataUtils.DigestLevel, now = Date.now()): DigestWindow | undefined {
+  const summaries = dataUtils.getScheduledSummaries(chatId, shiftPeriod(level, now, -1), now);
+  return summaries.length > 0 ? { summaries, until: now } : undefined;
+}
+
+/**
+ * Get the title of a digest, with its period, e.g. "Weekly digest, 2025-03-03 to 2025-03-10".
+ *
+ * @param level the period of the digest.
+ * @param window the summaries of the digest and the end of its period.
+ * @returns the title.
+ */
+export function getDigestTitle(level: dataUtils.DigestLevel, window: DigestWindow): string {
+  const format = (time: number) => new Date(time).toISOString().slice(0, 10);
+  return `${LEVEL_NAMES[level]}, ${format(window.summaries[0].createdAt)} to ${format(window.until)}`;
+}
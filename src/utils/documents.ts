@@ -0,0 +1,345 @@
+// Dependencies.
+import * as path from 'path';
+import * as zlib from 'zlib';
+
+// Constants.
+const DEFAULT_MAX_SIZE_MB = 5; // Telegram lets bots download files up to 20 MB.
+const DOCUMENT_MAX_LENGTH = 20000; // The extracted text is cut to this number of characters, not to fill the history with a single document.
+const INFLATED_MAX_LENGTH = DOCUMENT_MAX_LENGTH * 50; // Compressed parts of a document are only read up to this number of bytes, markup included, so a small document cannot expand to gigabytes.
+const PDF_SPACE_KERNING = -200; // In TJ arrays, a shift of the next glyph to the right larger than this is a space between words.
+const NUMBER = /[+-]?(\d+\.?\d*|\.\d+)/y; // A number of a PDF content stream.
+const COMPOSITE_FONT = /\/Subtype\s*\/Type0\b|\/Identity-[HV]\b/; // A composite font of a PDF document, or its encoding.
+const TOKEN = /\/[^\s/()<>[\]{}%]*|<<|>>|[^\s/()<>[\]{}%]+|./y; // A name, a dictionary delimiter or an operator of a PDF content stream.
+
+/**
+ * The formats of the documents whose text can be extracted.
+ */
+export type DocumentKind = 'pdf' | 'docx' | 'text';
+
+// The supported formats, by MIME type and by file extension.
+const MIME_TYPES: Record<string, DocumentKind> = {
+  'application/pdf': 'pdf',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': 'docx',
+  'text/plain': 'text',
+  'text/markdown': 'text',
+  'text/x-markdown': 'text',
+};
+const EXTENSIONS: Record<string, DocumentKind> = {
+  '.pdf': 'pdf',
+  '.docx': 'docx',
+  '.txt': 'text',
+  '.md': 'text',
+  '.markdown': 'text',
+};
+
+/**
+ * An operand of a PDF content stream: a number, a string or an array of them.
+ */
+type PdfOperand = number | string | (number | string)[];
+
+/**
+ * Get the maximum size of the documents whose text is extracted, from DOCUMENT_MAX_SIZE.
+ *
+ * @returns the size, in bytes, or 0 if the text of documents is not extracted.
+ */
+export function getMaxDocumentSize(): number {
+  const value = Number(process.env.DOCUMENT_MAX_SIZE);
+  const megabytes = process.env.DOCUMENT_MAX_SIZE && Number.isFinite(value) && value >= 0 ? value : DEFAULT_MAX_SIZE_MB;
+  return Math.floor(megabytes * 1024 * 1024);
+}
+
+/**
+ * Get the format of a document, if its text can be extracted.
+ *
+ * @param mimeType the MIME type of the document, if known.
+ * @param fileName the name of the document, if known.
+ * @returns the format, or undefined if the document is not supported.
+ */
+export function getDocumentKind(mimeType: string | undefined, fileName: string | undefined): DocumentKind | undefined {
+  return (mimeType && MIME_TYPES[mimeType.toLowerCase()]) || (fileName ? EXTENSIONS[path.extname(fileName).toLowerCase()] : undefined);
+}
+
+/**
+ * Decode the XML entities of a text.
+ *
+ * @param text the text.
+ * @returns the decoded text.
+ */
+function decodeXmlEntities(text: string): string {
+  const entities: Record<string, string> = { lt: '<', gt: '>', amp: '&', quot: '"', apos: "'" };
+  return text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (entity, name: string) => {
+    if (name[0] === '#') return String.fromCodePoint(name[1].toLowerCase() === 'x' ? parseInt(name.slice(2), 16) : Number(name.slice(1)));
+    return entities[name] ?? entity;
+  });
+}
+
+/**
+ * Decompress Deflate data, up to a maximum length: the rest of the data is not decompressed.
+ * Truncated data is decompressed as far as it goes.
+ *
+ * @param data the compressed data.
+ * @param raw whether the data is raw Deflate (as in ZIP archives), or has a zlib header (as in PDF documents).
+ * @returns the decompressed data, cut to INFLATED_MAX_LENGTH.
+ * @throws an error if the data is not valid.
+ */
+async function inflate(data: Buffer, raw: boolean): Promise<Buffer> {
+  const options = { finishFlush: zlib.constants.Z_SYNC_FLUSH };
+  const inflater = raw ? zlib.createInflateRaw(options) : zlib.createInflate(options);
+  inflater.end(data);
+  const chunks: Buffer[] = [];
+  let length = 0;
+  // Leaving the loop early destroys the stream.
+  for await (const chunk of inflater) {
+    chunks.push(chunk);
+    length += chunk.length;
+    if (length >= INFLATED_MAX_LENGTH) break;
+  }
+  return Buffer.concat(chunks).subarray(0, INFLATED_MAX_LENGTH);
+}
+
+/**
+ * Read a file of a ZIP archive.
+ *
+ * @param zip the archive.
+ * @param name the path of the file in the archive.
+ * @returns the content of the file, cut to INFLATED_MAX_LENGTH if compressed, or undefined if the archive does not contain it.
+ * @throws an error if the buffer is not a ZIP archive or the file is compressed with an unsupported method.
+ */
+async function readZipEntry(zip: Buffer, name: string): Promise<Buffer | undefined> {
+  // The end of central directory record closes the archive, before an optional comment.
+  const end = zip.lastIndexOf(Buffer.from([0x50, 0x4b, 0x05, 0x06]));
+  if (end < 0 || end + 22 > zip.length) throw new Error('The document is not a ZIP archive.');
+  let offset = zip.readUInt32LE(end + 16);
+  for (let i = 0; i < zip.readUInt16LE(end + 10) && zip.readUInt32LE(offset) === 0x02014b50; i++) {
+    const nameLength = zip.readUInt16LE(offset + 28);
+    if (zip.toString('utf8', offset + 46, offset + 46 + nameLength) === name) {
+      const method = zip.readUInt16LE(offset + 10);
+      const local = zip.readUInt32LE(offset + 42);
+      const start = local + 30 + zip.readUInt16LE(local + 26) + zip.readUInt16LE(local + 28);
+      const data = zip.subarray(start, start + zip.readUInt32LE(offset + 20));
+      if (method === 0) return data;
+      if (method === 8) return inflate(data, true);
+      throw new Error(`Unsupported ZIP compression method: ${method}`);
+    }
+    offset += 46 + nameLength + zip.readUInt16LE(offset + 30) + zip.readUInt16LE(offset + 32);
+  }
+  return undefined;
+}
+
+/**
+ * Extract the text of a DOCX document: the paragraphs of its body, without headers, footers and notes.
+ *
+ * @param buffer the content of the document.
+ * @returns the text.
+ * @throws an error if the buffer is not a DOCX document.
+ */
+async function extractDocxText(buffer: Buffer): Promise<string> {
+  const xml = (await readZipEntry(buffer, 'word/document.xml'))?.toString('utf8');
+  if (xml === undefined) throw new Error('The document is not a DOCX document.');
+  // The properties of the paragraphs define tab stops, which are not tabs of the text.
+  const body = xml.replace(/<w:pPr>[\s\S]*?<\/w:pPr>/g, '');
+  let text = '';
+  for (const match of body.matchAll(/<w:t(?:\s[^>]*)?>([^<]*)<\/w:t>|<w:(tab|br|cr)\b[^>]*\/>|<\/w:p>/g)) {
+    if (match[1] !== undefined) text += decodeXmlEntities(match[1]);
+    else text += match[2] === 'tab' ? '\t' : '\n';
+  }
+  return text;
+}
+
+/**
+ * Decode the bytes of a PDF string: UTF-16 if it starts with a byte order mark, Latin-1 otherwise.
+ *
+ * @param bytes the bytes of the string.
+ * @returns the text.
+ */
+function decodePdfString(bytes: number[]): string {
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) return Buffer.from(bytes.slice(2)).swap16().toString('utf16le');
+  return Buffer.from(bytes).toString('latin1');
+}
+
+/**
+ * Extract the text shown by a PDF content stream, with its text operators.
+ *
+ * @param content the content stream, decoded.
+ * @returns the text.
+ */
+function extractPdfContentText(content: string): string {
+  let text = '';
+  let operands: PdfOperand[] = [];
+  let array: (number | string)[] | undefined;
+  const push = (operand: number | string) => array ? array.push(operand) : operands.push(operand);
+  let i = 0;
+  while (i < content.length) {
+    const char = content[i];
+    if (/\s/.test(char)) {
+      i++;
+    } else if (char === '%') {
+      // Comments run to the end of the line.
+      while (i < content.length && content[i] !== '\n' && content[i] !== '\r') i++;
+    } else if (char === '(') {
+      // Literal strings, with balanced parentheses and escape sequences.
+      const bytes: number[] = [];
+      let depth = 1;
+      i++;
+      while (i < content.length && depth > 0) {
+        const c = content[i++];
+        if (c === '\\') {
+          const escaped = content[i++];
+          const escapes: Record<string, number> = { n: 10, r: 13, t: 9, b: 8, f: 12 };
+          if (escapes[escaped] !== undefined) bytes.push(escapes[escaped]);
+          else if (/[0-7]/.test(escaped)) {
+            let octal = escaped;
+            while (octal.length < 3 && /[0-7]/.test(content[i])) octal += content[i++];
+            bytes.push(parseInt(octal, 8) & 0xff);
+          } else if (escaped === '\r' || escaped === '\n') {
+            if (escaped === '\r' && content[i] === '\n') i++;
+          } else bytes.push(escaped.charCodeAt(0));
+        } else {
+          if (c === '(') depth++;
+          if (c === ')') depth--;
+          if (depth > 0) bytes.push(c.charCodeAt(0));
+        }
+      }
+      push(decodePdfString(bytes));
+    } else if (char === '<' && content[i + 1] !== '<') {
+      // Hexadecimal strings.
+      const close = content.indexOf('>', i);
+      const hex = content.slice(i + 1, close < 0 ? content.length : close).replace(/[^0-9a-f]/gi, '');
+      push(decodePdfString((hex.length % 2 ? hex + '0' : hex).match(/../g)?.map(x => parseInt(x, 16)) ?? []));
+      i = close < 0 ? content.length : close + 1;
+    } else if (char === '[') {
+      array = [];
+      i++;
+    } else if (char === ']') {
+      if (array) operands.push(array);
+      array = undefined;
+      i++;
+    } else if (/[0-9+\-.]/.test(char)) {
+      NUMBER.lastIndex = i;
+      const number = NUMBER.exec(content)?.[0] ?? char;
+      push(Number(number) || 0);
+      i += number.length;
+    } else {
+      // Names, dictionaries and operators. Only the text operators matter.
+      TOKEN.lastIndex = i;
+      const token = TOKEN.exec(content)?.[0] ?? char;
+      i += token.length;
+      if (token[0] === '/' || token === '<<' || token === '>>') continue;
+      const last = operands[operands.length - 1];
+      if (token === 'Tj' && typeof last === 'string') text += last;
+      else if ((token === "'" || token === '"') && typeof last === 'string') text += '\n' + last;
+      else if (token === 'TJ' && Array.isArray(last)) text += last.map(x => typeof x === 'string' ? x : x < PDF_SPACE_KERNING ? ' ' : '').join('');
+      else if (token === 'T*' || token === 'ET' || ((token === 'Td' || token === 'TD') && operands[operands.length - 1] !== 0)) text += '\n';
+      else if (token === 'Td' || token === 'TD') text += ' ';
+      else if (token === 'ID') {
+        // Skip the data of inline images.
+        const end = content.slice(i).search(/\sEI(?=\s|$)/);
+        i = end < 0 ? content.length : i + end + 3;
+      }
+      operands = [];
+    }
+  }
+  return text;
+}
+
+/**
+ * Read the streams of a PDF document that are plain or Flate encoded: the content of the others cannot be read.
+ *
+ * @param buffer the content of the document.
+ * @param pdf the content of the document, as Latin-1 text.
+ * @param accept whether to read a stream, from its dictionary.
+ * @returns the decoded streams, as Latin-1 text.
+ */
+async function* readPdfStreams(buffer: Buffer, pdf: string, accept: (dictionary: string) => boolean): AsyncGenerator<string> {
+  for (const match of pdf.matchAll(/stream\r?\n/g)) {
+    // The dictionary of the stream tells how it is encoded.
+    const dictionary = pdf.slice(pdf.lastIndexOf('obj', match.index), match.index);
+    if (!dictionary.trimEnd().endsWith('>>') || /\/Filter\s*\[?\s*\/(?!FlateDecode\b)/.test(dictionary) || !accept(dictionary)) continue;
+    const start = match.index + match[0].length;
+    const end = pdf.indexOf('endstream', start);
+    if (end < 0) return;
+    let data = buffer.subarray(start, end);
+    if (dictionary.includes('/FlateDecode')) {
+      try {
+        data = await inflate(data, false);
+      } catch {
+        continue;
+      }
+    }
+    yield data.toString('latin1');
+  }
+}
+
+/**
+ * Check whether a PDF document has composite fonts (as the Identity-H fonts of Word, Google Docs or Chrome exports).
+ * Their strings are glyph ids, which only the character maps of the fonts turn into text.
+ *
+ * @param buffer the content of the document.
+ * @param pdf the content of the document, as Latin-1 text.
+ * @returns true if the document has composite fonts.
+ */
+async function hasCompositeFonts(buffer: Buffer, pdf: string): Promise<boolean> {
+  if (COMPOSITE_FONT.test(pdf)) return true;
+  // Fonts can also be defined in compressed object streams.
+  for await (const objects of readPdfStreams(buffer, pdf, x => /\/Type\s*\/ObjStm\b/.test(x))) {
+    if (COMPOSITE_FONT.test(objects)) return true;
+  }
+  return false;
+}
+
+/**
+ * Extract the text of a PDF document, from its content streams.
+ * Only the text drawn with standard encodings is found: scanned documents have no text to extract, and the text of
+ * documents with composite fonts is not extracted, as it would come out as junk.
+ * The streams after the first DOCUMENT_MAX_LENGTH characters of text are not read.
+ *
+ * @param buffer the content of the document.
+ * @returns the text.
+ * @throws an error if the buffer is not a PDF document.
+ */
+async function extractPdfText(buffer: Buffer): Promise<string> {
+  const pdf = buffer.toString('latin1');
+  if (!pdf.startsWith('%PDF-')) throw new Error('The document is not a PDF document.');
+  if (await hasCompositeFonts(buffer, pdf)) return '';
+  const texts: string[] = [];
+  let length = 0;
+  for await (const content of readPdfStreams(buffer, pdf, () => length < DOCUMENT_MAX_LENGTH)) {
+    // Fonts and images are streams too: only the content streams draw text.
+    if (/\bBT\b/.test(content) && /\bET\b/.test(content)) {
+      texts.push(extractPdfContentText(content));
+      length += texts[texts.length - 1].length;
+    }
+  }
+  return texts.join('\n');
+}
+
+/**
+ * Clean an extracted text: remove the control characters and the extra spaces and blank lines.
+ *
+ * @param text the text.
+ * @returns the cleaned text.
+ */
+function cleanText(text: string): string {
+  return text
+    .replace(/^\uFEFF/, '')
+    .replace(/\r\n?/g, '\n')
+    .replace(/[^\P{Cc}\n\t]/gu, '')
+    .split('\n')
+    .map(line => line.replace(/[ \t]+/g, ' ').trim())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+/**
+ * Extract the text of a document, cut to a maximum length.
+ *
+ * @param buffer the content of the document.
+ * @param kind the format of the document.
+ * @returns the text, empty if the document has none.
+ * @throws an error if the document is not valid for its format.
+ */
+export async function extractText(buffer: Buffer, kind: DocumentKind): Promise<string> {
+  const text = cleanText(kind === 'pdf' ? await extractPdfText(buffer) : kind === 'docx' ? await extractDocxText(buffer) : buffer.subarray(0, INFLATED_MAX_LENGTH).toString('utf8'));
+  return text.length > DOCUMENT_MAX_LENGTH ? text.slice(0, DOCUMENT_MAX_LENGTH).trimEnd() + ' […]' : text;
+}
@@ -0,0 +1,68 @@
+// Dependencies.
+import * as crypto from 'crypto';
+
+// Constants.
+const ALGORITHM = 'aes-256-gcm';
+const KEY_LENGTH = 32;
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+const PREFIX = 'enc:'; // Marks the encrypted values, so that they cannot be mistaken for plain text.
+
+/**
+ * Parse an encryption key from the environment.
+ *
+ * @param value the key, as 32 bytes encoded in base64 or hex, e.g. from `openssl rand -base64 32`.
+ * @param name the name of the environment variable, for the error message.
+ * @returns the key, or undefined if the value is empty.
+ * @throws an error if the value is not a valid key.
+ */
+export function parseKey(value: string | undefined, name = 'ENCRYPTION_KEY'): Buffer | undefined {
+  if (!value) return undefined;
+  const hex = /^[0-9a-f]{64}$/i.test(value);
+  const key = Buffer.from(value, hex ? 'hex' : 'base64');
+  // Node ignores invalid base64 characters: the key must encode back to the same value.
+  if (key.length !== KEY_LENGTH || (!hex && key.toString('base64') !== value)) {
+    throw new Error(`${name} must be ${KEY_LENGTH} bytes encoded in base64 or hex, e.g. generated with "openssl rand -base64 32".`);
+  }
+  return key;
+}
+
+/**
+ * Get the key used to encrypt the stored messages.
+ *
+ * @returns the key from ENCRYPTION_KEY, or undefined if the messages are stored in plain text.
+ * @throws an error if the key is not valid.
+ */
+export function getKey(): Buffer | undefined {
+  return parseKey(process.env.ENCRYPTION_KEY);
+}
+
+/**
+ * Encrypt a text with AES-256-GCM, with a random IV.
+ *
+ * @param text the text.
+ * @param key the key.
+ * @returns the encrypted text: the prefix, then the IV, the authentication tag and the ciphertext in base64.
+ */
+export function encrypt(text: string, key: Buffer): string {
+  const iv = crypto.randomBytes(IV_LENGTH);
+  const cipher = crypto.createCipheriv(ALGORITHM, key, iv);
+  const ciphertext = Buffer.concat([cipher.update(text, 'utf8'), cipher.final()]);
+  return PREFIX + Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString('base64');
+}
+
+/**
+ * Decrypt a text encrypted by encrypt.
+ *
+ * @param value the encrypted text.
+ * @param key the key.
+ * @returns the text.
+ * @throws an error if the value is not encrypted, the key is wrong or the value has been tampered with.
+ */
+export function decrypt(value: string, key: Buffer): string {
+  if (!value.startsWith(PREFIX)) throw new Error('The value is not encrypted.');
+  const data = Buffer.from(value.slice(PREFIX.length), 'base64');
+  const decipher = crypto.createDecipheriv(ALGORITHM, key, data.subarray(0, IV_LENGTH));
+  decipher.setAuthTag(data.subarray(IV_LENGTH, IV_LENGTH + TAG_LENGTH));
+  return Buffer.concat([decipher.update(data.subarray(IV_LENGTH + TAG_LENGTH)), decipher.final()]).toString('utf8');
+}
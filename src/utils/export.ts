@@ -0,0 +1,104 @@
+// Dependencies.
+import * as dataUtils from './data';
+import * as rangeUtils from './range';
+
+/**
+ * The formats of an export.
+ */
+export type ExportFormat = 'json' | 'markdown' | 'csv';
+
+// The formats by the name given by the user, with the extension of the exported file.
+const FORMATS: Record<string, { format: ExportFormat, extension: string }> = {
+  'json': { format: 'json', extension: 'json' },
+  'markdown': { format: 'markdown', extension: 'md' },
+  'md': { format: 'markdown', extension: 'md' },
+  'csv': { format: 'csv', extension: 'csv' },
+};
+
+/**
+ * Parse the arguments of the /export command.
+ *
+ * @param args a range of the history (as for /summary) and a format, in any order, e.g. `7d csv`.
+ * @param now the current time, in milliseconds.
+ * @param timezone the IANA time zone of the range, or undefined for the time zone of the server.
+ * @returns the range of the history, the whole history if none is given, and the format, JSON if none is given.
+ * @throws an error with a user-facing explanation if the arguments are not valid.
+ */
+export function parseExportArgs(args: string, now = Date.now(), timezone?: string): { range: dataUtils.HistoryRange, format: ExportFormat, extension: string } {
+  const words = args.trim().split(/\s+/).filter(x => x);
+  const formats = words.filter(x => FORMATS[x.toLowerCase()]);
+  if (formats.length > 1) throw new Error('Choose a single format: json, markdown or csv.');
+  const { format, extension } = FORMATS[formats[0]?.toLowerCase() ?? 'json'];
+  const range = rangeUtils.parseHistoryRange(words.filter(x => !FORMATS[x.toLowerCase()]).join(' '), now, timezone);
+  return { range: range ?? { since: 0 }, format, extension };
+}
+
+/**
+ * Quote a value for CSV, if needed.
+ * Values that spreadsheets would run as formulas (such as "@bob" or "=1+1") are prefixed with a quote.
+ *
+ * @param value the value.
+ * @returns the CSV field.
+ */
+function toCsvField(value: string): string {
+  const text = /^[=+\-@\t\r]/.test(value) ? "'" + value : value;
+  return /[",\r\n]/.test(text) ? '"' + text.replace(/"/g, '""') + '"' : text;
+}
+
+/**
+ * Render the messages and summaries of a chat in an export format.
+ *
+ * @param chatId the id of the chat.
+ * @param messages the messages, in chronological order.
+ * @param summaries the summaries covering the messages, in chronological order.
+ * @param format the format of the export.
+ * @returns the content of the exported file.
+ */
+export function renderExport(chatId: string, messages: dataUtils.StoredMessage[], summaries: dataUtils.StoredSummary[], format: ExportFormat): string {
+  const date = (time: number) => new Date(time).toISOString();
+
+  if (format === 'json') {
+    return JSON.stringify({
+      chatId,
+      messages: messages.map(x => ({ id: x.id, author: x.author, timestamp: date(x.createdAt), text: x.message, replyTo: x.replyTo ?? null })),
+      summaries: summaries.map(x => ({ id: x.id, timestamp: date(x.createdAt), firstMessageId: x.firstMessageId, lastMessageId: x.lastMessageId, summary: x.summary })),
+    }, null, 2);
+  }
+
+  if (format === 'csv') {
+    // Summaries are rows of their own, so that the file stays a single table.
+    return [
+      'type,id,timestamp,author,text',
+      ...messages.map(x => ['message', String(x.id), date(x.createdAt), x.author, x.message].map(toCsvField).join(',')),
+      ...summaries.map(x => ['summary', String(x.id), date(x.createdAt), '', x.summary].map(toCsvField).join(',')),
+    ].join('\r\n') + '\r\n';
+  }
+
+  return [
+    `# Chat ${chatId}`,
+    '',
+    '## Messages',
+    '',
+    ...messages.map(x => `- **${x.author}** (${date(x.createdAt)})${x.replyTo ? ` replying to ${x.replyTo}` : ''}: ${x.message.replace(/\n/g, '\n  ')}`),
+    ...(summaries.length > 0 ? [
+      '',
+      '## Summaries',
+      ...summaries.flatMap(x => ['', `### ${date(x.createdAt)}`, '', x.summary]),
+    ] : []),
+  ].join('\n') + '\n';
+}
+
+/**
+ * Export the stored messages of a chat, with the summaries that cover them.
+ *
+ * @param chatId the id of the chat.
+ * @param range the portion of the history to export.
+ * @param format the format of the export.
+ * @returns the content of the exported file, or undefined if there are no messages in the range.
+ */
+export function exportHistory(chatId: string, range: dataUtils.HistoryRange, format: ExportFormat): string | undefined {
+  const messages = dataUtils.getStoredHistory(chatId, range);
+  if (messages.length === 0) return undefined;
+  const summaries = dataUtils.getSummaries(chatId, messages[0].id, messages[messages.length - 1].id);
+  return renderExport(chatId, messages, summaries, format);
+}
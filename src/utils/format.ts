@@ -0,0 +1,109 @@
+/**
+ * A summary organized by topics, decisions, action items and open questions.
+ */
+export interface StructuredSummary {
+  topics: string[];
+  decisions: string[];
+  actionItems: { task: string, owner: string | undefined }[];
+  openQuestions: string[];
+}
+
+/**
+ * Escape a text to be sent with the Telegram HTML parse mode.
+ *
+ * @param text the text to escape.
+ * @returns the escaped text.
+ */
+export function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+/**
+ * Check if a value is a list of non-empty strings.
+ *
+ * @param value the value to check.
+ * @returns true if the value is a list of strings.
+ */
+function isStringList(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(x => typeof x === 'string' && x.trim() !== '');
+}
+
+/**
+ * Parse and validate a structured summary generated by the AI as JSON.
+ * The JSON may be wrapped in other text (e.g. a Markdown code block).
+ *
+ * @param content the content generated by the AI.
+ * @returns the structured summary, or undefined if the content is not a valid one.
+ */
+export function parseStructuredSummary(content: string): StructuredSummary | undefined {
+  const start = content.indexOf('{');
+  const end = content.lastIndexOf('}');
+  if (start < 0 || end < start) return undefined;
+
+  let json: Record<string, unknown>;
+  try {
+    json = JSON.parse(content.slice(start, end + 1));
+  } catch {
+    return undefined;
+  }
+  if (!json || typeof json !== 'object' || Array.isArray(json)) return undefined;
+
+  // Missing sections are empty, but present ones must have the expected shape.
+  const { topics = [], decisions = [], action_items: actionItems = [], open_questions: openQuestions = [] } = json;
+  if (!isStringList(topics) || !isStringList(decisions) || !isStringList(openQuestions) || !Array.isArray(actionItems)) return undefined;
+  if (!actionItems.every(x => x && typeof x === 'object' && typeof x.task === 'string' && x.task.trim() !== '' && (x.owner === undefined || x.owner === null || typeof x.owner === 'string'))) return undefined;
+  // A summary without any content is not a summary.
+  if (topics.length + decisions.length + actionItems.length + openQuestions.length === 0) return undefined;
+
+  return {
+    topics: topics.map(x => x.trim()),
+    decisions: decisions.map(x => x.trim()),
+    actionItems: actionItems.map(x => ({ task: (x.task as string).trim(), owner: (x.owner as string | null)?.trim() || undefined })),
+    openQuestions: openQuestions.map(x => x.trim()),
+  };
+}
+
+/**
+ * Get the sections of a structured summary, skipping the empty ones.
+ *
+ * @param summary the structured summary.
+ * @returns the title and the items of each section.
+ */
+function getSections(summary: StructuredSummary): { title: string, items: { text: string, owner?: string }[] }[] {
+  return [
+    { title: 'Topics', items: summary.topics.map(text => ({ text })) },
+    { title: 'Decisions', items: summary.decisions.map(text => ({ text })) },
+    { title: 'Action items', items: summary.actionItems.map(x => ({ text: x.task, owner: x.owner })) },
+    { title: 'Open questions', items: summary.openQuestions.map(text => ({ text })) },
+  ].filter(x => x.items.length > 0);
+}
+
+/**
+ * Render a structured summary as Telegram HTML, with a heading and a bullet list for each section.
+ *
+ * @param summary the structured summary.
+ * @returns the HTML text.
+ */
+export function renderStructuredSummaryHtml(summary: StructuredSummary): string {
+  return getSections(summary)
+    .map(section => [
+      `<b>${escapeHtml(section.title)}</b>`,
+      ...section.items.map(x => `• ${escapeHtml(x.text)}${x.owner ? ` (<i>${escapeHtml(x.owner)}</i>)` : ''}`),
+    ].join('\n'))
+    .join('\n\n');
+}
+
+/**
+ * Render a structured summary as plain text, e.g. to store it.
+ *
+ * @param summary the structured summary.
+ * @returns the plain text.
+ */
+export function renderStructuredSummaryText(summary: StructuredSummary): string {
+  return getSections(summary)
+    .map(section => [
+      section.title + ':',
+      ...section.items.map(x => `- ${x.text}${x.owner ? ` (${x.owner})` : ''}`),
+    ].join('\n'))
+    .join('\n\n');
+}
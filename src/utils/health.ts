@@ -0,0 +1,113 @@
+// Dependencies.
+import * as dataUtils from './data';
+
+// Constants.
+const DEFAULT_POLLING_MAX_IDLE = 300; // Polling requests return at least every 30 seconds, even without updates.
+
+/**
+ * The result of a health or readiness check.
+ */
+export interface HealthStatus {
+  ok: boolean;
+  // How the bot receives the updates, or undefined if it has not started yet.
+  mode: 'polling' | 'webhook' | undefined;
+  // Whether the SQLite database can be queried.
+  database: boolean;
+  // The time of the last processed update, if any.
+  lastUpdate: string | null;
+  // The time of the last successful request for new updates, in polling mode.
+  lastPoll: string | null;
+}
+
+// The state of the bot, as seen by the health checks.
+let mode: HealthStatus['mode'] = undefined;
+let startedAt = Date.now();
+let lastUpdateAt: number | undefined = undefined;
+let lastPollAt: number | undefined = undefined;
+
+/**
+ * Mark the bot as started, ready to receive updates.
+ *
+ * @param value how the bot receives the updates, or undefined to reset the state (e.g. in tests).
+ * @param now the current time, in milliseconds.
+ */
+export function setMode(value: HealthStatus['mode'], now = Date.now()) {
+  mode = value;
+  startedAt = now;
+  lastUpdateAt = undefined;
+  lastPollAt = undefined;
+}
+
+/**
+ * Record that an update has been processed.
+ *
+ * @param now the current time, in milliseconds.
+ */
+export function recordUpdate(now = Date.now()) {
+  lastUpdateAt = now;
+}
+
+/**
+ * Record that Telegram has been asked for new updates, in polling mode.
+ *
+ * @param now the current time, in milliseconds.
+ */
+export function recordPoll(now = Date.now()) {
+  lastPollAt = now;
+}
+
+/**
+ * Get the maximum time the bot can go without activity before it is considered hung.
+ * In webhook mode, Telegram only calls the bot when there are updates, so there is no limit by default.
+ *
+ * @returns the maximum idle time, in milliseconds, or 0 for no limit.
+ */
+function getMaxIdle(): number {
+  const value = Number(process.env.HEALTH_MAX_IDLE);
+  if (process.env.HEALTH_MAX_IDLE && Number.isFinite(value) && value >= 0) return value * 1000;
+  return mode === 'polling' ? DEFAULT_POLLING_MAX_IDLE * 1000 : 0;
+}
+
+/**
+ * Get the status of the bot, without evaluating it.
+ *
+ * @returns the status of each part of the bot.
+ */
+function getStatus(): Omit<HealthStatus, 'ok'> {
+  let database = true;
+  try {
+    dataUtils.checkDatabase();
+  } catch {
+    database = false;
+  }
+  return {
+    mode,
+    database,
+    lastUpdate: lastUpdateAt !== undefined ? new Date(lastUpdateAt).toISOString() : null,
+    lastPoll: lastPollAt !== undefined ? new Date(lastPollAt).toISOString() : null,
+  };
+}
+
+/**
+ * Check if the bot is healthy: the database can be queried and the bot is not hung.
+ * The bot is hung if it has neither processed an update nor polled for updates for too long.
+ *
+ * @param now the current time, in milliseconds.
+ * @returns the health status.
+ */
+export function checkHealth(now = Date.now()): HealthStatus {
+  const status = getStatus();
+  const maxIdle = getMaxIdle();
+  const lastActivity = Math.max(startedAt, lastUpdateAt ?? 0, lastPollAt ?? 0);
+  return { ...status, ok: status.database && (maxIdle === 0 || now - lastActivity <= maxIdle) };
+}
+
+/**
+ * Check if the bot is ready to receive updates: it has started and the database can be queried.
+ *
+ * @returns the readiness status.
+ */
+export function checkReadiness(): HealthStatus {
+  const status = getStatus();
+  return { ...status, ok: status.database && mode !== undefined };
+}
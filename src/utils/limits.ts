@@ -0,0 +1,104 @@
+// Dependencies.
+import * as dataUtils from './data';
+
+// Constants.
+const QUOTA_WINDOW_MS = 1000 * 60 * 60 * 24; // The daily quota covers the last 24 hours.
+
+/**
+ * The actions that call the LLM on behalf of a user, subject to rate limits.
+ */
+export type LimitedAction = 'summary' | 'ask' | 'tldr';
+
+/**
+ * A rate limit reached by a user.
+ */
+export interface RateLimit {
+  // Which limit has been reached.
+  reason: 'user' | 'chat' | 'quota';
+  // The time when the action is allowed again, in milliseconds.
+  retryAt: number;
+  // The daily quota of the chat, when it is the reached limit.
+  quota?: number;
+}
+
+/**
+ * Read a non-negative number from the environment.
+ *
+ * @param name the name of the environment variable.
+ * @param fallback the value to use if the variable is not set or not valid.
+ * @returns the value.
+ */
+function getEnvNumber(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return process.env[name] && Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+/**
+ * Get the configured rate limits.
+ *
+ * @returns the cooldowns, in milliseconds, and the daily quota of each chat (0 for no quota).
+ */
+function getLimits() {
+  return {
+    userCooldown: getEnvNumber('RATE_LIMIT_USER_COOLDOWN', 120) * 1000,
+    chatCooldown: getEnvNumber('RATE_LIMIT_CHAT_COOLDOWN', 30) * 1000,
+    dailyQuota: getEnvNumber('RATE_LIMIT_DAILY_QUOTA', 0),
+  };
+}
+
+/**
+ * Check if a user can do an action in a chat, given its recent uses of the bot.
+ * Each action has a cooldown per user and per chat; all actions share the daily quota of the chat.
+ *
+ * @param chatId the id of the chat.
+ * @param userId the id of the user.
+ * @param action the action the user wants to do.
+ * @param now the current time, in milliseconds.
+ * @returns the reached limit, or undefined if the action is allowed.
+ */
+export function checkRateLimit(chatId: string, userId: string, action: LimitedAction, now = Date.now()): RateLimit | undefined {
+  const { userCooldown, chatCooldown, dailyQuota } = getLimits();
+  const usage = dataUtils.getUsage(chatId, now - Math.max(userCooldown, chatCooldown, dailyQuota > 0 ? QUOTA_WINDOW_MS : 0));
+
+  // The quota is reached when there are as many uses in the window: the oldest one has to expire first.
+  const daily = usage.filter(x => x.createdAt > now - QUOTA_WINDOW_MS);
+  if (dailyQuota > 0 && daily.length >= dailyQuota) {
+    return { reason: 'quota', retryAt: daily[daily.length - dailyQuota].createdAt + QUOTA_WINDOW_MS, quota: dailyQuota };
+  }
+
+  // The cooldowns start from the last use of the same action.
+  const lastByUser = usage.filter(x => x.action === action && x.userId === userId).pop();
+  if (lastByUser && lastByUser.createdAt + userCooldown > now) return { reason: 'user', retryAt: lastByUser.createdAt + userCooldown };
+  const lastInChat = usage.filter(x => x.action === action).pop();
+  if (lastInChat && lastInChat.createdAt + chatCooldown > now) return { reason: 'chat', retryAt: lastInChat.createdAt + chatCooldown };
+
+  return undefined;
+}
+
+/**
+ * Format a duration for the users, e.g. "2 hours and 5 minutes".
+ *
+ * @param ms the duration, in milliseconds.
+ * @returns the formatted duration, rounded up to the second or minute.
+ */
+function formatDuration(ms: number): string {
+  const plural = (count: number, unit: string) => `${count} ${unit}${count === 1 ? '' : 's'}`;
+  if (ms < 60 * 1000) return plural(Math.max(1, Math.ceil(ms / 1000)), 'second');
+  const minutes = Math.ceil(ms / (60 * 1000));
+  if (minutes < 60) return plural(minutes, 'minute');
+  return plural(Math.floor(minutes / 60), 'hour') + (minutes % 60 ? ' and ' + plural(minutes % 60, 'minute') : '');
+}
+
+/**
+ * Explain a reached rate limit to the user.
+ *
+ * @param limit the reached limit.
+ * @param now the current time, in milliseconds.
+ * @returns the explanation, with when the user can try again.
+ */
+export function formatRateLimit(limit: RateLimit, now = Date.now()): string {
+  const retry = `Try again in ${formatDuration(limit.retryAt - now)}.`;
+  if (limit.reason === 'quota') return `This chat has reached its limit of ${limit.quota} AI requests per day. ${retry}`;
+  if (limit.reason === 'chat') return `The bot has just answered the same request in this chat. ${retry}`;
+  return `You have just made the same request. ${retry}`;
+}
@@ -0,0 +1,104 @@
+// Constants.
+const DEFAULT_CONTEXT_BUDGET = 8000; // Conservative fallback, fits the default context of small local models.
+const DEFAULT_CONTEXT_BUDGETS: Record<string, number> = {
+  'openai': 200000,
+  'cloudflare': 20000,
+  'ollama': 8000,
+  'llama.cpp': 8000,
+};
+const CONTEXT_BUDGET_ENV_VARS: Record<string, string> = {
+  'openai': 'OPENAI_CONTEXT_BUDGET',
+  'cloudflare': 'CLOUDFLARE_CONTEXT_BUDGET',
+  'ollama': 'OLLAMA_CONTEXT_BUDGET',
+  'llama.cpp': 'LLAMA_CPP_CONTEXT_BUDGET',
+};
+
+/**
+ * Get the LLM provider that will be used to generate responses.
+ * Mirrors the provider selection of llm-proxy: LLM_PROVIDER if set, otherwise
+ * auto-detection based on the configured credentials.
+ *
+ * @returns the provider name, or undefined if no provider is configured.
+ */
+export function getLLMProvider(): string | undefined {
+  const provider = (process.env.LLM_PROVIDER || process.env.PROVIDER)?.toLowerCase();
+  if (provider) return provider;
+
+  if (process.env.OPENAI_API_KEY) return 'openai';
+  if (process.env.CLOUDFLARE_ACCOUNT_ID && process.env.CLOUDFLARE_AUTH_KEY && process.env.CLOUDFLARE_MODEL) return 'cloudflare';
+  if (process.env.OLLAMA_URI) return 'ollama';
+  if (process.env.LLAMA_CPP_MODEL_PATH) return 'llama.cpp';
+  return undefined;
+}
+
+/**
+ * Get the maximum number of characters of text to send to the LLM in a single request.
+ * The provider-specific variable (e.g. OLLAMA_CONTEXT_BUDGET) takes precedence over
+ * LLM_CONTEXT_BUDGET, which takes precedence over the provider default.
+ *
+ * @returns the context budget, in characters.
+ */
+export function getContextBudget(): number {
+  const provider = getLLMProvider();
+  const providerEnvVar = provider ? CONTEXT_BUDGET_ENV_VARS[provider] : undefined;
+
+  for (const value of [providerEnvVar ? process.env[providerEnvVar] : undefined, process.env.LLM_CONTEXT_BUDGET]) {
+    const budget = Number(value);
+    if (value && Number.isFinite(budget) && budget > 0) return budget;
+  }
+  return (provider && DEFAULT_CONTEXT_BUDGETS[provider]) || DEFAULT_CONTEXT_BUDGET;
+}
+
+/**
+ * Split texts into chunks whose total length fits in the given budget.
+ * The order of the texts is preserved. A text longer than the budget is cut into pieces.
+ *
+ * @param texts the texts to split.
+ * @param budget the maximum number of characters of each chunk.
+ * @returns the chunks of texts.
+ */
+export function splitIntoChunks(texts: string[], budget: number): string[][] {
+  const chunks: string[][] = [];
+  let chunk: string[] = [];
+  let chunkLength = 0;
+
+  for (const text of texts) {
+    for (let start = 0; start < text.length || start === 0; start += budget) {
+      const piece = text.slice(start, start + budget);
+      // Start a new chunk when the piece does not fit in the current one.
+      if (chunk.length > 0 && chunkLength + piece.length > budget) {
+        chunks.push(chunk);
+        chunk = [];
+        chunkLength = 0;
+      }
+      chunk.push(piece);
+      chunkLength += piece.length;
+    }
+  }
+  if (chunk.length > 0) chunks.push(chunk);
+
+  return chunks;
+}
+
+/**
+ * Cut texts so that their total length fits in the given budget, cutting the longest ones first.
+ * The shortest texts are kept whole, and the others share the rest of the budget equally.
+ *
+ * @param texts the texts to fit.
+ * @param budget the maximum number of characters of all the texts together.
+ * @returns the texts, in the same order, with the cut ones ending with " […]".
+ */
+export function fitIntoBudget(texts: string[], budget: number): string[] {
+  let rest = budget;
+  let maxLength = Infinity;
+  const lengths = texts.map(x => x.length).sort((a, b) => a - b);
+  for (const [i, length] of lengths.entries()) {
+    const share = Math.floor(rest / (lengths.length - i));
+    if (length > share) {
+      maxLength = share;
+      break;
+    }
+    rest -= length;
+  }
+  return texts.map(x => x.length > maxLength ? x.slice(0, Math.max(0, maxLength - 4)) + ' […]' : x);
+}
@@ -0,0 +1,9 @@
+/**
+ * Log an error that no user is told about, e.g. of a background job or of the bot itself.
+ *
+ * @param message what failed.
+ * @param error the error.
+ */
+export function logError(message: string, error: unknown) {
+  console.error(`${new Date().toISOString()} ${message}:`, error);
+}
@@ -0,0 +1,44 @@
+// Dependencies.
+import { execFile } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { promisify } from 'util';
+
+// Constants.
+const DEFAULT_CHUNK_DURATION = 300; // Five minutes of 16 kHz mono audio fit in the requests of the STT providers.
+
+/**
+ * Get the maximum duration of the audio sent to the STT provider in a single request, from STT_CHUNK_DURATION.
+ *
+ * @returns the duration, in seconds.
+ */
+export function getChunkDuration(): number {
+  const value = Number(process.env.STT_CHUNK_DURATION);
+  return process.env.STT_CHUNK_DURATION && Number.isInteger(value) && value > 0 ? value : DEFAULT_CHUNK_DURATION;
+}
+
+/**
+ * Extract the audio of an audio or video file with ffmpeg, split into chunks.
+ *
+ * @param media the content of the file.
+ * @param chunkDuration the maximum duration of each chunk, in seconds.
+ * @returns the chunks, as 16 kHz mono WAV files, in order.
+ * @throws an error if ffmpeg is not available or the file has no audio.
+ */
+export async function extractAudioChunks(media: Buffer, chunkDuration = getChunkDuration()): Promise<Buffer[]> {
+  const dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'summarygram-media-'));
+  try {
+    const input = path.join(dir, 'input');
+    await fs.promises.writeFile(input, media);
+    await promisify(execFile)('ffmpeg', [
+      '-y', '-loglevel', 'error', '-i', input,
+      '-vn', '-ac', '1', '-ar', '16000', '-c:a', 'pcm_s16le',
+      '-f', 'segment', '-segment_time', String(chunkDuration), path.join(dir, 'chunk_%04d.wav'),
+    ]);
+    const chunks = (await fs.promises.readdir(dir)).filter(file => file.startsWith('chunk_')).sort();
+    return await Promise.all(chunks.map(file => fs.promises.readFile(path.join(dir, file))));
+  } finally {
+    await fs.promises.rm(dir, { recursive: true, force: true });
+  }
+}
@@ -0,0 +1,187 @@
+// Dependencies.
+import { Api, InlineKeyboard, InputFile } from "grammy";
+
+// Constants.
+export const MESSAGE_MAX_LENGTH = 4096; // The maximum length of the text of a Telegram message.
+const MESSAGE_MAX_PARTS = 4; // Longer texts are sent as a document instead of a flood of messages.
+
+/**
+ * The options of an outgoing message.
+ */
+export interface MessageOptions {
+  // The Telegram id of the message to reply to, if any.
+  replyTo?: number;
+  // Whether the text uses the Telegram HTML parse mode.
+  html?: boolean;
+  // The name of the document sent when the text is too long for messages.
+  filename?: string;
+  // The inline keyboard shown under the last part of the text. Documents have no keyboard.
+  keyboard?: InlineKeyboard;
+}
+
+/**
+ * Where outgoing messages are sent: a chat, or a forum topic of a chat.
+ */
+export interface MessageTarget {
+  sendMessage: (text: string, other?: { parse_mode?: 'HTML', reply_to_message_id?: number, reply_markup?: InlineKeyboard }) => Promise<{ message_id: number } | undefined>;
+  sendDocument: (document: InputFile, other?: { reply_to_message_id?: number }) => Promise<unknown>;
+}
+
+/**
+ * Get the target to send messages to a chat.
+ *
+ * @param api the Telegram API of the bot.
+ * @param chatId the id of the chat.
+ * @param threadId the Telegram id of the forum topic to send the messages to, if any.
+ * @returns the target.
+ */
+export function toChat(api: Api, chatId: string, threadId?: number): MessageTarget {
+  if (threadId) {
+    return {
+      sendMessage: (text, other) => api.sendMessage(chatId, text, { ...other, message_thread_id: threadId }),
+      sendDocument: (document, other) => api.sendDocument(chatId, document, { ...other, message_thread_id: threadId }),
+    };
+  }
+  return {
+    sendMessage: (...args) => api.sendMessage(chatId, ...args),
+    sendDocument: (...args) => api.sendDocument(chatId, ...args),
+  };
+}
+
+/**
+ * Find where to cut a text that is too long, preferring paragraph, line, sentence and word boundaries.
+ *
+ * @param text the text to cut.
+ * @param maxLength the maximum length of the first part.
+ * @returns the length of the first part.
+ */
+function findCut(text: string, maxLength: number): number {
+  // Look one character past the limit, so that a boundary right after it counts.
+  const window = text.slice(0, maxLength + 1);
+  for (const separator of ['\n\n', '\n']) {
+    const index = window.lastIndexOf(separator);
+    if (index > 0) return index;
+  }
+  const sentences = [...window.slice(0, maxLength).matchAll(/[.!?…](?=\s)/g)];
+  if (sentences.length > 0) return sentences[sentences.length - 1].index + 1;
+  const index = window.lastIndexOf(' ');
+  if (index > 0) return index;
+  return maxLength;
+}
+
+/**
+ * Get the tags left open at the end of an HTML text.
+ *
+ * @param html the HTML text.
+ * @returns the opening tags, outermost first.
+ */
+function getOpenTags(html: string): string[] {
+  const open: { tag: string, name: string }[] = [];
+  for (const match of html.matchAll(/<(\/?)([a-z][\w-]*)[^>]*>/gi)) {
+    const name = match[2].toLowerCase();
+    if (!match[1]) {
+      open.push({ tag: match[0], name });
+    } else {
+      const index = open.map(x => x.name).lastIndexOf(name);
+      if (index >= 0) open.splice(index, 1);
+    }
+  }
+  return open.map(x => x.tag);
+}
+
+/**
+ * Get the closing tags of open HTML tags.
+ *
+ * @param open the opening tags, outermost first.
+ * @returns the closing tags, innermost first.
+ */
+function closeTags(open: string[]): string {
+  return open.map(x => `</${x.slice(1).match(/^[\w-]+/)?.[0]}>`).reverse().join('');
+}
+
+/**
+ * Find where to cut an HTML text that is too long, outside of its tags and character entities.
+ * The tags left open by the cut have to be closed in the first part, so its length leaves room for them.
+ *
+ * @param html the HTML text to cut.
+ * @param maxLength the maximum length of the first part, closing tags included.
+ * @returns the length of the first part, and the tags it leaves open.
+ */
+function findHtmlCut(html: string, maxLength: number): { cut: number, open: string[] } {
+  let limit = maxLength;
+  let cut = 0;
+  let open: string[] = [];
+  // Leaving room for the closing tags moves the cut, which may leave other tags open: a few passes are enough.
+  for (let pass = 0; pass < 3; pass++) {
+    const plain = findCut(html, limit);
+    cut = html.slice(0, plain).match(/<[^>]*$|&[#\w]*$/)?.index || plain;
+    open = getOpenTags(html.slice(0, cut));
+    const closing = closeTags(open).length;
+    if (html.slice(0, cut).trimEnd().length + closing <= maxLength) break;
+    limit = Math.max(1, maxLength - closing);
+  }
+  return { cut, open };
+}
+
+/**
+ * Split a text into parts that fit in Telegram messages.
+ * HTML texts are cut outside of their tags, and the tags left open by a cut are closed at the end of its part
+ * and opened again at the start of the next one, so that each part is valid on its own.
+ *
+ * @param text the text to split.
+ * @param maxLength the maximum length of each part.
+ * @param html whether the text uses the Telegram HTML parse mode.
+ * @returns the parts of the text, in order.
+ */
+export function splitMessage(text: string, maxLength = MESSAGE_MAX_LENGTH, html = false): string[] {
+  const parts: string[] = [];
+  let rest = text.trim();
+  while (rest.length > maxLength) {
+    const { cut, open } = html ? findHtmlCut(rest, maxLength) : { cut: findCut(rest, maxLength), open: [] };
+    parts.push(rest.slice(0, cut).trimEnd() + closeTags(open));
+    rest = open.join('') + rest.slice(cut).trimStart();
+  }
+  if (rest) parts.push(rest);
+  return parts;
+}
+
+/**
+ * Convert a Telegram HTML text to plain text.
+ *
+ * @param html the HTML text.
+ * @returns the plain text.
+ */
+function htmlToText(html: string): string {
+  return html.replace(/<[^>]*>/g, '').replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&quot;/g, '"').replace(/&amp;/g, '&');
+}
+
+/**
+ * Send a text of any length.
+ * Texts longer than a Telegram message are split on paragraph or sentence boundaries,
+ * each part replying to the same message; very long texts are sent as a .txt document.
+ *
+ * @param target where to send the text.
+ * @param text the text to send.
+ * @param options the options of the message.
+ * @returns the Telegram id of the last message sent, or undefined if the text was sent as a document.
+ */
+export async function sendText(target: MessageTarget, text: string, options: MessageOptions = {}): Promise<number | undefined> {
+  const replyTo = options.replyTo ? { reply_to_message_id: options.replyTo } : undefined;
+
+  // Send very long texts as a document.
+  const parts = splitMessage(text, MESSAGE_MAX_LENGTH, options.html);
+  if (parts.length > MESSAGE_MAX_PARTS) {
+    const document = new InputFile(Buffer.from(options.html ? htmlToText(text) : text), options.filename ?? 'message.txt');
+    await (replyTo ? target.sendDocument(document, replyTo) : target.sendDocument(document));
+    return undefined;
+  }
+
+  // Send each part as a message, with the keyboard under the last one.
+  const other = options.html ? { parse_mode: 'HTML' as const, ...replyTo } : replyTo;
+  let sent: { message_id: number } | undefined;
+  for (const [i, part] of parts.entries()) {
+    const keyboard = options.keyboard && i === parts.length - 1 ? { reply_markup: options.keyboard } : undefined;
+    sent = await (other || keyboard ? target.sendMessage(part, { ...other, ...keyboard }) : target.sendMessage(part));
+  }
+  return sent?.message_id;
+}
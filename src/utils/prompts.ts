@@ -0,0 +1,210 @@
+// Dependencies.
+import * as fs from 'fs';
+import * as path from 'path';
+import * as dataUtils from './data';
+
+// Constants.
+const DEFAULT_PRESET = 'standard';
+const TLDR_FILE = 'tldr'; // The file of PROMPTS_DIR overriding the TL;DR prompt, instead of adding a preset.
+
+/**
+ * A style of summaries that chats can choose with the /prompt command.
+ */
+interface Preset {
+  // Short description of the preset, shown to the users.
+  description: string;
+  // The template of the instructions for the AI.
+  template: string;
+}
+
+/**
+ * The values of the placeholders of the templates. Missing values are replaced by a generic wording.
+ */
+export interface PromptValues {
+  // The title of the chat, e.g. "Book club".
+  chatTitle?: string;
+  // The time of the first and last message to summarize, in milliseconds.
+  period?: { since: number, until: number };
+  // The language chosen by the chat.
+  language?: string;
+}
+
+// The built-in presets, by name.
+const PRESETS: Record<string, Preset> = {
+  standard: {
+    description: 'a concise summary of the conversation',
+    template: "You are an helpful assistant.\nYour only task is to summarize a lot of messages written by different authors.",
+  },
+  minutes: {
+    description: 'meeting minutes, with participants, topics, decisions and next steps',
+    template: "You are a meticulous secretary.\n" +
+      "Your only task is to write the minutes of the conversation of {{chat_title}}, {{date_range}}: " +
+      "the participants, the topics discussed in order, the decisions taken and the next steps with their owners.\n" +
+      "Be formal and factual.",
+  },
+  casual: {
+    description: 'a casual digest, like telling a friend what they missed',
+    template: "You are a friendly member of {{chat_title}}.\n" +
+      "Your only task is to tell a friend what they missed in the conversation: the highlights, the funny moments and anything they should reply to.\n" +
+      "Keep it light and brief.",
+  },
+  bullets: {
+    description: 'a short list of bullet points, one per topic',
+    template: "You are an helpful assistant.\n" +
+      "Your only task is to summarize a lot of messages written by different authors as a short list of bullet points, one per topic, each starting with \"- \".\n" +
+      "Do not add an introduction or a conclusion.",
+  },
+};
+
+// The built-in TL;DR prompt.
+const TLDR_TEMPLATE = "You are an helpful assistant.\n" +
+  "Your only task is to summarize a text.\n" +
+  "You will receive the text and you will have to return only a very short and concise summary of that text.";
+
+/**
+ * Read the templates of PROMPTS_DIR: each `<name>.txt` file is a preset, except `tldr.txt`, the TL;DR prompt.
+ *
+ * @returns the templates, by name.
+ * @throws an error if PROMPTS_DIR cannot be read.
+ */
+function readTemplateFiles(): Record<string, string> {
+  const dir = process.env.PROMPTS_DIR;
+  if (!dir) return {};
+  let files: string[];
+  try {
+    files = fs.readdirSync(dir);
+  } catch (error) {
+    throw new Error(`PROMPTS_DIR cannot be read: ${(error as Error).message}`);
+  }
+  return Object.fromEntries(files
+    .filter(file => /^[a-z0-9_-]+\.txt$/i.test(file))
+    .map(file => [path.basename(file, '.txt').toLowerCase(), fs.readFileSync(path.join(dir, file), 'utf8').trim()])
+    .filter(([, template]) => template));
+}
+
+/**
+ * Get the presets: the built-in ones and those of PROMPTS_DIR, which override the built-in ones with the same name.
+ *
+ * @returns the presets, by name.
+ */
+function getPresets(): Record<string, Preset> {
+  const files = readTemplateFiles();
+  delete files[TLDR_FILE];
+  return {
+    ...PRESETS,
+    ...Object.fromEntries(Object.entries(files).map(([name, template]) => [name, { description: PRESETS[name]?.description ?? 'custom preset', template }])),
+  };
+}
+
+/**
+ * Get the preset used by the chats that have not chosen one.
+ *
+ * @returns the name of the preset, from SUMMARY_PRESET.
+ * @throws an error if SUMMARY_PRESET is not a preset.
+ */
+export function getDefaultPreset(): string {
+  const name = (process.env.SUMMARY_PRESET || DEFAULT_PRESET).toLowerCase();
+  if (!getPresets()[name]) throw new Error(`SUMMARY_PRESET is not a preset: ${name}`);
+  return name;
+}
+
+/**
+ * Get the summary prompt of a chat.
+ *
+ * @param chatId the id of the chat.
+ * @returns the name of the preset (undefined for a custom prompt), whether it is the default one, and the template.
+ */
+export function getChatPrompt(chatId: string): { preset: string | undefined, isDefault: boolean, template: string } {
+  // The prompt is stored as "preset:<name>" or "custom:<template>".
+  const stored = dataUtils.getChatSettings(chatId).prompt;
+  if (stored?.startsWith('custom:')) return { preset: undefined, isDefault: false, template: stored.slice('custom:'.length) };
+  const presets = getPresets();
+  const chosen = stored?.startsWith('preset:') ? stored.slice('preset:'.length) : undefined;
+  // A preset whose file has been removed falls back to the default one.
+  const preset = chosen && presets[chosen] ? chosen : getDefaultPreset();
+  return { preset, isDefault: preset !== chosen, template: presets[preset].template };
+}
+
+/**
+ * Update the summary prompt of a chat from the arguments of the /prompt command:
+ * the name of a preset, `custom` followed by the instructions, or `default` to use the default preset.
+ *
+ * @param chatId the id of the chat.
+ * @param args the arguments of the command, e.g. `minutes`.
+ * @throws an error with a user-facing explanation if the arguments are not valid.
+ */
+export function setChatPrompt(chatId: string, args: string) {
+  const [word, ...rest] = args.trim().split(/\s+/);
+  const name = word.toLowerCase();
+  if (name === 'default') {
+    dataUtils.setChatSetting(chatId, 'prompt', null);
+  } else if (name === 'custom') {
+    // Keep the line breaks of the instructions.
+    const template = args.trim().slice(word.length).trim();
+    if (!rest.length || !template) throw new Error('Write the instructions for the AI after "custom", e.g. "/prompt custom Summarize as a haiku."');
+    dataUtils.setChatSetting(chatId, 'prompt', 'custom:' + template);
+  } else if (getPresets()[name]) {
+    if (rest.length) throw new Error(`The preset "${name}" has no options. Use "/prompt custom" followed by your own instructions.`);
+    dataUtils.setChatSetting(chatId, 'prompt', 'preset:' + name);
+  } else {
+    throw new Error(`Unknown preset "${word}". Available presets: ${Object.keys(getPresets()).join(', ')}.`);
+  }
+}
+
+/**
+ * Describe the summary prompt of a chat and the available presets.
+ *
+ * @param chatId the id of the chat.
+ * @returns a human readable description.
+ */
+export function formatChatPrompt(chatId: string): string {
+  const { preset, isDefault, template } = getChatPrompt(chatId);
+  return [
+    `Prompt of this chat: ${preset ?? 'custom'}${isDefault ? ' (default)' : ''}`,
+    '',
+    template,
+    '',
+    'Presets:',
+    ...Object.entries(getPresets()).map(([name, x]) => `${name} - ${x.description}`),
+    '',
+    'Change it with /prompt <preset>, /prompt custom <instructions> or /prompt default.',
+    'Instructions can use the placeholders {{chat_title}}, {{date_range}} and {{language}}.',
+  ].join('\n');
+}
+
+/**
+ * Get the TL;DR prompt.
+ *
+ * @returns the template, from `tldr.txt` in PROMPTS_DIR or the built-in one.
+ */
+export function getTldrTemplate(): string {
+  return readTemplateFiles()[TLDR_FILE] ?? TLDR_TEMPLATE;
+}
+
+/**
+ * Check if a template uses a placeholder, e.g. to only look up the values it needs.
+ *
+ * @param template the template.
+ * @param placeholder the name of the placeholder, e.g. "chat_title".
+ * @returns true if the template contains the placeholder.
+ */
+export function usesPlaceholder(template: string, placeholder: 'chat_title' | 'date_range' | 'language'): boolean {
+  return template.includes(`{{${placeholder}}}`);
+}
+
+/**
+ * Replace the placeholders of a template: {{chat_title}}, {{date_range}} and {{language}}.
+ *
+ * @param template the template.
+ * @param values the values of the placeholders.
+ * @returns the instructions for the AI.
+ */
+export function renderPrompt(template: string, values: PromptValues): string {
+  const format = (time: number) => new Date(time).toISOString().slice(0, 16).replace('T', ' ');
+  const replacements: Record<string, string> = {
+    chat_title: values.chatTitle ?? 'this chat',
+    date_range: values.period ? `from ${format(values.period.since)} to ${format(values.period.until)} (UTC)` : 'in the requested period',
+    language: values.language ?? 'the language of the messages',
+  };
+  return template.replace(/\{\{(\w+)\}\}/g, (placeholder, name: string) => replacements[name] ?? placeholder);
+}
@@ -0,0 +1,132 @@
+// Dependencies.
+import * as dataUtils from './data';
+import * as logUtils from './log';
+
+// Constants.
+const DEFAULT_CONCURRENCY = 2; // Jobs call the LLM or STT provider, which may be a small local server.
+const DEFAULT_MAX_ATTEMPTS = 4;
+const BACKOFF_BASE_MS = 1000 * 10; // Retries wait 10 seconds, then 20, 40... up to the maximum backoff.
+const BACKOFF_MAX_MS = 1000 * 60 * 10;
+
+/**
+ * How to run the jobs of a type, given the parameters of the jobs.
+ * The handlers are methods so that the handlers of any job type fit in the same registry.
+ */
+export interface JobHandler<T = unknown> {
+  // Run a job. The job is retried if it throws.
+  run(payload: T): Promise<unknown>;
+  // Called when the job has failed for the last time, e.g. to tell the users.
+  onFailure?(payload: T, error: unknown): Promise<unknown>;
+}
+
+// The handlers by job type, set while the queue is running.
+let handlers: Record<string, JobHandler> | null = null;
+// The number of jobs currently running.
+let running = 0;
+// The timer to run the next job that is not due yet.
+let timer: NodeJS.Timeout | null = null;
+
+/**
+ * Read a positive integer from the environment.
+ *
+ * @param name the name of the environment variable.
+ * @param fallback the value to use if the variable is not set or not valid.
+ * @returns the value.
+ */
+function getEnvInteger(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return process.env[name] && Number.isInteger(value) && value > 0 ? value : fallback;
+}
+
+/**
+ * Get the delay before retrying a job, doubling at each failed attempt.
+ *
+ * @param attempts the number of failed attempts.
+ * @returns the delay, in milliseconds.
+ */
+export function getBackoff(attempts: number): number {
+  return Math.min(BACKOFF_BASE_MS * 2 ** (attempts - 1), BACKOFF_MAX_MS);
+}
+
+/**
+ * Run a claimed job, then delete it, retry it later or give up on it.
+ *
+ * @param job the job.
+ */
+async function runJob(job: dataUtils.StoredJob) {
+  const handler = handlers?.[job.type];
+  let payload: unknown;
+  try {
+    if (!handler) throw new Error(`Unknown job type "${job.type}".`);
+    payload = JSON.parse(job.payload);
+    await handler.run(payload);
+    dataUtils.deleteJob(job.id);
+  } catch (error) {
+    // Retry the job with backoff, unless it cannot be run at all or has no attempts left.
+    const attempts = job.attempts + 1;
+    if (handler && payload !== undefined && attempts < getEnvInteger('QUEUE_MAX_ATTEMPTS', DEFAULT_MAX_ATTEMPTS)) {
+      dataUtils.retryJob(job.id, Date.now() + getBackoff(attempts), String(error));
+      return;
+    }
+    dataUtils.deleteJob(job.id);
+    logUtils.logError(`Job ${job.id} (${job.type}) failed after ${attempts} attempts`, error);
+    if (payload !== undefined) await handler?.onFailure?.(payload, error).catch(() => {});
+  }
+}
+
+/**
+ * Run the due jobs, up to the concurrency limit, and wait for the next one.
+ */
+function processJobs() {
+  if (timer) clearTimeout(timer);
+  timer = null;
+  if (!handlers) return;
+
+  // Claim as many due jobs as there are free slots. Each finished job frees its slot and looks for more.
+  const concurrency = getEnvInteger('QUEUE_CONCURRENCY', DEFAULT_CONCURRENCY);
+  if (running >= concurrency) return;
+  for (const job of dataUtils.claimJobs(Date.now(), concurrency - running)) {
+    running++;
+    runJob(job).finally(() => {
+      running--;
+      processJobs();
+    });
+  }
+
+  // Wake up when the next job is due, if a slot is still free.
+  const next = dataUtils.getNextJobTime();
+  if (next !== undefined && running < concurrency) timer = setTimeout(processJobs, Math.max(0, next - Date.now()));
+}
+
+/**
+ * Add a job to the queue. It is stored, so it runs even if the bot restarts before.
+ *
+ * @param type the type of the job.
+ * @param payload the parameters of the job, serializable as JSON.
+ * @returns the id of the job.
+ */
+export function enqueueJob(type: string, payload: unknown): number {
+  const id = dataUtils.addJob(type, JSON.stringify(payload), Date.now());
+  processJobs();
+  return id;
+}
+
+/**
+ * Start running the jobs of the queue, including the ones interrupted by a restart.
+ *
+ * @param jobHandlers the handlers by job type.
+ */
+export function startQueue(jobHandlers: Record<string, JobHandler>) {
+  handlers = jobHandlers;
+  dataUtils.releaseJobs();
+  processJobs();
+}
+
+/**
+ * Stop running new jobs. The running ones are left to finish.
+ */
+export function stopQueue() {
+  handlers = null;
+  if (timer) clearTimeout(timer);
+  timer = null;
+}
@@ -0,0 +1,93 @@
+// Dependencies.
+import { HistoryRange } from './data';
+
+// Constants.
+const DURATION_UNITS_MS: Record<string, number> = {
+  m: 1000 * 60,
+  h: 1000 * 60 * 60,
+  d: 1000 * 60 * 60 * 24,
+  w: 1000 * 60 * 60 * 24 * 7,
+};
+
+/**
+ * Get the offset from UTC of a time zone, at a given time.
+ *
+ * @param time the time, in milliseconds.
+ * @param timezone the IANA time zone, or undefined for the time zone of the server.
+ * @returns the offset, in milliseconds.
+ */
+function getTimezoneOffset(time: number, timezone: string | undefined): number {
+  if (!timezone) return -new Date(time).getTimezoneOffset() * DURATION_UNITS_MS.m;
+  const format = new Intl.DateTimeFormat('en-US', { timeZone: timezone, hourCycle: 'h23', year: 'numeric', month: 'numeric', day: 'numeric', hour: 'numeric', minute: 'numeric', second: 'numeric' });
+  const parts = Object.fromEntries(format.formatToParts(time).map(part => [part.type, Number(part.value)]));
+  return Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second) - Math.floor(time / 1000) * 1000;
+}
+
+/**
+ * Get the time of a date and time of the day of a time zone.
+ *
+ * @param local the date and time of the day, as the UTC fields of a time.
+ * @param timezone the IANA time zone, or undefined for the time zone of the server.
+ * @returns the time, in milliseconds.
+ */
+function fromLocalTime(local: number, timezone: string | undefined): number {
+  // The offset at the time found by the offset at the local time is right, but around a change of the offset.
+  return local - getTimezoneOffset(local - getTimezoneOffset(local, timezone), timezone);
+}
+
+/**
+ * Parse the arguments of a summary command into a history range.
+ *
+ * Supported forms are: nothing (last 24 hours), a duration (e.g. `3h`, `30m`, `2d`, `1w`),
+ * a message count (e.g. `200`), `since HH:MM` and `yesterday`.
+ *
+ * @param args the arguments following the command, e.g. `3h` or `since 09:00`.
+ * @param now the current time, in milliseconds.
+ * @param timezone the IANA time zone of `since HH:MM` and `yesterday`, or undefined for the time zone of the server.
+ * @returns the range of history to consider, or undefined for the default window.
+ * @throws an error with a user-facing explanation if the arguments are not valid.
+ */
+export function parseHistoryRange(args: string, now: number = Date.now(), timezone?: string): HistoryRange | undefined {
+  const normalized = args.trim().toLowerCase();
+  if (!normalized) return undefined;
+
+  // Last N messages.
+  if (/^\d+$/.test(normalized)) {
+    const limit = Number(normalized);
+    if (!Number.isSafeInteger(limit) || limit <= 0) throw new Error('The number of messages must be a positive integer.');
+    return { limit };
+  }
+
+  // Messages in a time window ending now.
+  const duration = normalized.match(/^(\d+)\s*([mhdw])$/);
+  if (duration) {
+    const amount = Number(duration[1]);
+    if (amount <= 0) throw new Error('The time window must be greater than zero.');
+    return { since: now - amount * DURATION_UNITS_MS[duration[2]] };
+  }
+
+  // Messages of the previous calendar day. Days are computed on the local date and time, as the UTC fields of a date.
+  if (normalized === 'yesterday') {
+    const day = new Date(now + getTimezoneOffset(now, timezone));
+    day.setUTCHours(0, 0, 0, 0);
+    const today = day.getTime();
+    day.setUTCDate(day.getUTCDate() - 1);
+    return { since: fromLocalTime(day.getTime(), timezone), until: fromLocalTime(today, timezone) };
+  }
+
+  // Messages since a time of the day, within the last 24 hours.
+  const since = normalized.match(/^since\s+(\d{1,2}):(\d{2})$/);
+  if (since) {
+    const hours = Number(since[1]);
+    const minutes = Number(since[2]);
+    if (hours > 23 || minutes > 59) throw new Error(`"${since[1]}:${since[2]}" is not a valid time of the day.`);
+    const start = new Date(now + getTimezoneOffset(now, timezone));
+    start.setUTCHours(hours, minutes, 0, 0);
+    // A time later than now refers to the same time yesterday.
+    if (fromLocalTime(start.getTime(), timezone) > now) start.setUTCDate(start.getUTCDate() - 1);
+    return { since: fromLocalTime(start.getTime(), timezone) };
+  }
+  if (normalized.startsWith('since')) throw new Error('Use "since HH:MM", e.g. "since 09:00".');
+
+  throw new Error(`Unknown argument "${args.trim()}". Use a time window (e.g. 3h, 2d), a number of messages (e.g. 200), "since HH:MM" or "yesterday".`);
+}
@@ -0,0 +1,49 @@
+// Constants.
+const CUSTOM_MASK = '[redacted]';
+
+/**
+ * A kind of personal data to mask, and the placeholder that replaces it.
+ */
+interface RedactionPattern {
+  pattern: RegExp;
+  mask: string;
+}
+
+// The built-in patterns, in the order they are applied: IBANs before phone numbers, whose digits they contain.
+const BUILTIN_PATTERNS: RedactionPattern[] = [
+  // E-mail addresses, e.g. alice.smith@example.com.
+  { pattern: /[A-Za-z0-9._%+-]+@[A-Za-z0-9-]+(?:\.[A-Za-z0-9-]+)*\.[A-Za-z]{2,}/g, mask: '[email]' },
+  // IBANs, with or without spaces, e.g. IT60 X054 2811 1010 0000 0123 456.
+  { pattern: /\b[A-Z]{2}\d{2}(?: ?[A-Z0-9]){11,30}\b/g, mask: '[iban]' },
+  // Phone numbers of 9 to 15 digits, optionally international and grouped, e.g. +39 333 123 4567 or (555) 123-4567.
+  // Dates (e.g. 2025-03-10 18:00) are not phone numbers.
+  { pattern: /(?<![\w+])(?!\d{4}-\d{2}-\d{2})(?:\+|\()?\d(?:[ .()-]{0,2}\d){8,14}(?!\w)/g, mask: '[phone]' },
+];
+
+/**
+ * Get the custom patterns to mask, from REDACT_PATTERNS.
+ * Patterns are regular expressions separated by spaces: use \s to match a space.
+ *
+ * @returns the custom patterns.
+ * @throws an error if a pattern is not a valid regular expression.
+ */
+export function getCustomPatterns(): RegExp[] {
+  return (process.env.REDACT_PATTERNS ?? '').split(/\s+/).filter(x => x).map(source => {
+    try {
+      return new RegExp(source, 'g');
+    } catch {
+      throw new Error(`REDACT_PATTERNS contains an invalid regular expression: ${source}`);
+    }
+  });
+}
+
+/**
+ * Mask the personal data in a text: e-mail addresses, IBANs, phone numbers and the custom patterns.
+ *
+ * @param text the text.
+ * @returns the text, with each match replaced by a placeholder such as [email].
+ */
+export function redactText(text: string): string {
+  const patterns = [...BUILTIN_PATTERNS, ...getCustomPatterns().map(pattern => ({ pattern, mask: CUSTOM_MASK }))];
+  return patterns.reduce((result, { pattern, mask }) => result.replace(pattern, mask), text);
+}
@@ -0,0 +1,103 @@
+// Dependencies.
+import cron, { ScheduledTask } from 'node-cron';
+import * as dataUtils from './data';
+
+// The function to call when the schedule of a chat is triggered, set when the scheduler starts.
+let job: ((chatId: string) => unknown) | null = null;
+// The running tasks of the chats with a custom schedule, by chat id.
+const tasks = new Map<string, ScheduledTask>();
+
+/**
+ * Check if a time zone is a valid IANA time zone.
+ *
+ * @param timezone the time zone, e.g. "Europe/Rome".
+ * @returns true if the time zone is valid.
+ */
+function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Get the default schedule of the automatic summaries, for chats without a custom schedule.
+ *
+ * @returns the cron expression and time zone, or undefined if the default schedule is disabled.
+ */
+export function getDefaultSchedule(): { schedule: string, timezone: string | undefined } | undefined {
+  const schedule = process.env.CRON_SCHEDULE || '59 23 * * *';
+  if (schedule === 'never') return undefined;
+  return { schedule, timezone: process.env.CRON_TIMEZONE || undefined };
+}
+
+/**
+ * Parse the arguments of the /schedule command.
+ *
+ * @param args a cron expression optionally followed by an IANA time zone, e.g. `0 8 * * * Europe/Rome`.
+ * @returns the cron expression and the time zone, if any.
+ * @throws an error with a user-facing explanation if the arguments are not valid.
+ */
+export function parseSchedule(args: string): { schedule: string, timezone: string | undefined } {
+  const words = args.trim().split(/\s+/).filter(x => x);
+
+  // The last word is a time zone if it is a valid one and what precedes it is a valid cron expression.
+  const last = words[words.length - 1];
+  if (words.length > 5 && /[a-z]/i.test(last) && isValidTimezone(last) && cron.validate(words.slice(0, -1).join(' '))) {
+    return { schedule: words.slice(0, -1).join(' '), timezone: last };
+  }
+  if (words.length > 0 && /[a-z]/i.test(last) && last.includes('/') && !isValidTimezone(last)) {
+    throw new Error(`Unknown time zone "${last}". Use an IANA time zone, e.g. Europe/Rome.`);
+  }
+  if (words.length < 5 || words.length > 6 || !cron.validate(words.join(' '))) {
+    throw new Error('Use a cron expression optionally followed by a time zone, e.g. "/schedule 0 8 * * * Europe/Rome".');
+  }
+  return { schedule: words.join(' '), timezone: undefined };
+}
+
+/**
+ * Schedule the task of a chat, replacing the previous one.
+ *
+ * @param chatId the id of the chat.
+ * @param schedule the schedule of the chat, or undefined to remove its task.
+ */
+function scheduleTask(chatId: string, schedule: { schedule: string, timezone: string | undefined } | undefined) {
+  tasks.get(chatId)?.stop();
+  tasks.delete(chatId);
+  if (!schedule || !job) return;
+
+  const callback = job;
+  tasks.set(chatId, cron.schedule(schedule.schedule, () => callback(chatId), { timezone: schedule.timezone }));
+}
+
+/**
+ * Start the scheduled tasks of all chats with a custom schedule in the storage.
+ *
+ * @param callback the function to call when the schedule of a chat is triggered.
+ */
+export function startScheduler(callback: (chatId: string) => unknown) {
+  job = callback;
+  for (const schedule of dataUtils.getChatSchedules()) scheduleTask(schedule.chatId, schedule);
+}
+
+/**
+ * Stop all the scheduled tasks.
+ */
+export function stopScheduler() {
+  for (const task of tasks.values()) task.stop();
+  tasks.clear();
+  job = null;
+}
+
+/**
+ * Update the custom schedule of a chat, both in the storage and in the running scheduler.
+ *
+ * @param chatId the id of the chat.
+ * @param schedule the new schedule, or null to go back to the default one.
+ */
+export function updateChatSchedule(chatId: string, schedule: { schedule: string, timezone: string | undefined } | null) {
+  dataUtils.setChatSchedule(chatId, schedule);
+  scheduleTask(chatId, schedule ?? undefined);
+}
@@ -0,0 +1,94 @@
+// Dependencies.
+import * as http from 'http';
+import * as healthUtils from './health';
+import * as logUtils from './log';
+
+// Constants.
+const DEFAULT_PORT = 8080;
+
+/**
+ * The configuration of the webhook mode.
+ */
+export interface WebhookConfig {
+  // The public URL Telegram sends the updates to.
+  url: string;
+  // The path of the URL, where the server receives the updates.
+  path: string;
+  // The secret token Telegram sends with each update, to verify it.
+  secret: string;
+}
+
+/**
+ * Get the port of the HTTP server.
+ *
+ * @returns the port, from PORT or the default one.
+ */
+export function getPort(): number {
+  const port = Number(process.env.PORT);
+  return process.env.PORT && Number.isInteger(port) && port >= 0 ? port : DEFAULT_PORT;
+}
+
+/**
+ * Get the configuration of the webhook mode.
+ *
+ * @returns the configuration, or undefined if the bot uses long polling.
+ * @throws an error if the webhook mode is not configured correctly.
+ */
+export function getWebhookConfig(): WebhookConfig | undefined {
+  const url = process.env.WEBHOOK_URL;
+  if (!url) return undefined;
+
+  let path: string;
+  try {
+    path = new URL(url).pathname;
+  } catch {
+    throw new Error(`WEBHOOK_URL is not a valid URL: ${url}`);
+  }
+  // Telegram only accepts secret tokens of letters, digits, underscores and hyphens.
+  const secret = process.env.WEBHOOK_SECRET;
+  if (!secret || !/^[A-Za-z0-9_-]{1,256}$/.test(secret)) {
+    throw new Error('WEBHOOK_SECRET is required in webhook mode: use 1-256 letters, digits, underscores or hyphens.');
+  }
+  return { url, path, secret };
+}
+
+/**
+ * Send a health status as JSON.
+ *
+ * @param res the HTTP response.
+ * @param status the health status.
+ */
+function sendStatus(res: http.ServerResponse, status: healthUtils.HealthStatus) {
+  res.writeHead(status.ok ? 200 : 503, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(status));
+}
+
+/**
+ * Start the HTTP server, with the health endpoints and, in webhook mode, the endpoint receiving the updates.
+ *
+ * @param port the port to listen on.
+ * @param webhook the path and handler of the webhook endpoint, if the bot uses webhooks.
+ * The handler verifies the secret token of the requests.
+ * @returns the server.
+ */
+export function startServer(port: number, webhook?: { path: string, handler: (req: http.IncomingMessage, res: http.ServerResponse) => Promise<unknown> }): http.Server {
+  const server = http.createServer((req, res) => {
+    const path = new URL(req.url ?? '/', 'http://localhost').pathname;
+
+    if (req.method === 'GET' && path === '/healthz') {
+      sendStatus(res, healthUtils.checkHealth());
+    } else if (req.method === 'GET' && path === '/readyz') {
+      sendStatus(res, healthUtils.checkReadiness());
+    } else if (req.method === 'POST' && webhook && path === webhook.path) {
+      webhook.handler(req, res).catch((error) => {
+        logUtils.logError('Failed to handle the update', error);
+        if (!res.headersSent) res.writeHead(500);
+        res.end();
+      });
+    } else {
+      res.writeHead(404).end();
+    }
+  });
+  server.listen(port);
+  return server;
+}
@@ -0,0 +1,219 @@
+// Dependencies.
+import * as dataUtils from './data';
+
+/**
+ * The effective settings of a chat.
+ */
+export interface ChatSettings {
+  // Minimum message length to trigger a TL;DR, or Infinity if TL;DRs are disabled.
+  tldrThreshold: number;
+  // Whether the scheduled summaries are sent to the chat.
+  autoSummary: boolean;
+  // Whether voice messages, audio files, video notes and videos are transcribed.
+  transcription: boolean;
+  // Whether the bot replies with the transcriptions, which are stored in any case.
+  transcriptionReply: boolean;
+  // The language of summaries and TL;DRs, or undefined to use the language of the messages.
+  language: string | undefined;
+  // Whether summaries only cover the messages since the last summary, optionally given the last summary as context.
+  incremental: 'off' | 'on' | 'context';
+  // Whether summaries are plain text or organized by topics, decisions, action items and open questions.
+  format: 'plain' | 'structured';
+  // Whether e-mail addresses, phone numbers, IBANs and the custom patterns are masked in the text sent to the AI.
+  redaction: boolean;
+  // Whether only the administrators of the chat can use the commands.
+  adminOnly: boolean;
+  // The digests built from the scheduled summaries, if any.
+  digests: dataUtils.DigestLevel[];
+}
+
+/**
+ * The definition of a setting that a chat can change with the /settings command.
+ */
+interface SettingDefinition {
+  // Short description of the setting, shown to the users.
+  description: string;
+  // Get the default value from the environment.
+  getDefault: () => string;
+  // Normalize a value given by the user, throwing an error with a user-facing explanation if it is not valid.
+  parse: (value: string) => string;
+  // Whether only the administrators of the chat can change the setting.
+  adminOnly?: boolean;
+}
+
+/**
+ * Parse an on/off value.
+ *
+ * @param value the value given by the user.
+ * @returns the normalized value.
+ */
+function parseSwitch(value: string): string {
+  const normalized = value.toLowerCase();
+  if (['on', 'true', 'yes', '1'].includes(normalized)) return 'on';
+  if (['off', 'false', 'no', '0'].includes(normalized)) return 'off';
+  throw new Error(`"${value}" is not valid, use on or off.`);
+}
+
+// The settings that a chat can change, by key.
+const SETTINGS: Record<string, SettingDefinition> = {
+  tldr: {
+    description: 'minimum message length to reply with a TL;DR, or off',
+    getDefault: () => process.env.MSG_LENGTH_LIMIT || '1000',
+    parse: (value) => {
+      if (value.toLowerCase() === 'off') return 'off';
+      if (!/^\d+$/.test(value) || Number(value) <= 0) throw new Error(`"${value}" is not valid, use a positive number of characters or off.`);
+      return String(Number(value));
+    },
+  },
+  autosummary: {
+    description: 'send the scheduled summaries, on or off',
+    getDefault: () => process.env.AUTO_SUMMARY || 'on',
+    parse: parseSwitch,
+  },
+  transcription: {
+    description: 'transcribe voice messages, audio files, video notes and videos, on or off',
+    getDefault: () => process.env.TRANSCRIPTION || 'on',
+    parse: parseSwitch,
+  },
+  transcriptionreply: {
+    description: 'reply with the transcriptions, on or off (they are stored for the summaries anyway)',
+    getDefault: () => process.env.TRANSCRIPTION_REPLY || 'on',
+    parse: parseSwitch,
+  },
+  language: {
+    description: 'language of summaries and TL;DRs, or auto to use the language of the messages',
+    getDefault: () => process.env.SUMMARY_LANGUAGE || 'auto',
+    parse: (value) => value.toLowerCase() === 'auto' ? 'auto' : value,
+  },
+  incremental: {
+    description: 'only summarize the messages since the last summary, on, off or context (on, with the last summary as context)',
+    getDefault: () => process.env.INCREMENTAL_SUMMARY || 'off',
+    parse: (value) => {
+      const normalized = value.toLowerCase();
+      if (normalized === 'context') return 'context';
+      return parseSwitch(value);
+    },
+  },
+  format: {
+    description: 'format of summaries, plain or structured (topics, decisions, action items and open questions)',
+    getDefault: () => process.env.SUMMARY_FORMAT || 'plain',
+    parse: (value) => {
+      const normalized = value.toLowerCase();
+      if (normalized !== 'plain' && normalized !== 'structured') throw new Error(`"${value}" is not valid, use plain or structured.`);
+      return normalized;
+    },
+  },
+  redaction: {
+    description: 'mask e-mail addresses, phone numbers, IBANs and the custom patterns in the text sent to the AI, on or off',
+    getDefault: () => process.env.REDACTION || 'off',
+    parse: parseSwitch,
+    adminOnly: true,
+  },
+  digest: {
+    description: 'digests of the scheduled summaries, week, month, both or off',
+    getDefault: () => process.env.DIGEST || 'off',
+    parse: (value) => {
+      const levels = value.toLowerCase().split(/[\s,+]+/).filter(x => x);
+      if (levels.length === 1 && levels[0] === 'off') return 'off';
+      if (levels.length === 1 && levels[0] === 'both') return 'week,month';
+      if (levels.length === 0 || levels.some(x => x !== 'week' && x !== 'month')) throw new Error(`"${value}" is not valid, use week, month, both or off.`);
+      return ['week', 'month'].filter(x => levels.includes(x)).join(',');
+    },
+  },
+  adminonly: {
+    description: 'only allow the administrators of the chat to use the commands, on or off',
+    getDefault: () => process.env.ADMIN_ONLY || 'off',
+    parse: parseSwitch,
+    adminOnly: true,
+  },
+};
+
+/**
+ * Get the raw value of each setting of a chat, falling back to the environment defaults.
+ *
+ * @param chatId the id of the chat.
+ * @returns the values by key.
+ */
+function getSettingValues(chatId: string): Record<string, string> {
+  const stored = dataUtils.getChatSettings(chatId);
+  return Object.fromEntries(Object.entries(SETTINGS).map(([key, setting]) => [key, stored[key] ?? setting.getDefault()]));
+}
+
+/**
+ * Get the effective settings of a chat.
+ * Settings the chat has not set fall back to the environment defaults.
+ *
+ * @param chatId the id of the chat.
+ * @returns the settings.
+ */
+export function getSettings(chatId: string): ChatSettings {
+  const values = getSettingValues(chatId);
+  return {
+    tldrThreshold: values.tldr === 'off' ? Infinity : Number(values.tldr),
+    autoSummary: values.autosummary !== 'off',
+    transcription: values.transcription !== 'off',
+    transcriptionReply: values.transcriptionreply !== 'off',
+    language: values.language !== 'auto' ? values.language : undefined,
+    incremental: values.incremental === 'context' ? 'context' : values.incremental === 'on' ? 'on' : 'off',
+    format: values.format === 'structured' ? 'structured' : 'plain',
+    redaction: values.redaction === 'on',
+    adminOnly: values.adminonly === 'on',
+    digests: values.digest.split(',').filter((x): x is dataUtils.DigestLevel => x === 'week' || x === 'month'),
+  };
+}
+
+/**
+ * Update the settings of a chat from the arguments of the /settings command.
+ * Each argument is a `key=value` pair; `key=default` restores the environment default.
+ * No setting is changed if any argument is not valid.
+ *
+ * @param chatId the id of the chat.
+ * @param args the arguments of the command, e.g. `tldr=500 language=Italian`.
+ * @param isAdmin whether the user is an administrator of the chat, required to change some settings.
+ * @throws an error with a user-facing explanation if the arguments are not valid.
+ */
+export function updateSettings(chatId: string, args: string, isAdmin = true) {
+  // Group the words into key=value pairs, so that values can contain spaces (e.g. "language=Brazilian Portuguese").
+  const pairs: { key: string, value: string }[] = [];
+  for (const word of args.trim().split(/\s+/).filter(x => x)) {
+    const separator = word.indexOf('=');
+    if (separator > 0) pairs.push({ key: word.slice(0, separator), value: word.slice(separator + 1) });
+    else if (pairs.length > 0 && separator < 0) pairs[pairs.length - 1].value += ' ' + word;
+    else throw new Error('Use key=value pairs, e.g. "/settings tldr=500 language=English".');
+  }
+  if (pairs.length === 0) throw new Error('Use key=value pairs, e.g. "/settings tldr=500 language=English".');
+
+  // Validate all the values before changing anything.
+  const updates = pairs.map(({ key: rawKey, value: rawValue }) => {
+    const key = rawKey.toLowerCase();
+    const value = rawValue.trim();
+    const setting = SETTINGS[key];
+    if (!setting) throw new Error(`Unknown setting "${rawKey}". Available settings: ${Object.keys(SETTINGS).join(', ')}.`);
+    if (setting.adminOnly && !isAdmin) throw new Error(`Only the administrators of this chat can change the setting "${key}".`);
+    if (!value) throw new Error(`Missing value for the setting "${key}".`);
+    if (value.toLowerCase() === 'default') return { key, value: null };
+    try {
+      return { key, value: setting.parse(value) };
+    } catch (error) {
+      throw new Error(`Invalid value for the setting "${key}": ${(error as Error).message}`);
+    }
+  });
+  for (const { key, value } of updates) dataUtils.setChatSetting(chatId, key, value);
+}
+
+/**
+ * Describe the settings of a chat.
+ *
+ * @param chatId the id of the chat.
+ * @returns a human readable list of the settings, their values and descriptions.
+ */
+export function formatSettings(chatId: string): string {
+  const stored = dataUtils.getChatSettings(chatId);
+  const values = getSettingValues(chatId);
+  return [
+    'Settings of this chat:',
+    ...Object.entries(SETTINGS).map(([key, setting]) => `${key}=${values[key]}${stored[key] === undefined ? ' (default)' : ''} - ${setting.description}`),
+    '',
+    'Change them with /settings key=value, or key=default to restore the default.',
+  ].join('\n');
+}
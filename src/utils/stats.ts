@@ -0,0 +1,140 @@
+// Dependencies.
+import * as dataUtils from './data';
+
+// Constants.
+const TOP_PARTICIPANTS = 5; // The number of most active participants listed by /stats.
+const TOP_HOURS = 3; // The number of busiest hours listed by /stats.
+const MEDIA_NAMES: Record<dataUtils.MediaKind, [string, string]> = {
+  'voice': ['voice message', 'voice messages'],
+  'audio': ['audio file', 'audio files'],
+  'video_note': ['video note', 'video notes'],
+  'video': ['video', 'videos'],
+  'photo': ['photo', 'photos'],
+  'document': ['document', 'documents'],
+};
+const PURPOSE_NAMES: Record<dataUtils.ModelPurpose, string> = {
+  'summary': 'Summaries',
+  'tldr': 'TL;DRs',
+  'ask': 'Answers',
+  'transcription': 'Transcriptions',
+};
+
+/**
+ * Format a count with the singular or plural name of what is counted, e.g. "1 message" or "2 messages".
+ *
+ * @param count the count.
+ * @param singular the name of one item.
+ * @param plural the name of several items.
+ * @returns the formatted count.
+ */
+function formatCount(count: number, singular: string, plural: string): string {
+  return `${count.toLocaleString('en-US')} ${count === 1 ? singular : plural}`;
+}
+
+/**
+ * Get the hour of the day of a time, in a time zone.
+ *
+ * @param time the time, in milliseconds.
+ * @param timezone the IANA time zone.
+ * @returns the hour, from 0 to 23.
+ */
+function getHour(time: number, timezone: string): number {
+  return Number(new Intl.DateTimeFormat('en-US', { timeZone: timezone, hour: 'numeric', hourCycle: 'h23' }).format(time));
+}
+
+/**
+ * Sort the entries of a count, highest first. Ties keep their order.
+ *
+ * @param counts the counts, by key.
+ * @returns the keys and their counts, highest first.
+ */
+function sortCounts<T>(counts: Map<T, number>): [T, number][] {
+  return [...counts.entries()].sort((a, b) => b[1] - a[1]);
+}
+
+/**
+ * Render the statistics of the messages of a chat: their count, the most active participants,
+ * the busiest hours of the day and the media attached.
+ *
+ * @param messages the messages, in chronological order. It must not be empty.
+ * @param timezone the time zone of the hours of the day.
+ * @returns the statistics, as text.
+ */
+export function renderChatStats(messages: dataUtils.StoredMessage[], timezone = 'UTC'): string {
+  const authors = new Map<string, number>();
+  const hours = new Map<number, number>();
+  const media = new Map<dataUtils.MediaKind, number>();
+  for (const message of messages) {
+    authors.set(message.author, (authors.get(message.author) ?? 0) + 1);
+    const hour = getHour(message.createdAt, timezone);
+    hours.set(hour, (hours.get(hour) ?? 0) + 1);
+    if (message.media) media.set(message.media, (media.get(message.media) ?? 0) + 1);
+  }
+
+  const pad = (hour: number) => String(hour).padStart(2, '0') + ':00';
+  return [
+    `${formatCount(messages.length, 'message', 'messages')} from ${formatCount(authors.size, 'participant', 'participants')}.`,
+    '',
+    'Most active participants:',
+    ...sortCounts(authors).slice(0, TOP_PARTICIPANTS).map(([author, count], i) => `${i + 1}. ${author}: ${formatCount(count, 'message', 'messages')} (${Math.round(count / messages.length * 100)}%)`),
+    '',
+    `Busiest hours (${timezone}):`,
+    ...sortCounts(hours).slice(0, TOP_HOURS).map(([hour, count]) => `- ${pad(hour)}-${pad((hour + 1) % 24)}: ${formatCount(count, 'message', 'messages')}`),
+    '',
+    media.size > 0
+      ? 'Media: ' + sortCounts(media).map(([kind, count]) => formatCount(count, ...MEDIA_NAMES[kind])).join(', ') + '.'
+      : 'Media: none.',
+  ].join('\n');
+}
+
+/**
+ * Get the statistics of the stored messages of a chat.
+ * The hours of the day are in the time zone of the custom schedule of the chat, if any, in UTC otherwise.
+ *
+ * @param chatId the id of the chat.
+ * @param range the portion of the history. Defaults to the last 24 hours.
+ * @returns the statistics, or undefined if there are no messages in the range.
+ */
+export function getChatStats(chatId: string, range?: dataUtils.HistoryRange): string | undefined {
+  const messages = dataUtils.getStoredHistory(chatId, range);
+  if (messages.length === 0) return undefined;
+  return renderChatStats(messages, dataUtils.getChatSchedule(chatId)?.timezone);
+}
+
+/**
+ * Render the usage report of a chat from its calls to the LLM and to the STT provider, grouped by purpose.
+ *
+ * @param calls the calls. It must not be empty.
+ * @returns the report, as text.
+ */
+export function renderUsageReport(calls: dataUtils.ModelCall[]): string {
+  const failed = calls.filter(x => !x.success).length;
+  const lines = [`${formatCount(calls.length, 'call', 'calls')} to the AI${failed > 0 ? `, ${failed.toLocaleString('en-US')} failed` : ''}.`, ''];
+
+  for (const purpose of Object.keys(PURPOSE_NAMES) as dataUtils.ModelPurpose[]) {
+    const group = calls.filter(x => x.purpose === purpose);
+    if (group.length === 0) continue;
+    const sum = (values: number[]) => values.reduce((total, x) => total + x, 0);
+    const input = sum(group.map(x => x.inputSize));
+    const details = [
+      formatCount(group.length, 'call', 'calls'),
+      purpose === 'transcription' ? `${(input / 1024 / 1024).toFixed(1)} MB of audio` : formatCount(input, 'character', 'characters'),
+    ];
+    details.push(`${(sum(group.map(x => x.durationMs)) / group.length / 1000).toFixed(1)} s on average`);
+    lines.push(`${PURPOSE_NAMES[purpose]}: ${details.join(', ')}.`);
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Get the usage report of a chat from its usage log.
+ *
+ * @param chatId the id of the chat.
+ * @param range the time range of the report.
+ * @returns the report, or undefined if the chat has no calls in the range.
+ */
+export function getUsageReport(chatId: string, range: { since: number, until?: number }): string | undefined {
+  const calls = dataUtils.getModelCalls(chatId, range.since, range.until);
+  if (calls.length === 0) return undefined;
+  return renderUsageReport(calls);
+}
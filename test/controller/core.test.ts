@@ -1,6 +1,7 @@
 import { describe, it, expect, beforeEach, afterEach, vi, Mock } from 'vitest';
-import { onMessageReceived, onCronJob } from '../../src/controller/core';
+import { onMessageReceived, onMessageEdited, onCallbackQuery, onCronJob, onChatCronJob, onRetentionJob, getJobHandlers } from '../../src/controller/core';
 import * as fs from 'fs';
+import { GrammyError, InlineKeyboard } from 'grammy';
 
 // Mock llm-proxy
 vi.mock('@derogab/llm-proxy', () => ({
@@ -26,12 +27,79 @@ vi.mock('../../src/utils/data', () => ({
   getHistory: vi.fn().mockReturnValue([]),
   updateHistory: vi.fn(),
   getActiveChats: vi.fn().mockReturnValue([]),
+  getChatSettings: vi.fn().mockReturnValue({}),
+  setChatSetting: vi.fn(),
+  getChatSchedule: vi.fn().mockReturnValue(undefined),
+  setChatSchedule: vi.fn(),
+  saveSummary: vi.fn(),
+  getLastSummary: vi.fn().mockReturnValue(undefined),
+  getLastScheduledSummary: vi.fn().mockReturnValue(undefined),
+  purgeHistory: vi.fn(),
+  deleteChatHistory: vi.fn().mockReturnValue(0),
+  deleteUserHistory: vi.fn().mockReturnValue(0),
+  searchHistory: vi.fn().mockReturnValue([]),
+  editHistory: vi.fn().mockReturnValue(false),
+  deleteMessages: vi.fn().mockReturnValue(0),
+  getStoredHistory: vi.fn().mockReturnValue([]),
+  getHistoryPeriod: vi.fn().mockReturnValue(undefined),
+  getLastUserMessageId: vi.fn().mockReturnValue(undefined),
+  getSummaries: vi.fn().mockReturnValue([]),
+  getUsage: vi.fn().mockReturnValue([]),
+  recordUsage: vi.fn(),
+  isOptedOut: vi.fn().mockReturnValue(false),
+  setOptOut: vi.fn(),
+  saveChat: vi.fn(),
+  getKnownChats: vi.fn().mockReturnValue([]),
+  getDefaultRange: vi.fn().mockReturnValue({ since: 1000 }),
+  saveTopic: vi.fn(),
+  getTopicNames: vi.fn().mockReturnValue({}),
+  getTranscription: vi.fn().mockReturnValue(undefined),
+  saveTranscription: vi.fn(),
+  getSummaryByMessage: vi.fn().mockReturnValue(undefined),
+  updateSummary: vi.fn(),
+  recordModelCall: vi.fn(),
+  getModelCalls: vi.fn().mockReturnValue([]),
+  getScheduledSummaries: vi.fn().mockReturnValue([]),
+  getScheduledSummaryChats: vi.fn().mockReturnValue([]),
+  getLastDigest: vi.fn().mockReturnValue(undefined),
+  saveDigest: vi.fn(),
+}));
+
+// Mock ffmpeg: the audio of videos and long audio files is extracted in two chunks.
+vi.mock('../../src/utils/media', () => ({
+  getChunkDuration: vi.fn().mockReturnValue(300),
+  extractAudioChunks: vi.fn().mockResolvedValue([Buffer.from('chunk 1'), Buffer.from('chunk 2')]),
+}));
+
+// Mock the job queue: the queued jobs are run by runJobs.
+vi.mock('../../src/utils/queue', () => ({
+  enqueueJob: vi.fn(),
 }));
 
 import * as dataUtils from '../../src/utils/data';
+import * as mediaUtils from '../../src/utils/media';
+import { enqueueJob } from '../../src/utils/queue';
 import { generate } from '@derogab/llm-proxy';
 import { transcribe } from '@derogab/stt-proxy';
 
+// The buttons under the stored summaries, to rewrite them.
+const summaryButtons = { reply_markup: expect.any(InlineKeyboard) };
+
+/**
+ * Run the queued jobs, including the ones queued by the jobs themselves, as the queue would.
+ *
+ * @param api the Telegram API given to the jobs.
+ */
+async function runJobs(api: any) {
+  const handlers = getJobHandlers(api);
+  const calls = (enqueueJob as Mock).mock.calls;
+  for (let i = 0; i < calls.length; i++) {
+    const [type, payload] = calls[i];
+    // The payloads are stored as JSON.
+    await handlers[type].run(JSON.parse(JSON.stringify(payload)));
+  }
+}
+
 describe('onMessageReceived', () => {
   let mockCtx: any;
 
@@ -39,13 +107,31 @@ describe('onMessageReceived', () => {
     vi.clearAllMocks();
     delete process.env.WHITELISTED_CHATS;
     delete process.env.MSG_LENGTH_LIMIT;
+    delete process.env.LLM_CONTEXT_BUDGET;
     delete process.env.STT_PROVIDER;
     delete process.env.WHISPER_CPP_MODEL_PATH;
     delete process.env.CLOUDFLARE_ACCOUNT_ID;
     delete process.env.CLOUDFLARE_AUTH_KEY;
+    delete process.env.DOCUMENT_MAX_SIZE;
     (fs.existsSync as Mock).mockReturnValue(false);
     (dataUtils.getHistory as Mock).mockReturnValue([]);
     (dataUtils.getActiveChats as Mock).mockReturnValue([]);
+    (dataUtils.getChatSettings as Mock).mockReturnValue({});
+    (dataUtils.getChatSchedule as Mock).mockReturnValue(undefined);
+    (dataUtils.getLastSummary as Mock).mockReturnValue(undefined);
+    (dataUtils.getStoredHistory as Mock).mockReturnValue([]);
+    (dataUtils.getHistoryPeriod as Mock).mockReturnValue(undefined);
+    (dataUtils.getLastUserMessageId as Mock).mockReturnValue(undefined);
+    (dataUtils.getUsage as Mock).mockReturnValue([]);
+    (dataUtils.isOptedOut as Mock).mockReturnValue(false);
+    (dataUtils.getTopicNames as Mock).mockReturnValue({});
+    (dataUtils.getTranscription as Mock).mockReturnValue(undefined);
+    (dataUtils.getScheduledSummaries as Mock).mockReturnValue([]);
+    delete process.env.REDACT_PATTERNS;
+    delete process.env.PROMPTS_DIR;
+    delete process.env.SUMMARY_PRESET;
+    delete process.env.CRON_SCHEDULE;
+    delete process.env.CRON_TIMEZONE;
 
     mockCtx = {
       update: {
@@ -60,8 +146,13 @@ describe('onMessageReceived', () => {
         token: 'bot-token',
         sendChatAction: vi.fn().mockResolvedValue(undefined),
         getFile: vi.fn().mockResolvedValue({ file_path: 'voice/file.ogg' }),
+        getChatMember: vi.fn().mockResolvedValue({ status: 'member' }),
+        getChat: vi.fn().mockResolvedValue({ id: 123, type: 'group', title: 'Book club' }),
+        sendMessage: vi.fn().mockResolvedValue(undefined),
+        sendDocument: vi.fn().mockResolvedValue(undefined),
       },
       reply: vi.fn().mockResolvedValue(undefined),
+      replyWithDocument: vi.fn().mockResolvedValue(undefined),
     };
   });
 
@@ -108,13 +199,17 @@ describe('onMessageReceived', () => {
       'testuser',
       'Test',
       'User',
-      'Photo caption'
+      'Photo caption',
+      1,
+      undefined,
+      undefined,
+      undefined
     );
   });
 
   it('should use document filename when text and caption are not available', async () => {
     mockCtx.update.message.text = undefined;
-    mockCtx.update.message.document = { file_name: 'document.pdf' };
+    mockCtx.update.message.document = { file_name: 'archive.zip' };
     await onMessageReceived(mockCtx);
     expect(dataUtils.updateHistory).toHaveBeenCalledWith(
       '123',
@@ -122,7 +217,11 @@ describe('onMessageReceived', () => {
       'testuser',
       'Test',
       'User',
-      'document.pdf'
+      'archive.zip',
+      1,
+      undefined,
+      undefined,
+      'document'
     );
   });
 
@@ -135,7 +234,11 @@ describe('onMessageReceived', () => {
       undefined,
       'Test',
       'User',
-      'Hello world'
+      'Hello world',
+      1,
+      undefined,
+      undefined,
+      undefined
     );
   });
 
@@ -147,10 +250,62 @@ describe('onMessageReceived', () => {
       'testuser',
       'Test',
       'User',
-      'Hello world'
+      'Hello world',
+      1,
+      undefined,
+      undefined,
+      undefined
     );
   });
 
+  it('should save the message it replies to', async () => {
+    mockCtx.update.message.reply_to_message = { message_id: 7 };
+    await onMessageReceived(mockCtx);
+    expect(dataUtils.updateHistory).toHaveBeenCalledWith('123', '456', 'testuser', 'Test', 'User', 'Hello world', 1, 7, undefined, undefined);
+  });
+
+  it('should not save the creation of a forum topic as a replied message', async () => {
+    mockCtx.update.message.reply_to_message = { message_id: 7, forum_topic_created: { name: 'Topic' } };
+    await onMessageReceived(mockCtx);
+    expect(dataUtils.updateHistory).toHaveBeenCalledWith('123', '456', 'testuser', 'Test', 'User', 'Hello world', 1, undefined, undefined, undefined);
+  });
+
+  it('should save the forum topic of the message and its name', async () => {
+    mockCtx.update.message.is_topic_message = true;
+    mockCtx.update.message.message_thread_id = 42;
+    mockCtx.update.message.reply_to_message = { message_id: 42, forum_topic_created: { name: 'Releases' } };
+    await onMessageReceived(mockCtx);
+    expect(dataUtils.saveTopic).toHaveBeenCalledWith('123', 42, 'Releases', false);
+    expect(dataUtils.updateHistory).toHaveBeenCalledWith('123', '456', 'testuser', 'Test', 'User', 'Hello world', 1, undefined, 42, undefined);
+  });
+
+  it('should only summarize the forum topic of /summary and reply there', async () => {
+    mockCtx.update.message.text = '/summary';
+    mockCtx.update.message.is_topic_message = true;
+    mockCtx.update.message.message_thread_id = 42;
+    (dataUtils.getHistory as Mock).mockReturnValue([{ id: 7, author: '@user1', message: 'Hello', threadId: 42 }]);
+
+    await onMessageReceived(mockCtx);
+    await runJobs(mockCtx.api);
+
+    expect(dataUtils.getHistory).toHaveBeenCalledWith('123', { since: 1000, threadId: 42 });
+    expect(mockCtx.api.sendMessage).toHaveBeenCalledWith('123', 'Mocked summary response', { ...summaryButtons, message_thread_id: 42 });
+    expect(dataUtils.saveSummary).toHaveBeenCalledWith('123', 'Mocked summary response', 7, 7, 42, undefined, false);
+  });
+
+  it('should show replies in the history given to the AI', async () => {
+    mockCtx.update.message.text = '/summary';
+    (dataUtils.getHistory as Mock).mockReturnValue([
+      { id: 1, author: '@user1', message: 'Lunch?', replyTo: undefined },
+      { id: 2, author: '@user2', message: 'Sure!', replyTo: '@user1' },
+    ]);
+
+    await onMessageReceived(mockCtx);
+    await runJobs(mockCtx.api);
+
+    expect((generate as Mock).mock.calls[0][0]).toContainEqual({ role: 'user', content: '@user2 (replying to @user1): Sure!' });
+  });
+
   it('should generate and send summary on /summary command', async () => {
     mockCtx.update.message.text = '/summary';
     (dataUtils.getHistory as Mock).mockReturnValue([
@@ -159,141 +314,1864 @@ describe('onMessageReceived', () => {
     ]);
 
     await onMessageReceived(mockCtx);
+    await runJobs(mockCtx.api);
 
-    expect(mockCtx.api.sendChatAction).toHaveBeenCalledWith('123', 'typing');
+    expect(mockCtx.api.sendChatAction).toHaveBeenCalledWith('123', 'typing', undefined);
     expect(generate).toHaveBeenCalled();
-    expect(mockCtx.reply).toHaveBeenCalledWith('Mocked summary response');
+    expect(mockCtx.api.sendMessage).toHaveBeenCalledWith('123', 'Mocked summary response', summaryButtons);
   });
 
-  it('should generate TL;DR for long messages', async () => {
-    process.env.MSG_LENGTH_LIMIT = '10';
-    mockCtx.update.message.text = 'This is a very long message that exceeds the limit';
+  it('should queue the summary instead of generating it while handling the command', async () => {
+    mockCtx.update.message.text = '/summary structured 3h';
+    (dataUtils.getHistory as Mock).mockReturnValue([{ id: 1, author: '@user1', message: 'Hello' }]);
 
     await onMessageReceived(mockCtx);
 
-    expect(dataUtils.updateHistory).toHaveBeenCalled();
-    expect(generate).toHaveBeenCalled();
-    expect(mockCtx.reply).toHaveBeenCalledWith(
-      'TL;DR\n\nMocked summary response',
-      { reply_to_message_id: 1 }
-    );
+    expect(generate).not.toHaveBeenCalled();
+    expect(enqueueJob).toHaveBeenCalledWith('summary', { chatId: '123', messageId: 1, range: { since: expect.any(Number) }, incremental: 'off', format: 'structured' });
   });
 
-  it('should not generate TL;DR for short messages', async () => {
-    process.env.MSG_LENGTH_LIMIT = '1000';
-    mockCtx.update.message.text = 'Short message';
+  it('should catch the user up on the messages since their last one, with the mentions and replies to them first', async () => {
+    mockCtx.update.message.text = '/catchup';
+    mockCtx.update.message.chat = { id: -1001234, type: 'supergroup', title: 'Team' };
+    (dataUtils.getLastUserMessageId as Mock).mockReturnValue(7);
+    (dataUtils.getHistory as Mock).mockReturnValue([{ id: 8, author: '@bob', message: 'Can you review?', replyTo: '@testuser' }]);
+    (dataUtils.getStoredHistory as Mock).mockReturnValue([
+      { id: 8, author: '@bob', message: 'Can you review?', replyTo: '@testuser', messageId: 20, createdAt: 0 },
+      { id: 9, author: '@carol', message: 'Lunch, @TestUser?', replyTo: undefined, messageId: undefined, createdAt: 0 },
+      { id: 10, author: '@dave', message: 'Hello @testuser2', replyTo: '@carol', messageId: 22, createdAt: 0 },
+    ]);
 
     await onMessageReceived(mockCtx);
+    await runJobs(mockCtx.api);
 
-    expect(dataUtils.updateHistory).toHaveBeenCalled();
-    expect(generate).not.toHaveBeenCalled();
-    expect(mockCtx.reply).not.toHaveBeenCalled();
+    expect(dataUtils.getLastUserMessageId).toHaveBeenCalledWith('-1001234', '456', expect.any(Number));
+    expect(enqueueJob).toHaveBeenCalledWith('catchup', { chatId: '-1001234', messageId: 1, author: '@testuser', range: { afterId: 7 }, chatUsername: undefined });
+    expect(dataUtils.getStoredHistory).toHaveBeenCalledWith('-1001234', { afterId: 7 });
+    expect(mockCtx.api.sendMessage).toHaveBeenCalledWith('-1001234', [
+      'Mentions and replies to you:',
+      '- @bob (replying to you): Can you review? https://t.me/c/1234/20',
+      '- @carol: Lunch, @TestUser?',
+      '',
+      'Mocked summary response',
+    ].join('\n'), { reply_to_message_id: 1 });
+    expect(dataUtils.saveSummary).not.toHaveBeenCalled();
   });
 
-  it('should transcribe audio when Cloudflare STT is configured', async () => {
-    process.env.STT_PROVIDER = 'cloudflare';
-    process.env.CLOUDFLARE_ACCOUNT_ID = 'account-id';
-    process.env.CLOUDFLARE_AUTH_KEY = 'auth-key';
-    mockCtx.update.message.audio = { file_id: 'audio-file-id' };
-    const arrayBuffer = new Uint8Array([1, 2, 3]).buffer;
-    vi.stubGlobal('fetch', vi.fn().mockResolvedValue({
-      arrayBuffer: vi.fn().mockResolvedValue(arrayBuffer),
-    }));
+  it('should catch the user up on the default window if they have not written recently', async () => {
+    mockCtx.update.message.text = '/catchup';
+    (dataUtils.getHistory as Mock).mockReturnValue([{ id: 1, author: '@bob', message: 'Hello' }]);
+    (dataUtils.getStoredHistory as Mock).mockReturnValue([{ id: 1, author: '@bob', message: 'Hello', replyTo: undefined, messageId: 3, createdAt: 0 }]);
 
     await onMessageReceived(mockCtx);
+    await runJobs(mockCtx.api);
 
-    expect(mockCtx.api.getFile).toHaveBeenCalledWith('audio-file-id');
-    expect(fetch).toHaveBeenCalledWith('https://api.telegram.org/file/botbot-token/voice/file.ogg');
-    expect(transcribe).toHaveBeenCalledWith(expect.any(Buffer));
-    expect(mockCtx.reply).toHaveBeenCalledWith(
-      'Mocked transcription',
-      { reply_to_message_id: 1 }
-    );
-    expect(dataUtils.updateHistory).toHaveBeenCalledWith(
-      '123',
-      '456',
-      'testuser',
-      'Test',
-      'User',
-      'Hello world\n\nMocked transcription'
-    );
+    expect(dataUtils.getHistory).toHaveBeenCalledWith('123', undefined);
+    expect(mockCtx.api.sendMessage).toHaveBeenCalledWith('123', 'Mocked summary response', { reply_to_message_id: 1 });
   });
 
-  it('should transcribe voice when whisper.cpp STT is configured', async () => {
-    process.env.STT_PROVIDER = 'whisper.cpp';
-    process.env.WHISPER_CPP_MODEL_PATH = '/tmp/whisper-model.bin';
-    (fs.existsSync as Mock).mockReturnValue(true);
-    mockCtx.update.message.text = undefined;
-    mockCtx.update.message.voice = { file_id: 'voice-file-id' };
-    vi.stubGlobal('fetch', vi.fn().mockResolvedValue({
-      arrayBuffer: vi.fn().mockResolvedValue(new Uint8Array([4, 5, 6]).buffer),
-    }));
+  it('should tell the user when they have not missed anything', async () => {
+    mockCtx.update.message.text = '/catchup';
+    (dataUtils.getLastUserMessageId as Mock).mockReturnValue(7);
 
     await onMessageReceived(mockCtx);
 
-    expect(mockCtx.api.getFile).toHaveBeenCalledWith('voice-file-id');
-    expect(dataUtils.updateHistory).toHaveBeenCalledWith(
-      '123',
-      '456',
-      'testuser',
-      'Test',
-      'User',
-      'Mocked transcription'
-    );
+    expect(enqueueJob).not.toHaveBeenCalled();
+    expect(mockCtx.reply).toHaveBeenCalledWith('You have not missed anything since your last message.', { reply_to_message_id: 1 });
   });
 
-  it('should ignore audio when STT is not configured', async () => {
-    mockCtx.update.message.text = undefined;
-    mockCtx.update.message.voice = { file_id: 'voice-file-id' };
+  it('should remember the title of groups', async () => {
+    mockCtx.update.message.chat = { id: 123, type: 'supergroup', title: 'Book club' };
 
     await onMessageReceived(mockCtx);
 
-    expect(mockCtx.api.getFile).not.toHaveBeenCalled();
-    expect(transcribe).not.toHaveBeenCalled();
-    expect(dataUtils.updateHistory).not.toHaveBeenCalled();
+    expect(dataUtils.saveChat).toHaveBeenCalledWith('123', 'Book club');
   });
-});
 
-describe('onCronJob', () => {
-  let mockBot: any;
+  it('should tell when the summary finally fails', async () => {
+    await getJobHandlers(mockCtx.api).summary.onFailure!({ chatId: '123', messageId: 1 }, new Error('LLM down'));
 
-  beforeEach(() => {
-    vi.clearAllMocks();
+    expect(mockCtx.api.sendMessage).toHaveBeenCalledWith('123', 'Sorry, I could not generate the summary. Please try again later.', { reply_to_message_id: 1 });
+  });
 
-    mockBot = {
-      api: {
-        sendChatAction: vi.fn().mockResolvedValue(undefined),
-        sendMessage: vi.fn().mockResolvedValue(undefined),
-      },
-    };
+  it('should not store a summary that could not be sent', async () => {
+    mockCtx.update.message.text = '/summary';
+    (dataUtils.getHistory as Mock).mockReturnValue([{ id: 1, author: '@user1', message: 'Hello' }]);
+    mockCtx.api.sendMessage.mockRejectedValue(new Error('Network error'));
+
+    await onMessageReceived(mockCtx);
+
+    await expect(runJobs(mockCtx.api)).rejects.toThrow('Network error');
+    expect(dataUtils.saveSummary).not.toHaveBeenCalled();
   });
 
-  it('should do nothing when no active chats', async () => {
-    (dataUtils.getActiveChats as Mock).mockReturnValue([]);
-    await onCronJob(mockBot);
-    expect(mockBot.api.sendMessage).not.toHaveBeenCalled();
+  it('should store the generated summary with the range of messages it covers', async () => {
+    mockCtx.update.message.text = '/summary';
+    (dataUtils.getHistory as Mock).mockReturnValue([
+      { id: 7, author: '@user1', message: 'Hello' },
+      { id: 9, author: '@user2', message: 'World' },
+    ]);
+
+    mockCtx.api.sendMessage.mockResolvedValue({ message_id: 100 });
+
+    await onMessageReceived(mockCtx);
+    await runJobs(mockCtx.api);
+
+    expect(dataUtils.saveSummary).toHaveBeenCalledWith('123', 'Mocked summary response', 7, 9, undefined, 100, false);
   });
 
-  it('should skip chats with no history', async () => {
-    (dataUtils.getActiveChats as Mock).mockReturnValue(['123']);
-    (dataUtils.getHistory as Mock).mockReturnValue([]);
+  it('should only summarize new messages on /summary new', async () => {
+    mockCtx.update.message.text = '/summary new';
+    (dataUtils.getLastSummary as Mock).mockReturnValue({ id: 1, summary: 'Previous summary', firstMessageId: 1, lastMessageId: 5, createdAt: 0 });
+    (dataUtils.getHistory as Mock).mockReturnValue([{ id: 6, author: '@user1', message: 'Hello' }]);
 
-    await onCronJob(mockBot);
+    await onMessageReceived(mockCtx);
+    await runJobs(mockCtx.api);
 
-    expect(mockBot.api.sendMessage).not.toHaveBeenCalled();
+    expect(dataUtils.getHistory).toHaveBeenCalledWith('123', { afterId: 5 });
+    expect(mockCtx.api.sendMessage).toHaveBeenCalledWith('123', 'Mocked summary response', summaryButtons);
   });
 
-  it('should send summary to active chats with history', async () => {
-    (dataUtils.getActiveChats as Mock).mockReturnValue(['123', '456']);
+  it('should tell when there are no new messages on /summary new', async () => {
+    mockCtx.update.message.text = '/summary new';
+    (dataUtils.getLastSummary as Mock).mockReturnValue({ id: 1, summary: 'Previous summary', firstMessageId: 1, lastMessageId: 5, createdAt: 0 });
+
+    await onMessageReceived(mockCtx);
+
+    expect(generate).not.toHaveBeenCalled();
+    expect(mockCtx.reply).toHaveBeenCalledWith('There are no new messages since the last summary.');
+  });
+
+  it('should give the previous summary as context in the incremental context mode', async () => {
+    (dataUtils.getChatSettings as Mock).mockReturnValue({ incremental: 'context' });
+    mockCtx.update.message.text = '/summary';
+    (dataUtils.getLastSummary as Mock).mockReturnValue({ id: 1, summary: 'Previous summary', firstMessageId: 1, lastMessageId: 5, createdAt: 0 });
+    (dataUtils.getHistory as Mock).mockReturnValue([{ id: 6, author: '@user1', message: 'Hello' }]);
+
+    await onMessageReceived(mockCtx);
+    await runJobs(mockCtx.api);
+
+    expect(dataUtils.getHistory).toHaveBeenCalledWith('123', { afterId: 5 });
+    expect((generate as Mock).mock.calls[0][0]).toContainEqual(expect.objectContaining({ content: expect.stringContaining('Previous summary') }));
+  });
+
+  it('should not apply the incremental mode to an explicit range', async () => {
+    (dataUtils.getChatSettings as Mock).mockReturnValue({ incremental: 'on' });
+    mockCtx.update.message.text = '/summary 200';
+    (dataUtils.getLastSummary as Mock).mockReturnValue({ id: 1, summary: 'Previous summary', firstMessageId: 1, lastMessageId: 5, createdAt: 0 });
+    (dataUtils.getHistory as Mock).mockReturnValue([{ id: 6, author: '@user1', message: 'Hello' }]);
+
+    await onMessageReceived(mockCtx);
+    await runJobs(mockCtx.api);
+
+    expect(dataUtils.getHistory).toHaveBeenCalledWith('123', { limit: 200 });
+  });
+
+  it('should summarize the requested range on /summary with arguments', async () => {
+    mockCtx.update.message.text = '/summary 200';
     (dataUtils.getHistory as Mock).mockReturnValue([
       { author: '@user1', message: 'Hello' },
     ]);
 
-    await onCronJob(mockBot);
+    await onMessageReceived(mockCtx);
+    await runJobs(mockCtx.api);
 
-    expect(mockBot.api.sendChatAction).toHaveBeenCalledTimes(2);
-    expect(mockBot.api.sendMessage).toHaveBeenCalledTimes(2);
-    expect(mockBot.api.sendMessage).toHaveBeenCalledWith('123', 'Mocked summary response');
-    expect(mockBot.api.sendMessage).toHaveBeenCalledWith('456', 'Mocked summary response');
+    expect(dataUtils.getHistory).toHaveBeenCalledWith('123', { limit: 200 });
+    expect(mockCtx.api.sendMessage).toHaveBeenCalledWith('123', 'Mocked summary response', summaryButtons);
+  });
+
+  it('should accept a /summary command addressed to the bot', async () => {
+    mockCtx.update.message.text = '/summary@summarygram_bot 3h';
+    (dataUtils.getHistory as Mock).mockReturnValue([
+      { author: '@user1', message: 'Hello' },
+    ]);
+
+    await onMessageReceived(mockCtx);
+    await runJobs(mockCtx.api);
+
+    expect(dataUtils.getHistory).toHaveBeenCalledWith('123', { since: expect.any(Number) });
+    expect(mockCtx.api.sendMessage).toHaveBeenCalledWith('123', 'Mocked summary response', summaryButtons);
+  });
+
+  it('should resolve /summary yesterday in the time zone of the chat', async () => {
+    mockCtx.update.message.text = '/summary yesterday';
+    (dataUtils.getChatSchedule as Mock).mockReturnValueOnce({ chatId: '123', schedule: '0 8 * * *', timezone: 'Europe/Rome' });
+    (dataUtils.getHistory as Mock).mockReturnValue([{ author: '@user1', message: 'Hello' }]);
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(Date.UTC(2025, 2, 10, 15, 30));
+
+    await onMessageReceived(mockCtx);
+    vi.useRealTimers();
+
+    expect(dataUtils.getHistory).toHaveBeenCalledWith('123', { since: Date.UTC(2025, 2, 8, 23), until: Date.UTC(2025, 2, 9, 23) });
+  });
+
+  it('should explain the syntax on /summary with invalid arguments', async () => {
+    mockCtx.update.message.text = '/summary tomorrow';
+
+    await onMessageReceived(mockCtx);
+
+    expect(generate).not.toHaveBeenCalled();
+    expect(mockCtx.reply).toHaveBeenCalledWith(expect.stringContaining('Unknown argument "tomorrow"'));
+  });
+
+  it('should not generate a summary when the requested range is empty', async () => {
+    mockCtx.update.message.text = '/summary 1h';
+
+    await onMessageReceived(mockCtx);
+
+    expect(generate).not.toHaveBeenCalled();
+    expect(mockCtx.reply).toHaveBeenCalledWith('There are no messages to summarize in the requested range.');
+  });
+
+  it('should summarize long histories in chunks and merge the partial summaries', async () => {
+    process.env.LLM_CONTEXT_BUDGET = '30';
+    mockCtx.update.message.text = '/summary';
+    (dataUtils.getHistory as Mock).mockReturnValue([
+      { author: '@user1', message: 'First message' },
+      { author: '@user2', message: 'Second message' },
+      { author: '@user1', message: 'Third message' },
+    ]);
+    (generate as Mock)
+      .mockResolvedValueOnce({ content: 'Partial 1' })
+      .mockResolvedValueOnce({ content: 'Partial 2' })
+      .mockResolvedValueOnce({ content: 'Partial 3' })
+      .mockResolvedValueOnce({ content: 'Merged summary' });
+
+    await onMessageReceived(mockCtx);
+    await runJobs(mockCtx.api);
+
+    // One request per chunk, then one to merge the partial summaries.
+    expect(generate).toHaveBeenCalledTimes(4);
+    expect((generate as Mock).mock.calls[0][0]).toContainEqual({ role: 'user', content: '@user1: First message' });
+    expect((generate as Mock).mock.calls[3][0]).toContainEqual({ role: 'user', content: 'Part 2:\n\nPartial 2' });
+    expect(mockCtx.api.sendMessage).toHaveBeenCalledWith('123', 'Merged summary', summaryButtons);
+  });
+
+  it('should cut the partial summaries that are too long to be merged in groups', async () => {
+    process.env.LLM_CONTEXT_BUDGET = '30';
+    mockCtx.update.message.text = '/summary';
+    (dataUtils.getHistory as Mock).mockReturnValue([
+      { author: '@user1', message: 'First message' },
+      { author: '@user2', message: 'Second message' },
+      { author: '@user1', message: 'Third message' },
+    ]);
+    (generate as Mock)
+      .mockResolvedValueOnce({ content: 'a'.repeat(30) })
+      .mockResolvedValueOnce({ content: 'b'.repeat(30) })
+      .mockResolvedValueOnce({ content: 'c'.repeat(30) })
+      .mockResolvedValueOnce({ content: 'Merged summary' });
+
+    await onMessageReceived(mockCtx);
+    await runJobs(mockCtx.api);
+
+    // Each partial summary fills the budget alone, so they share it in the final merge.
+    expect(generate).toHaveBeenCalledTimes(4);
+    expect((generate as Mock).mock.calls[3][0]).toContainEqual({ role: 'user', content: 'Part 1:\n\n' + 'a'.repeat(6) + ' […]' });
+    expect((generate as Mock).mock.calls[3][0]).toContainEqual({ role: 'user', content: 'Part 3:\n\n' + 'c'.repeat(6) + ' […]' });
+  });
+
+  it('should split a summary longer than a Telegram message', async () => {
+    mockCtx.update.message.text = '/summary';
+    (dataUtils.getHistory as Mock).mockReturnValue([
+      { id: 1, author: '@user1', message: 'Hello' },
+    ]);
+    (generate as Mock).mockResolvedValueOnce({ content: 'a'.repeat(3000) + '\n\n' + 'b'.repeat(3000) });
+
+    await onMessageReceived(mockCtx);
+    await runJobs(mockCtx.api);
+
+    expect(mockCtx.api.sendMessage).toHaveBeenCalledTimes(2);
+    expect(mockCtx.api.sendMessage).toHaveBeenNthCalledWith(1, '123', 'a'.repeat(3000));
+    expect(mockCtx.api.sendMessage).toHaveBeenNthCalledWith(2, '123', 'b'.repeat(3000), summaryButtons);
+    // The buttons tell that the summary takes several messages, so that its rewrites are sent as replies.
+    expect(mockCtx.api.sendMessage.mock.calls[1][2].reply_markup.inline_keyboard[0][0].callback_data).toBe('rewrite:regenerate:multipart');
+  });
+
+  it('should send a structured summary as HTML on /summary structured', async () => {
+    mockCtx.update.message.text = '/summary structured 3h';
+    (dataUtils.getHistory as Mock).mockReturnValue([
+      { id: 1, author: '@user1', message: 'Let us ship <v2> on Friday' },
+    ]);
+    (generate as Mock).mockResolvedValueOnce({ content: '```json\n{"topics": ["Release <v2>"], "decisions": ["Ship on Friday"], "action_items": [{"task": "Tag the release", "owner": "@user1"}], "open_questions": []}\n```' });
+
+    await onMessageReceived(mockCtx);
+    await runJobs(mockCtx.api);
+
+    expect(dataUtils.getHistory).toHaveBeenCalledWith('123', { since: expect.any(Number) });
+    expect((generate as Mock).mock.calls[0][0]).toContainEqual(expect.objectContaining({ content: expect.stringContaining('JSON') }));
+    expect(mockCtx.api.sendMessage).toHaveBeenCalledWith('123', 
+      '<b>Topics</b>\n• Release &lt;v2&gt;\n\n<b>Decisions</b>\n• Ship on Friday\n\n<b>Action items</b>\n• Tag the release (<i>@user1</i>)',
+      { parse_mode: 'HTML', ...summaryButtons },
+    );
+    expect(dataUtils.saveSummary).toHaveBeenCalledWith('123', expect.stringContaining('- Tag the release (@user1)'), 1, 1, undefined, undefined, false);
+  });
+
+  it('should fall back to a plain summary when the structured one is not valid', async () => {
+    mockCtx.update.message.text = '/summary structured';
+    (dataUtils.getHistory as Mock).mockReturnValue([
+      { id: 1, author: '@user1', message: 'Hello' },
+    ]);
+    (generate as Mock).mockResolvedValueOnce({ content: 'Sorry, here is a summary: {topics: nope' });
+
+    await onMessageReceived(mockCtx);
+    await runJobs(mockCtx.api);
+
+    expect(generate).toHaveBeenCalledTimes(2);
+    expect(mockCtx.api.sendMessage).toHaveBeenCalledWith('123', 'Mocked summary response', summaryButtons);
+  });
+
+  it('should only structure the final merge of long histories', async () => {
+    process.env.LLM_CONTEXT_BUDGET = '30';
+    (dataUtils.getChatSettings as Mock).mockReturnValue({ format: 'structured' });
+    mockCtx.update.message.text = '/summary';
+    (dataUtils.getHistory as Mock).mockReturnValue([
+      { author: '@user1', message: 'First message' },
+      { author: '@user2', message: 'Second message' },
+    ]);
+    (generate as Mock)
+      .mockResolvedValueOnce({ content: 'Partial 1' })
+      .mockResolvedValueOnce({ content: 'Partial 2' })
+      .mockResolvedValueOnce({ content: '{"topics": ["Messages"]}' });
+
+    await onMessageReceived(mockCtx);
+    await runJobs(mockCtx.api);
+
+    expect((generate as Mock).mock.calls[0][0]).not.toContainEqual(expect.objectContaining({ content: expect.stringContaining('JSON') }));
+    expect((generate as Mock).mock.calls[2][0]).toContainEqual(expect.objectContaining({ content: expect.stringContaining('JSON') }));
+    expect(mockCtx.api.sendMessage).toHaveBeenCalledWith('123', '<b>Topics</b>\n• Messages', { parse_mode: 'HTML', ...summaryButtons });
+  });
+
+  it('should send a plain summary on /summary plain in a structured chat', async () => {
+    (dataUtils.getChatSettings as Mock).mockReturnValue({ format: 'structured' });
+    mockCtx.update.message.text = '/summary plain';
+    (dataUtils.getHistory as Mock).mockReturnValue([
+      { id: 1, author: '@user1', message: 'Hello' },
+    ]);
+
+    await onMessageReceived(mockCtx);
+    await runJobs(mockCtx.api);
+
+    expect(generate).toHaveBeenCalledTimes(1);
+    expect(mockCtx.api.sendMessage).toHaveBeenCalledWith('123', 'Mocked summary response', summaryButtons);
+  });
+
+  it('should tell when to try again on /summary over the rate limits', async () => {
+    mockCtx.update.message.text = '/summary';
+    (dataUtils.getHistory as Mock).mockReturnValue([{ id: 1, author: '@user1', message: 'Hello' }]);
+    (dataUtils.getUsage as Mock).mockReturnValue([{ userId: '456', action: 'summary', createdAt: Date.now() }]);
+
+    await onMessageReceived(mockCtx);
+
+    expect(generate).not.toHaveBeenCalled();
+    expect(dataUtils.recordUsage).not.toHaveBeenCalled();
+    expect(mockCtx.reply).toHaveBeenCalledWith(expect.stringMatching(/^You have just made the same request\. Try again in 2 minutes\.$/), { reply_to_message_id: 1 });
+  });
+
+  it('should record the requested summaries for the rate limits', async () => {
+    mockCtx.update.message.text = '/summary';
+    (dataUtils.getHistory as Mock).mockReturnValue([{ id: 1, author: '@user1', message: 'Hello' }]);
+
+    await onMessageReceived(mockCtx);
+
+    expect(dataUtils.recordUsage).toHaveBeenCalledWith('123', '456', 'summary');
+  });
+
+  it('should skip TL;DRs over the rate limits silently', async () => {
+    mockCtx.update.message.text = 'a'.repeat(1001);
+    (dataUtils.getUsage as Mock).mockReturnValue([{ userId: '456', action: 'tldr', createdAt: Date.now() }]);
+
+    await onMessageReceived(mockCtx);
+
+    expect(dataUtils.updateHistory).toHaveBeenCalled();
+    expect(generate).not.toHaveBeenCalled();
+    expect(mockCtx.reply).not.toHaveBeenCalled();
+  });
+
+  it('should refuse the commands from members when the chat restricts them to administrators', async () => {
+    (dataUtils.getChatSettings as Mock).mockReturnValue({ adminonly: 'on' });
+    mockCtx.update.message.text = '/summary';
+
+    await onMessageReceived(mockCtx);
+
+    expect(dataUtils.getHistory).not.toHaveBeenCalled();
+    expect(mockCtx.reply).toHaveBeenCalledWith('Only the administrators of this chat can use the commands of the bot.');
+  });
+
+  it('should allow the commands from administrators when the chat restricts them', async () => {
+    (dataUtils.getChatSettings as Mock).mockReturnValue({ adminonly: 'on' });
+    mockCtx.api.getChatMember.mockResolvedValue({ status: 'administrator' });
+    mockCtx.update.message.text = '/summary';
+    (dataUtils.getHistory as Mock).mockReturnValue([{ id: 1, author: '@user1', message: 'Hello' }]);
+
+    await onMessageReceived(mockCtx);
+    await runJobs(mockCtx.api);
+
+    expect(mockCtx.api.sendMessage).toHaveBeenCalledWith('123', 'Mocked summary response', summaryButtons);
+  });
+
+  it('should always allow /forgetme when the chat restricts the commands', async () => {
+    (dataUtils.getChatSettings as Mock).mockReturnValue({ adminonly: 'on' });
+    mockCtx.update.message.text = '/forgetme';
+
+    await onMessageReceived(mockCtx);
+
+    expect(dataUtils.deleteUserHistory).toHaveBeenCalledWith('456');
+  });
+
+  it('should refuse to change the admin restriction from a member', async () => {
+    mockCtx.update.message.text = '/settings adminonly=on';
+
+    await onMessageReceived(mockCtx);
+
+    expect(dataUtils.setChatSetting).not.toHaveBeenCalled();
+    expect(mockCtx.reply).toHaveBeenCalledWith(expect.stringContaining('Only the administrators of this chat can change the setting "adminonly"'));
+  });
+
+  it('should generate TL;DR for long messages', async () => {
+    process.env.MSG_LENGTH_LIMIT = '10';
+    mockCtx.update.message.text = 'This is a very long message that exceeds the limit';
+
+    await onMessageReceived(mockCtx);
+    await runJobs(mockCtx.api);
+
+    expect(dataUtils.updateHistory).toHaveBeenCalled();
+    expect(generate).toHaveBeenCalled();
+    expect(mockCtx.api.sendMessage).toHaveBeenCalledWith('123', 
+      'TL;DR\n\nMocked summary response',
+      { reply_to_message_id: 1 }
+    );
+  });
+
+  it('should drop a long message deleted before its TL;DR is sent', async () => {
+    process.env.MSG_LENGTH_LIMIT = '10';
+    mockCtx.update.message.text = 'This is a very long message that exceeds the limit';
+    mockCtx.api.sendMessage.mockRejectedValue(new GrammyError(
+      'Call to \'sendMessage\' failed!',
+      { ok: false, error_code: 400, description: 'Bad Request: message to be replied not found' },
+      'sendMessage',
+      {}
+    ));
+
+    await onMessageReceived(mockCtx);
+    await runJobs(mockCtx.api);
+
+    expect(dataUtils.deleteMessages).toHaveBeenCalledWith('123', [1]);
+  });
+
+  it('should not hide other errors when sending a TL;DR', async () => {
+    process.env.MSG_LENGTH_LIMIT = '10';
+    mockCtx.update.message.text = 'This is a very long message that exceeds the limit';
+    mockCtx.api.sendMessage.mockRejectedValue(new Error('Network error'));
+
+    await onMessageReceived(mockCtx);
+
+    await expect(runJobs(mockCtx.api)).rejects.toThrow('Network error');
+    expect(dataUtils.deleteMessages).not.toHaveBeenCalled();
+  });
+
+  it('should not generate TL;DR for short messages', async () => {
+    process.env.MSG_LENGTH_LIMIT = '1000';
+    mockCtx.update.message.text = 'Short message';
+
+    await onMessageReceived(mockCtx);
+
+    expect(dataUtils.updateHistory).toHaveBeenCalled();
+    expect(generate).not.toHaveBeenCalled();
+    expect(mockCtx.reply).not.toHaveBeenCalled();
+  });
+
+  it('should use the TL;DR threshold of the chat', async () => {
+    process.env.MSG_LENGTH_LIMIT = '10';
+    (dataUtils.getChatSettings as Mock).mockReturnValue({ tldr: 'off' });
+    mockCtx.update.message.text = 'This is a very long message that exceeds the limit';
+
+    await onMessageReceived(mockCtx);
+
+    expect(dataUtils.updateHistory).toHaveBeenCalled();
+    expect(generate).not.toHaveBeenCalled();
+  });
+
+  it('should write summaries in the language of the chat', async () => {
+    (dataUtils.getChatSettings as Mock).mockReturnValue({ language: 'Italian' });
+    mockCtx.update.message.text = '/summary';
+    (dataUtils.getHistory as Mock).mockReturnValue([{ author: '@user1', message: 'Hello' }]);
+
+    await onMessageReceived(mockCtx);
+    await runJobs(mockCtx.api);
+
+    expect((generate as Mock).mock.calls[0][0]).toContainEqual(expect.objectContaining({ content: expect.stringContaining('Reply in Italian.') }));
+  });
+
+  it('should show the settings on /settings', async () => {
+    mockCtx.update.message.text = '/settings';
+
+    await onMessageReceived(mockCtx);
+
+    expect(dataUtils.setChatSetting).not.toHaveBeenCalled();
+    expect(dataUtils.updateHistory).not.toHaveBeenCalled();
+    expect(mockCtx.reply).toHaveBeenCalledWith(expect.stringContaining('tldr=1000 (default)'));
+  });
+
+  it('should update the settings on /settings with key=value pairs', async () => {
+    mockCtx.update.message.text = '/settings tldr=500 transcription=off';
+
+    await onMessageReceived(mockCtx);
+
+    expect(dataUtils.setChatSetting).toHaveBeenCalledWith('123', 'tldr', '500');
+    expect(dataUtils.setChatSetting).toHaveBeenCalledWith('123', 'transcription', 'off');
+    expect(mockCtx.reply).toHaveBeenCalledTimes(1);
+  });
+
+  it('should explain the error on /settings with invalid values', async () => {
+    mockCtx.update.message.text = '/settings tldr=short';
+
+    await onMessageReceived(mockCtx);
+
+    expect(dataUtils.setChatSetting).not.toHaveBeenCalled();
+    expect(mockCtx.reply).toHaveBeenCalledWith(expect.stringContaining('Invalid value for the setting "tldr"'));
+  });
+
+  it('should show the prompt and the presets on /prompt', async () => {
+    mockCtx.update.message.text = '/prompt';
+
+    await onMessageReceived(mockCtx);
+
+    expect(dataUtils.setChatSetting).not.toHaveBeenCalled();
+    expect(mockCtx.reply).toHaveBeenCalledWith(expect.stringContaining('Prompt of this chat: standard (default)'));
+  });
+
+  it('should set a preset or a custom prompt on /prompt', async () => {
+    mockCtx.update.message.text = '/prompt minutes';
+    await onMessageReceived(mockCtx);
+    mockCtx.update.message.text = '/prompt custom Summarize as a haiku.';
+    await onMessageReceived(mockCtx);
+
+    expect(dataUtils.setChatSetting).toHaveBeenCalledWith('123', 'prompt', 'preset:minutes');
+    expect(dataUtils.setChatSetting).toHaveBeenCalledWith('123', 'prompt', 'custom:Summarize as a haiku.');
+  });
+
+  it('should explain the error on /prompt with an unknown preset', async () => {
+    mockCtx.update.message.text = '/prompt pirate';
+
+    await onMessageReceived(mockCtx);
+
+    expect(dataUtils.setChatSetting).not.toHaveBeenCalled();
+    expect(mockCtx.reply).toHaveBeenCalledWith('Unknown preset "pirate". Available presets: standard, minutes, casual, bullets.');
+  });
+
+  it('should summarize with the prompt of the chat, filling in its placeholders', async () => {
+    mockCtx.update.message.text = '/summary';
+    (dataUtils.getChatSettings as Mock).mockReturnValue({ prompt: 'custom:Summarize {{chat_title}} {{date_range}} in {{language}}.', language: 'Italian' });
+    (dataUtils.getHistory as Mock).mockReturnValue([{ id: 4, author: '@user1', message: 'Hello' }, { id: 7, author: '@user2', message: 'World' }]);
+    (dataUtils.getHistoryPeriod as Mock).mockReturnValue({ since: Date.UTC(2025, 2, 10, 9, 30), until: Date.UTC(2025, 2, 10, 18, 0) });
+
+    await onMessageReceived(mockCtx);
+    await runJobs(mockCtx.api);
+
+    expect(dataUtils.getHistoryPeriod).toHaveBeenCalledWith('123', 4, 7);
+    const messages = (generate as Mock).mock.calls[0][0];
+    expect(messages[0]).toEqual({ role: 'system', content: 'Summarize Book club from 2025-03-10 09:30 to 2025-03-10 18:00 (UTC) in Italian.' });
+    expect(messages).not.toContainEqual(expect.objectContaining({ content: expect.stringContaining('You are an helpful assistant.') }));
+  });
+
+  it('should not look up the chat when the prompt does not use its title', async () => {
+    mockCtx.update.message.text = '/summary';
+    (dataUtils.getHistory as Mock).mockReturnValue([{ id: 1, author: '@user1', message: 'Hello' }]);
+
+    await onMessageReceived(mockCtx);
+    await runJobs(mockCtx.api);
+
+    expect(mockCtx.api.getChat).not.toHaveBeenCalled();
+    expect(dataUtils.getHistoryPeriod).not.toHaveBeenCalled();
+    expect((generate as Mock).mock.calls[0][0][0].content).toContain('Your only task is to summarize a lot of messages');
+  });
+
+  it('should give the prompt of the chat to the final merge of a long history', async () => {
+    process.env.LLM_CONTEXT_BUDGET = '60';
+    mockCtx.update.message.text = '/summary';
+    (dataUtils.getChatSettings as Mock).mockReturnValue({ prompt: 'preset:bullets' });
+    (dataUtils.getHistory as Mock).mockReturnValue([
+      { id: 1, author: '@user1', message: 'First message of the long conversation' },
+      { id: 2, author: '@user2', message: 'Second message of the long conversation' },
+    ]);
+
+    await onMessageReceived(mockCtx);
+    await runJobs(mockCtx.api);
+
+    const calls = (generate as Mock).mock.calls;
+    expect(calls[calls.length - 1][0]).toContainEqual(expect.objectContaining({ content: expect.stringContaining('Write the summary following these instructions:\n\nYou are an helpful assistant.\nYour only task is to summarize a lot of messages written by different authors as a short list of bullet points') }));
+  });
+
+  it('should show the default schedule on /schedule', async () => {
+    mockCtx.update.message.text = '/schedule';
+
+    await onMessageReceived(mockCtx);
+
+    expect(dataUtils.setChatSchedule).not.toHaveBeenCalled();
+    expect(dataUtils.updateHistory).not.toHaveBeenCalled();
+    expect(mockCtx.reply).toHaveBeenCalledWith(expect.stringContaining('Scheduled summaries: 59 23 * * * (server time zone), the default schedule.'));
+  });
+
+  it('should update the schedule on /schedule with a cron expression and time zone', async () => {
+    mockCtx.update.message.text = '/schedule 0 8 * * * Europe/Rome';
+    mockCtx.api.getChatMember.mockResolvedValue({ status: 'administrator' });
+    (dataUtils.getChatSchedule as Mock).mockReturnValue({ chatId: '123', schedule: '0 8 * * *', timezone: 'Europe/Rome' });
+
+    await onMessageReceived(mockCtx);
+
+    expect(dataUtils.setChatSchedule).toHaveBeenCalledWith('123', { schedule: '0 8 * * *', timezone: 'Europe/Rome' });
+    expect(mockCtx.reply).toHaveBeenCalledWith(expect.stringContaining('Scheduled summaries: 0 8 * * * (Europe/Rome).'));
+  });
+
+  it('should restore the default schedule on /schedule default', async () => {
+    mockCtx.update.message.text = '/schedule default';
+    mockCtx.api.getChatMember.mockResolvedValue({ status: 'administrator' });
+
+    await onMessageReceived(mockCtx);
+
+    expect(dataUtils.setChatSchedule).toHaveBeenCalledWith('123', null);
+  });
+
+  it('should explain the syntax on /schedule with an invalid schedule', async () => {
+    mockCtx.update.message.text = '/schedule every morning';
+    mockCtx.api.getChatMember.mockResolvedValue({ status: 'administrator' });
+
+    await onMessageReceived(mockCtx);
+
+    expect(dataUtils.setChatSchedule).not.toHaveBeenCalled();
+    expect(mockCtx.reply).toHaveBeenCalledWith(expect.stringContaining('cron expression'));
+  });
+
+  it('should only let administrators change the schedule', async () => {
+    mockCtx.update.message.text = '/schedule * * * * *';
+
+    await onMessageReceived(mockCtx);
+
+    expect(dataUtils.setChatSchedule).not.toHaveBeenCalled();
+    expect(mockCtx.reply).toHaveBeenCalledWith('Only the administrators of this chat can change its schedule.');
+  });
+
+  it('should explain the usage on /ask without a question', async () => {
+    mockCtx.update.message.text = '/ask';
+
+    await onMessageReceived(mockCtx);
+
+    expect(dataUtils.searchHistory).not.toHaveBeenCalled();
+    expect(mockCtx.reply).toHaveBeenCalledWith(expect.stringContaining('Ask a question about this chat'));
+  });
+
+  it('should tell when no message is relevant on /ask', async () => {
+    mockCtx.update.message.text = '/ask what about the release?';
+
+    await onMessageReceived(mockCtx);
+
+    expect(dataUtils.searchHistory).toHaveBeenCalledWith('123', 'what about the release?', 20);
+    expect(generate).not.toHaveBeenCalled();
+    expect(mockCtx.reply).toHaveBeenCalledWith('I could not find any message about that.', { reply_to_message_id: 1 });
+  });
+
+  it('should answer /ask with links to the cited messages', async () => {
+    mockCtx.update.message.text = '/ask what did we decide about the release?';
+    mockCtx.update.message.chat = { id: -1001234567890, type: 'supergroup' };
+    (dataUtils.searchHistory as Mock).mockReturnValue([
+      { id: 9, author: '@bob', message: 'Release on Friday', messageId: 90, createdAt: Date.UTC(2025, 2, 10, 9, 30) },
+      { id: 3, author: '@alice', message: 'Let us release with Postgres', messageId: 30, createdAt: Date.UTC(2025, 2, 9, 18, 0) },
+    ]);
+    (generate as Mock).mockResolvedValueOnce({ content: 'You chose Postgres [1] and Friday [2].' });
+
+    await onMessageReceived(mockCtx);
+    await runJobs(mockCtx.api);
+
+    expect(enqueueJob).toHaveBeenCalledWith('ask', { chatId: '-1001234567890', messageId: 1, question: 'what did we decide about the release?', chatUsername: undefined });
+    // Messages are given to the AI in chronological order.
+    expect((generate as Mock).mock.calls[0][0]).toContainEqual({
+      role: 'user',
+      content: 'Messages:\n\n[1] 2025-03-09 18:00 @alice: Let us release with Postgres\n[2] 2025-03-10 09:30 @bob: Release on Friday',
+    });
+    expect(mockCtx.api.sendMessage).toHaveBeenCalledWith(
+      '-1001234567890',
+      'You chose Postgres [1] and Friday [2].\n\nSources:\n[1] https://t.me/c/1234567890/30\n[2] https://t.me/c/1234567890/90',
+      { reply_to_message_id: 1 }
+    );
+  });
+
+  it('should cite messages without a link by author and date on /ask', async () => {
+    mockCtx.update.message.text = '/ask release?';
+    (dataUtils.searchHistory as Mock).mockReturnValue([
+      { id: 3, author: '@alice', message: 'Release on Friday', messageId: undefined, createdAt: Date.UTC(2025, 2, 9, 18, 0) },
+    ]);
+    (generate as Mock).mockResolvedValueOnce({ content: 'On Friday [1], not [7].' });
+
+    await onMessageReceived(mockCtx);
+    await runJobs(mockCtx.api);
+
+    expect(mockCtx.api.sendMessage).toHaveBeenCalledWith('123', 'On Friday [1], not [7].\n\nSources:\n[1] @alice, 2025-03-09', { reply_to_message_id: 1 });
+  });
+
+  it('should drop the least relevant messages that do not fit in the context budget', async () => {
+    mockCtx.update.message.text = '/ask what did we decide about the release?';
+    mockCtx.update.message.chat = { id: -1001234567890, type: 'supergroup' };
+    process.env.LLM_CONTEXT_BUDGET = '120';
+    // The search returns the most relevant messages first.
+    (dataUtils.searchHistory as Mock).mockReturnValue([
+      { id: 9, author: '@bob', message: 'Release on Friday', messageId: 90, createdAt: Date.UTC(2025, 2, 10, 9, 30) },
+      { id: 3, author: '@alice', message: 'Let us release with Postgres', messageId: 30, createdAt: Date.UTC(2025, 2, 9, 18, 0) },
+      { id: 5, author: '@carol', message: 'What about the release party?', messageId: 50, createdAt: Date.UTC(2025, 2, 9, 20, 0) },
+    ]);
+    (generate as Mock).mockResolvedValueOnce({ content: 'On Friday [2].' });
+
+    await onMessageReceived(mockCtx);
+    await runJobs(mockCtx.api);
+
+    expect((generate as Mock).mock.calls[0][0]).toContainEqual({
+      role: 'user',
+      content: 'Messages:\n\n[1] 2025-03-09 18:00 @alice: Let us release with Postgres\n[2] 2025-03-10 09:30 @bob: Release on Friday',
+    });
+    expect(mockCtx.api.sendMessage).toHaveBeenCalledWith('-1001234567890', 'On Friday [2].\n\nSources:\n[2] https://t.me/c/1234567890/90', { reply_to_message_id: 1 });
+  });
+
+  it('should tell the user when the question could not be answered', async () => {
+    mockCtx.update.message.text = '/ask release?';
+    (dataUtils.searchHistory as Mock).mockReturnValue([
+      { id: 3, author: '@alice', message: 'Release on Friday', messageId: undefined, createdAt: Date.UTC(2025, 2, 9, 18, 0) },
+    ]);
+
+    await onMessageReceived(mockCtx);
+    const [type, payload] = (enqueueJob as Mock).mock.calls[0];
+    await getJobHandlers(mockCtx.api)[type].onFailure?.(payload, new Error('LLM down'));
+
+    expect(mockCtx.api.sendMessage).toHaveBeenCalledWith('123', 'Sorry, I could not answer your question. Please try again later.', { reply_to_message_id: 1 });
+  });
+
+  it('should delete the chat history on /forget from an administrator', async () => {
+    mockCtx.update.message.text = '/forget';
+    mockCtx.api.getChatMember.mockResolvedValue({ status: 'administrator' });
+    (dataUtils.deleteChatHistory as Mock).mockReturnValue(42);
+
+    await onMessageReceived(mockCtx);
+
+    expect(mockCtx.api.getChatMember).toHaveBeenCalledWith('123', 456);
+    expect(dataUtils.deleteChatHistory).toHaveBeenCalledWith('123');
+    expect(dataUtils.updateHistory).not.toHaveBeenCalled();
+    expect(mockCtx.reply).toHaveBeenCalledWith('Deleted 42 stored messages of this chat, with their summaries.');
+  });
+
+  it('should refuse /forget from a member who is not an administrator', async () => {
+    mockCtx.update.message.text = '/forget';
+
+    await onMessageReceived(mockCtx);
+
+    expect(dataUtils.deleteChatHistory).not.toHaveBeenCalled();
+    expect(mockCtx.reply).toHaveBeenCalledWith('Only the administrators of this chat can delete its history.');
+  });
+
+  it('should allow /forget in private chats', async () => {
+    mockCtx.update.message.text = '/forget';
+    mockCtx.update.message.chat.type = 'private';
+
+    await onMessageReceived(mockCtx);
+
+    expect(mockCtx.api.getChatMember).not.toHaveBeenCalled();
+    expect(dataUtils.deleteChatHistory).toHaveBeenCalledWith('123');
+  });
+
+  it('should send the exported history on /export from an administrator', async () => {
+    mockCtx.update.message.text = '/export 7d csv';
+    mockCtx.api.getChatMember.mockResolvedValue({ status: 'creator' });
+    (dataUtils.getStoredHistory as Mock).mockReturnValue([
+      { id: 1, author: '@user1', message: 'Hello', replyTo: undefined, messageId: 1, createdAt: 0 },
+    ]);
+
+    await onMessageReceived(mockCtx);
+
+    expect(dataUtils.getStoredHistory).toHaveBeenCalledWith('123', { since: expect.any(Number) });
+    expect(dataUtils.getSummaries).toHaveBeenCalledWith('123', 1, 1);
+    expect(mockCtx.replyWithDocument).toHaveBeenCalledWith(expect.objectContaining({ filename: 'chat-123.csv' }));
+    expect(dataUtils.updateHistory).not.toHaveBeenCalled();
+  });
+
+  it('should tell when there are no messages to export', async () => {
+    mockCtx.update.message.text = '/export';
+    mockCtx.update.message.chat.type = 'private';
+
+    await onMessageReceived(mockCtx);
+
+    expect(mockCtx.replyWithDocument).not.toHaveBeenCalled();
+    expect(mockCtx.reply).toHaveBeenCalledWith('There are no messages to export in the requested range.');
+  });
+
+  it('should explain the syntax on /export with invalid arguments', async () => {
+    mockCtx.update.message.text = '/export pdf';
+    mockCtx.update.message.chat.type = 'private';
+
+    await onMessageReceived(mockCtx);
+
+    expect(mockCtx.reply).toHaveBeenCalledWith(expect.stringContaining('Unknown argument "pdf"'));
+  });
+
+  it('should refuse /export from a member who is not an administrator', async () => {
+    mockCtx.update.message.text = '/export';
+
+    await onMessageReceived(mockCtx);
+
+    expect(dataUtils.getStoredHistory).not.toHaveBeenCalled();
+    expect(mockCtx.reply).toHaveBeenCalledWith('Only the administrators of this chat can export its history.');
+  });
+
+  it('should send the statistics of the messages on /stats', async () => {
+    mockCtx.update.message.text = '/stats 7d';
+    (dataUtils.getStoredHistory as Mock).mockReturnValue([
+      { id: 1, author: '@user1', message: 'Hello', replyTo: undefined, messageId: 1, media: undefined, createdAt: Date.UTC(2025, 2, 10, 9, 30) },
+    ]);
+
+    await onMessageReceived(mockCtx);
+
+    expect(dataUtils.getStoredHistory).toHaveBeenCalledWith('123', { since: expect.any(Number) });
+    expect(mockCtx.reply).toHaveBeenCalledWith(expect.stringContaining('1 message from 1 participant.'));
+    expect(dataUtils.updateHistory).not.toHaveBeenCalled();
+  });
+
+  it('should send the usage report on /stats usage from an administrator', async () => {
+    mockCtx.update.message.text = '/stats usage 30d';
+    mockCtx.api.getChatMember.mockResolvedValue({ status: 'administrator' });
+    (dataUtils.getModelCalls as Mock).mockReturnValue([
+      { kind: 'generate', purpose: 'summary', inputSize: 1200, durationMs: 2000, success: true, createdAt: 0 },
+    ]);
+
+    await onMessageReceived(mockCtx);
+
+    expect(dataUtils.getModelCalls).toHaveBeenCalledWith('123', expect.any(Number), undefined);
+    expect(mockCtx.reply).toHaveBeenCalledWith(expect.stringContaining('Summaries: 1 call, 1,200 characters, 2.0 s on average.'));
+  });
+
+  it('should refuse /stats usage from a member who is not an administrator', async () => {
+    mockCtx.update.message.text = '/stats usage';
+
+    await onMessageReceived(mockCtx);
+
+    expect(dataUtils.getModelCalls).not.toHaveBeenCalled();
+    expect(mockCtx.reply).toHaveBeenCalledWith('Only the administrators of this chat can see its usage of the AI.');
+  });
+
+  it('should send a digest of the scheduled summaries of the last week on /digest', async () => {
+    mockCtx.update.message.text = '/digest';
+    (dataUtils.getScheduledSummaries as Mock).mockReturnValue([
+      { id: 1, summary: 'Planning of the release', firstMessageId: 1, lastMessageId: 4, createdAt: Date.UTC(2025, 2, 3, 23, 59), threadId: undefined },
+      { id: 2, summary: 'Release postponed', firstMessageId: 5, lastMessageId: 9, createdAt: Date.UTC(2025, 2, 4, 23, 59), threadId: undefined },
+    ]);
+
+    await onMessageReceived(mockCtx);
+    await runJobs(mockCtx.api);
+
+    expect(enqueueJob).toHaveBeenCalledWith('digest', { chatId: '123', level: 'week', scheduled: false, messageId: 1 });
+    expect(dataUtils.getScheduledSummaries).toHaveBeenCalledWith('123', expect.any(Number), expect.any(Number));
+    const [after, until] = (dataUtils.getScheduledSummaries as Mock).mock.calls[0].slice(1);
+    expect(until - after).toBe(1000 * 60 * 60 * 24 * 7);
+    const messages = (generate as Mock).mock.calls[0][0];
+    expect(messages).toContainEqual({ role: 'user', content: 'Part 2:\n\nSummary of 2025-03-04:\n\nRelease postponed' });
+    expect(messages).toContainEqual({ role: 'system', content: expect.stringContaining('write a digest of the week') });
+    expect(mockCtx.api.sendMessage).toHaveBeenCalledWith('123', expect.stringMatching(/^Weekly digest, 2025-03-03 to \d{4}-\d{2}-\d{2}\n\nMocked summary response$/), { reply_to_message_id: 1 });
+    expect(dataUtils.saveDigest).not.toHaveBeenCalled();
+  });
+
+  it('should explain that digests are built from the scheduled summaries', async () => {
+    mockCtx.update.message.text = '/digest month';
+
+    await onMessageReceived(mockCtx);
+
+    expect(enqueueJob).not.toHaveBeenCalled();
+    expect(mockCtx.reply).toHaveBeenCalledWith('There are no scheduled summaries of the last month: digests are built from them, see /schedule.', { reply_to_message_id: 1 });
+  });
+
+  it('should explain the periods of /digest', async () => {
+    mockCtx.update.message.text = '/digest year';
+
+    await onMessageReceived(mockCtx);
+
+    expect(dataUtils.getScheduledSummaries).not.toHaveBeenCalled();
+    expect(mockCtx.reply).toHaveBeenCalledWith('Choose the period of the digest, e.g. "/digest week" or "/digest month".');
+  });
+
+  it('should log the calls to the AI in the usage log of the chat', async () => {
+    mockCtx.update.message.text = '/summary';
+    (dataUtils.getHistory as Mock).mockReturnValue([{ id: 1, author: '@user1', message: 'Hello' }]);
+    (generate as Mock).mockResolvedValueOnce({ content: 'Summary' }).mockRejectedValueOnce(new Error('LLM down'));
+
+    await onMessageReceived(mockCtx);
+    await runJobs(mockCtx.api);
+
+    expect(dataUtils.recordModelCall).toHaveBeenCalledWith('123', { kind: 'generate', purpose: 'summary', inputSize: expect.any(Number), durationMs: expect.any(Number), success: true });
+
+    mockCtx.update.message.text = '/ask what did we say?';
+    (dataUtils.searchHistory as Mock).mockReturnValue([{ id: 1, author: '@user1', message: 'Hello', messageId: 1, createdAt: 0 }]);
+    (enqueueJob as Mock).mockClear();
+    await onMessageReceived(mockCtx);
+    await expect(runJobs(mockCtx.api)).rejects.toThrow('LLM down');
+    expect(dataUtils.recordModelCall).toHaveBeenLastCalledWith('123', expect.objectContaining({ purpose: 'ask', success: false }));
+  });
+
+  it('should delete the messages of the user on /forgetme', async () => {
+    mockCtx.update.message.text = '/forgetme';
+    (dataUtils.deleteUserHistory as Mock).mockReturnValue(3);
+
+    await onMessageReceived(mockCtx);
+
+    expect(dataUtils.deleteUserHistory).toHaveBeenCalledWith('456');
+    expect(dataUtils.updateHistory).not.toHaveBeenCalled();
+    expect(mockCtx.reply).toHaveBeenCalledWith('Deleted 3 stored messages of yours, in every chat.', { reply_to_message_id: 1 });
+  });
+
+  it('should stop storing the messages of the user in the chat on /optout', async () => {
+    mockCtx.update.message.text = '/optout';
+
+    await onMessageReceived(mockCtx);
+
+    expect(dataUtils.setOptOut).toHaveBeenCalledWith('456', '123', true);
+    expect(mockCtx.reply).toHaveBeenCalledWith('Your messages will no longer be stored in this chat. Use /forgetme to delete the ones already stored.', { reply_to_message_id: 1 });
+  });
+
+  it('should stop storing the messages of the user in all chats on /optout all', async () => {
+    mockCtx.update.message.text = '/optout all';
+
+    await onMessageReceived(mockCtx);
+
+    expect(dataUtils.setOptOut).toHaveBeenCalledWith('456', null, true);
+  });
+
+  it('should store the messages of the user again on /optin', async () => {
+    mockCtx.update.message.text = '/optin';
+    (dataUtils.isOptedOut as Mock).mockReturnValueOnce(true).mockReturnValueOnce(false);
+
+    await onMessageReceived(mockCtx);
+
+    expect(dataUtils.setOptOut).toHaveBeenCalledWith('456', '123', false);
+    expect(mockCtx.reply).toHaveBeenCalledWith('Your messages will be stored again in this chat.', { reply_to_message_id: 1 });
+  });
+
+  it('should tell when the user is still opted out in all chats on /optin', async () => {
+    mockCtx.update.message.text = '/optin';
+    (dataUtils.isOptedOut as Mock).mockReturnValue(true);
+
+    await onMessageReceived(mockCtx);
+
+    expect(mockCtx.reply).toHaveBeenCalledWith(expect.stringContaining('/optin all'), { reply_to_message_id: 1 });
+  });
+
+  it('should explain the syntax on /optout with invalid arguments', async () => {
+    mockCtx.update.message.text = '/optout forever';
+
+    await onMessageReceived(mockCtx);
+
+    expect(dataUtils.setOptOut).not.toHaveBeenCalled();
+    expect(mockCtx.reply).toHaveBeenCalledWith('Use /optout for this chat, or /optout all for all chats.', { reply_to_message_id: 1 });
+  });
+
+  it('should neither store nor summarize the messages of the users who opted out', async () => {
+    process.env.MSG_LENGTH_LIMIT = '10';
+    mockCtx.update.message.text = 'This is a very long message that exceeds the limit';
+    (dataUtils.isOptedOut as Mock).mockReturnValue(true);
+
+    await onMessageReceived(mockCtx);
+
+    expect(dataUtils.isOptedOut).toHaveBeenCalledWith('123', '456');
+    expect(dataUtils.updateHistory).not.toHaveBeenCalled();
+    expect(enqueueJob).not.toHaveBeenCalled();
+  });
+
+  it('should not transcribe the voice messages of the users who opted out', async () => {
+    process.env.STT_PROVIDER = 'cloudflare';
+    process.env.CLOUDFLARE_ACCOUNT_ID = 'account-id';
+    process.env.CLOUDFLARE_AUTH_KEY = 'auth-key';
+    mockCtx.update.message.voice = { file_id: 'voice-file-id' };
+    (dataUtils.isOptedOut as Mock).mockReturnValue(true);
+
+    await onMessageReceived(mockCtx);
+
+    expect(enqueueJob).not.toHaveBeenCalled();
+    expect(dataUtils.updateHistory).not.toHaveBeenCalled();
+  });
+
+  it('should mask the personal data sent to the AI when the chat enables the redaction', async () => {
+    (dataUtils.getChatSettings as Mock).mockReturnValue({ redaction: 'on' });
+    process.env.REDACT_PATTERNS = 'ACME-\\d+';
+    mockCtx.update.message.text = '/summary';
+    (dataUtils.getHistory as Mock).mockReturnValue([
+      { id: 1, author: '@user1', message: 'Mail me at alice@example.com or call +39 333 123 4567 about ACME-42' },
+    ]);
+
+    await onMessageReceived(mockCtx);
+    await runJobs(mockCtx.api);
+
+    expect((generate as Mock).mock.calls[0][0]).toContainEqual({ role: 'user', content: '@user1: Mail me at [email] or call [phone] about [redacted]' });
+  });
+
+  it('should send the messages as they are when the redaction is off', async () => {
+    mockCtx.update.message.text = '/summary';
+    (dataUtils.getHistory as Mock).mockReturnValue([{ id: 1, author: '@user1', message: 'Mail me at alice@example.com' }]);
+
+    await onMessageReceived(mockCtx);
+    await runJobs(mockCtx.api);
+
+    expect((generate as Mock).mock.calls[0][0]).toContainEqual({ role: 'user', content: '@user1: Mail me at alice@example.com' });
+  });
+
+  it('should transcribe audio when Cloudflare STT is configured', async () => {
+    process.env.STT_PROVIDER = 'cloudflare';
+    process.env.CLOUDFLARE_ACCOUNT_ID = 'account-id';
+    process.env.CLOUDFLARE_AUTH_KEY = 'auth-key';
+    mockCtx.update.message.audio = { file_id: 'audio-file-id' };
+    const arrayBuffer = new Uint8Array([1, 2, 3]).buffer;
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue({
+      arrayBuffer: vi.fn().mockResolvedValue(arrayBuffer),
+    }));
+
+    await onMessageReceived(mockCtx);
+    await runJobs(mockCtx.api);
+
+    expect(mockCtx.api.getFile).toHaveBeenCalledWith('audio-file-id');
+    expect(fetch).toHaveBeenCalledWith('https://api.telegram.org/file/botbot-token/voice/file.ogg');
+    expect(transcribe).toHaveBeenCalledWith(expect.any(Buffer));
+    expect(mockCtx.api.sendMessage).toHaveBeenCalledWith('123', 
+      'Mocked transcription',
+      { reply_to_message_id: 1 }
+    );
+    expect(dataUtils.updateHistory).toHaveBeenCalledWith(
+      '123',
+      '456',
+      'testuser',
+      'Test',
+      'User',
+      'Hello world',
+      1,
+      undefined,
+      undefined,
+      'audio'
+    );
+    expect(dataUtils.editHistory).toHaveBeenCalledWith('123', 1, 'Hello world', 'Mocked transcription');
+  });
+
+  it('should transcribe voice when whisper.cpp STT is configured', async () => {
+    process.env.STT_PROVIDER = 'whisper.cpp';
+    process.env.WHISPER_CPP_MODEL_PATH = '/tmp/whisper-model.bin';
+    (fs.existsSync as Mock).mockReturnValue(true);
+    mockCtx.update.message.text = undefined;
+    mockCtx.update.message.voice = { file_id: 'voice-file-id' };
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue({
+      arrayBuffer: vi.fn().mockResolvedValue(new Uint8Array([4, 5, 6]).buffer),
+    }));
+
+    await onMessageReceived(mockCtx);
+    // The message is saved right away, to keep its place in the history.
+    expect(dataUtils.updateHistory).toHaveBeenCalledWith('123', '456', 'testuser', 'Test', 'User', '[voice message]', 1, undefined, undefined, 'voice');
+    await runJobs(mockCtx.api);
+
+    expect(mockCtx.api.getFile).toHaveBeenCalledWith('voice-file-id');
+    expect(dataUtils.editHistory).toHaveBeenCalledWith('123', 1, '', 'Mocked transcription');
+  });
+
+  it('should send a very long transcription as a document', async () => {
+    process.env.STT_PROVIDER = 'cloudflare';
+    process.env.CLOUDFLARE_ACCOUNT_ID = 'account';
+    process.env.CLOUDFLARE_AUTH_KEY = 'key';
+    (dataUtils.getChatSettings as Mock).mockReturnValue({ tldr: 'off' });
+    mockCtx.update.message = {
+      voice: { file_id: 'voice-file-id' },
+      chat: { id: 123 },
+      from: { id: 456, username: 'testuser' },
+      message_id: 1,
+    };
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue({ arrayBuffer: vi.fn().mockResolvedValue(new ArrayBuffer(8)) }));
+    (transcribe as Mock).mockResolvedValueOnce({ text: 'word '.repeat(5000) });
+
+    await onMessageReceived(mockCtx);
+    await runJobs(mockCtx.api);
+
+    expect(mockCtx.api.sendMessage).not.toHaveBeenCalled();
+    expect(mockCtx.api.sendDocument).toHaveBeenCalledWith('123', expect.objectContaining({ filename: 'transcription.txt' }), { reply_to_message_id: 1 });
+  });
+
+  it('should transcribe the audio of video notes and videos in chunks, and remember the transcription', async () => {
+    process.env.STT_PROVIDER = 'cloudflare';
+    process.env.CLOUDFLARE_ACCOUNT_ID = 'account-id';
+    process.env.CLOUDFLARE_AUTH_KEY = 'auth-key';
+    mockCtx.update.message.text = undefined;
+    mockCtx.update.message.video_note = { file_id: 'video-note-file-id', file_unique_id: 'video-note-unique-id', duration: 20 };
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue({
+      arrayBuffer: vi.fn().mockResolvedValue(new Uint8Array([7, 8, 9]).buffer),
+    }));
+
+    await onMessageReceived(mockCtx);
+    await runJobs(mockCtx.api);
+
+    expect(mockCtx.api.getFile).toHaveBeenCalledWith('video-note-file-id');
+    expect(mediaUtils.extractAudioChunks).toHaveBeenCalledWith(Buffer.from([7, 8, 9]), 300);
+    expect(transcribe).toHaveBeenCalledWith(Buffer.from('chunk 1'));
+    expect(transcribe).toHaveBeenCalledWith(Buffer.from('chunk 2'));
+    expect(dataUtils.saveTranscription).toHaveBeenCalledWith('video-note-unique-id', 'Mocked transcription Mocked transcription', '123', '456');
+    expect(dataUtils.recordModelCall).toHaveBeenCalledWith('123', expect.objectContaining({ kind: 'transcribe', purpose: 'transcription', inputSize: 7, success: true }));
+    expect(dataUtils.updateHistory).toHaveBeenCalledWith('123', '456', 'testuser', 'Test', 'User', '[video note]', 1, undefined, undefined, 'video_note');
+    expect(dataUtils.editHistory).toHaveBeenCalledWith('123', 1, '', 'Mocked transcription Mocked transcription');
+  });
+
+  it('should only split long audio files into chunks', async () => {
+    process.env.STT_PROVIDER = 'cloudflare';
+    process.env.CLOUDFLARE_ACCOUNT_ID = 'account-id';
+    process.env.CLOUDFLARE_AUTH_KEY = 'auth-key';
+    mockCtx.update.message.text = undefined;
+    mockCtx.update.message.audio = { file_id: 'audio-file-id', file_unique_id: 'audio-unique-id', duration: 60 };
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue({ arrayBuffer: vi.fn().mockResolvedValue(new Uint8Array([1]).buffer) }));
+
+    await onMessageReceived(mockCtx);
+    await runJobs(mockCtx.api);
+    expect(mediaUtils.extractAudioChunks).not.toHaveBeenCalled();
+    expect(transcribe).toHaveBeenCalledTimes(1);
+
+    mockCtx.update.message.audio = { file_id: 'audio-file-id', file_unique_id: 'long-audio-unique-id', duration: 900 };
+    await onMessageReceived(mockCtx);
+    await runJobs(mockCtx.api);
+    expect(mediaUtils.extractAudioChunks).toHaveBeenCalledWith(Buffer.from([1]), 300);
+  });
+
+  it('should reuse the transcription of a forwarded copy without transcribing it again', async () => {
+    process.env.STT_PROVIDER = 'cloudflare';
+    process.env.CLOUDFLARE_ACCOUNT_ID = 'account-id';
+    process.env.CLOUDFLARE_AUTH_KEY = 'auth-key';
+    (dataUtils.getTranscription as Mock).mockReturnValue('Already transcribed');
+    mockCtx.update.message.text = undefined;
+    mockCtx.update.message.voice = { file_id: 'other-file-id', file_unique_id: 'voice-unique-id', duration: 5 };
+
+    await onMessageReceived(mockCtx);
+    await runJobs(mockCtx.api);
+
+    expect(dataUtils.getTranscription).toHaveBeenCalledWith('voice-unique-id');
+    expect(mockCtx.api.getFile).not.toHaveBeenCalled();
+    expect(transcribe).not.toHaveBeenCalled();
+    expect(mockCtx.api.sendMessage).toHaveBeenCalledWith('123', 'Already transcribed', { reply_to_message_id: 1 });
+    expect(dataUtils.editHistory).toHaveBeenCalledWith('123', 1, '', 'Already transcribed');
+  });
+
+  it('should store the transcription without replying when the chat turned the replies off', async () => {
+    process.env.STT_PROVIDER = 'cloudflare';
+    process.env.CLOUDFLARE_ACCOUNT_ID = 'account-id';
+    process.env.CLOUDFLARE_AUTH_KEY = 'auth-key';
+    (dataUtils.getChatSettings as Mock).mockReturnValue({ transcriptionreply: 'off' });
+    mockCtx.update.message.text = undefined;
+    mockCtx.update.message.voice = { file_id: 'voice-file-id', file_unique_id: 'voice-unique-id', duration: 5 };
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue({ arrayBuffer: vi.fn().mockResolvedValue(new Uint8Array([1]).buffer) }));
+
+    await onMessageReceived(mockCtx);
+    await runJobs(mockCtx.api);
+
+    expect(mockCtx.api.sendMessage).not.toHaveBeenCalled();
+    expect(mockCtx.api.sendChatAction).not.toHaveBeenCalled();
+    expect(dataUtils.editHistory).toHaveBeenCalledWith('123', 1, '', 'Mocked transcription');
+  });
+
+  it('should delete the saved message when its audio has no speech and it has no caption', async () => {
+    process.env.STT_PROVIDER = 'cloudflare';
+    process.env.CLOUDFLARE_ACCOUNT_ID = 'account-id';
+    process.env.CLOUDFLARE_AUTH_KEY = 'auth-key';
+    mockCtx.update.message.text = undefined;
+    mockCtx.update.message.voice = { file_id: 'voice-file-id', file_unique_id: 'voice-unique-id', duration: 5 };
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue({ arrayBuffer: vi.fn().mockResolvedValue(new Uint8Array([1]).buffer) }));
+    (transcribe as Mock).mockResolvedValueOnce({ text: '' });
+
+    await onMessageReceived(mockCtx);
+    await runJobs(mockCtx.api);
+
+    expect(dataUtils.deleteMessages).toHaveBeenCalledWith('123', [1]);
+    expect(dataUtils.editHistory).not.toHaveBeenCalled();
+  });
+
+  it('should save the caption and tell when the transcription finally fails', async () => {
+    const message = { userId: '456', username: 'testuser', firstname: 'Test', lastname: 'User', text: 'Listen', messageId: 1, replyTo: undefined };
+
+    await getJobHandlers(mockCtx.api).transcription.onFailure!({ chatId: '123', fileId: 'voice-file-id', message }, new Error('STT down'));
+
+    expect(dataUtils.editHistory).toHaveBeenCalledWith('123', 1, 'Listen', '');
+    expect(mockCtx.api.sendMessage).toHaveBeenCalledWith('123', 'Sorry, I could not transcribe this message.', { reply_to_message_id: 1 });
+  });
+
+  it('should only save the caption of media too large to download', async () => {
+    process.env.STT_PROVIDER = 'cloudflare';
+    process.env.CLOUDFLARE_ACCOUNT_ID = 'account-id';
+    process.env.CLOUDFLARE_AUTH_KEY = 'auth-key';
+    mockCtx.update.message.text = undefined;
+    mockCtx.update.message.caption = 'The whole meeting';
+    mockCtx.update.message.video = { file_id: 'video-file-id', file_unique_id: 'video-unique-id', duration: 3600, file_size: 300 * 1024 * 1024 };
+
+    await onMessageReceived(mockCtx);
+    await runJobs(mockCtx.api);
+
+    expect(mockCtx.api.getFile).not.toHaveBeenCalled();
+    expect(transcribe).not.toHaveBeenCalled();
+    expect(dataUtils.updateHistory).toHaveBeenCalledWith('123', '456', 'testuser', 'Test', 'User', 'The whole meeting', 1, undefined, undefined, 'video');
+  });
+
+  it('should not transcribe audio when transcription is disabled for the chat', async () => {
+    process.env.STT_PROVIDER = 'cloudflare';
+    process.env.CLOUDFLARE_ACCOUNT_ID = 'account-id';
+    process.env.CLOUDFLARE_AUTH_KEY = 'auth-key';
+    (dataUtils.getChatSettings as Mock).mockReturnValue({ transcription: 'off' });
+    mockCtx.update.message.text = undefined;
+    mockCtx.update.message.voice = { file_id: 'voice-file-id' };
+
+    await onMessageReceived(mockCtx);
+
+    expect(transcribe).not.toHaveBeenCalled();
+    expect(dataUtils.updateHistory).not.toHaveBeenCalled();
+  });
+
+  it('should ignore audio when STT is not configured', async () => {
+    mockCtx.update.message.text = undefined;
+    mockCtx.update.message.voice = { file_id: 'voice-file-id' };
+
+    await onMessageReceived(mockCtx);
+
+    expect(mockCtx.api.getFile).not.toHaveBeenCalled();
+    expect(transcribe).not.toHaveBeenCalled();
+    expect(dataUtils.updateHistory).not.toHaveBeenCalled();
+  });
+
+  it('should save the text of supported documents and reply to long ones with a TL;DR', async () => {
+    mockCtx.update.message.text = undefined;
+    mockCtx.update.message.caption = 'Notes';
+    mockCtx.update.message.document = { file_id: 'doc-file-id', file_name: 'notes.md', mime_type: 'text/markdown', file_size: 1600 };
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue({
+      arrayBuffer: vi.fn().mockResolvedValue(new TextEncoder().encode('Ship on Friday. '.repeat(100)).buffer),
+    }));
+
+    (dataUtils.editHistory as Mock).mockReturnValueOnce(true);
+
+    await onMessageReceived(mockCtx);
+    expect(dataUtils.updateHistory).toHaveBeenCalledWith('123', '456', 'testuser', 'Test', 'User', 'Notes', 1, undefined, undefined, 'document');
+    await runJobs(mockCtx.api);
+
+    expect(mockCtx.api.getFile).toHaveBeenCalledWith('doc-file-id');
+    expect(dataUtils.editHistory).toHaveBeenCalledWith('123', 1, 'Notes', 'Ship on Friday. '.repeat(100).trim());
+    expect(mockCtx.api.sendMessage).toHaveBeenCalledWith('123', 'TL;DR\n\nMocked summary response', { reply_to_message_id: 1 });
+  });
+
+  it('should only save the name of documents that are too large or cannot be read', async () => {
+    process.env.DOCUMENT_MAX_SIZE = '1';
+    mockCtx.update.message.text = undefined;
+    mockCtx.update.message.document = { file_id: 'doc-file-id', file_name: 'big.pdf', file_size: 2 * 1024 * 1024 };
+    await onMessageReceived(mockCtx);
+    expect(mockCtx.api.getFile).not.toHaveBeenCalled();
+    expect(dataUtils.updateHistory).toHaveBeenCalledWith('123', '456', 'testuser', 'Test', 'User', 'big.pdf', 1, undefined, undefined, 'document');
+
+    vi.clearAllMocks();
+    mockCtx.update.message.document = { file_id: 'doc-file-id', file_name: 'broken.pdf', file_size: 100 };
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue({ arrayBuffer: vi.fn().mockResolvedValue(new Uint8Array([1, 2, 3]).buffer) }));
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    await onMessageReceived(mockCtx);
+    await runJobs(mockCtx.api);
+    expect(dataUtils.updateHistory).toHaveBeenCalledWith('123', '456', 'testuser', 'Test', 'User', 'broken.pdf', 1, undefined, undefined, 'document');
+    expect(dataUtils.editHistory).toHaveBeenCalledWith('123', 1, 'broken.pdf', '');
+  });
+});
+
+describe('private summaries', () => {
+  let mockCtx: any;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    delete process.env.WHITELISTED_CHATS;
+    (dataUtils.getChatSettings as Mock).mockReturnValue({});
+    (dataUtils.getLastSummary as Mock).mockReturnValue(undefined);
+    (dataUtils.getUsage as Mock).mockReturnValue([]);
+    (dataUtils.getHistory as Mock).mockReturnValue([{ id: 1, author: '@user1', message: 'Hello' }]);
+    (dataUtils.getKnownChats as Mock).mockReturnValue([
+      { chatId: '-100', title: 'Book' },
+      { chatId: '-200', title: 'Book club' },
+      { chatId: '-300', title: 'Work' },
+    ]);
+
+    mockCtx = {
+      update: {
+        message: {
+          text: '/summary',
+          chat: { id: 456, type: 'private', first_name: 'Test' },
+          from: { id: 456, username: 'testuser', first_name: 'Test' },
+          message_id: 5,
+        },
+      },
+      api: {
+        sendChatAction: vi.fn().mockResolvedValue(undefined),
+        // The user has left the "Work" group.
+        getChatMember: vi.fn().mockImplementation(async (chatId: string) => ({ status: chatId === '-300' ? 'left' : 'member' })),
+        getChat: vi.fn().mockResolvedValue({ id: -200, type: 'supergroup', title: 'Book club' }),
+        sendMessage: vi.fn().mockResolvedValue(undefined),
+      },
+      reply: vi.fn().mockResolvedValue(undefined),
+      answerCallbackQuery: vi.fn().mockResolvedValue(undefined),
+    };
+  });
+
+  it('should let the user choose among the groups they are a member of', async () => {
+    mockCtx.update.message.text = '/summary groups';
+
+    await onMessageReceived(mockCtx);
+
+    expect(mockCtx.api.getChatMember).toHaveBeenCalledWith('-300', 456);
+    expect(mockCtx.reply).toHaveBeenCalledWith('Which group do you want to summarize?', { reply_markup: { inline_keyboard: [
+      [{ text: 'Book', callback_data: 'summary:-100' }],
+      [{ text: 'Book club', callback_data: 'summary:-200' }],
+    ] } });
+  });
+
+  it('should tell the user when they have no groups', async () => {
+    (dataUtils.getKnownChats as Mock).mockReturnValue([{ chatId: '-300', title: 'Work' }]);
+    mockCtx.update.message.text = '/summary groups';
+
+    await onMessageReceived(mockCtx);
+
+    expect(mockCtx.reply).toHaveBeenCalledWith(expect.stringContaining('I have no messages of the groups you are a member of.'));
+  });
+
+  it('should send the summary of the named group privately, without storing it', async () => {
+    mockCtx.update.message.text = '/summary book club 3h';
+
+    await onMessageReceived(mockCtx);
+    expect(enqueueJob).toHaveBeenCalledWith('summary', { chatId: '-200', messageId: 5, range: { since: expect.any(Number) }, incremental: 'off', format: 'plain', recipientId: '456' });
+    await runJobs(mockCtx.api);
+
+    expect(dataUtils.getHistory).toHaveBeenCalledWith('-200', { since: expect.any(Number) });
+    expect(mockCtx.api.sendMessage).toHaveBeenCalledWith('456', 'Mocked summary response');
+    expect(dataUtils.saveSummary).not.toHaveBeenCalled();
+    expect(dataUtils.updateHistory).not.toHaveBeenCalled();
+  });
+
+  it('should not summarize a group the user is no longer a member of', async () => {
+    mockCtx.update.message.text = '/summary Work';
+
+    await onMessageReceived(mockCtx);
+
+    expect(enqueueJob).not.toHaveBeenCalled();
+    expect(mockCtx.reply).toHaveBeenCalledWith('I could not find that group among the groups you are a member of. Send /summary groups to choose one of them.');
+  });
+
+  it('should respect the admin-only setting of the group', async () => {
+    mockCtx.update.message.text = '/summary Book club';
+    (dataUtils.getChatSettings as Mock).mockReturnValue({ adminonly: 'on' });
+
+    await onMessageReceived(mockCtx);
+
+    expect(enqueueJob).not.toHaveBeenCalled();
+    expect(mockCtx.reply).toHaveBeenCalledWith('Only the administrators of that group can use the commands of the bot.');
+  });
+
+  it('should accept private requests even if the private chat is not whitelisted', async () => {
+    process.env.WHITELISTED_CHATS = '-100,-200';
+    mockCtx.update.message.text = '/summary';
+
+    await onMessageReceived(mockCtx);
+
+    expect(mockCtx.reply).toHaveBeenCalledWith('Which group do you want to summarize?', expect.anything());
+  });
+
+  it('should only check the membership of a bounded number of groups, starting with the ones where the user has written', async () => {
+    const chats = Array.from({ length: 30 }, (_, i) => ({ chatId: `-${i + 1}`, title: `Group ${String(i + 1).padStart(2, '0')}` }));
+    (dataUtils.getKnownChats as Mock).mockReturnValue(chats);
+    (dataUtils.getLastUserMessageId as Mock).mockImplementation((chatId: string) => chatId === '-30' ? 42 : undefined);
+    mockCtx.update.message.text = '/summary groups';
+
+    await onMessageReceived(mockCtx);
+    (dataUtils.getLastUserMessageId as Mock).mockReturnValue(undefined);
+
+    expect(mockCtx.api.getChatMember).toHaveBeenCalledTimes(20);
+    expect(mockCtx.api.getChatMember).toHaveBeenNthCalledWith(1, '-30', 456);
+    const keyboard = mockCtx.reply.mock.calls[0][1].reply_markup.inline_keyboard;
+    expect(keyboard).toHaveLength(20);
+    expect(keyboard[19]).toEqual([{ text: 'Group 30', callback_data: 'summary:-30' }]);
+    expect(mockCtx.reply.mock.calls[0][0]).toBe('Which group do you want to summarize? If your group is not listed, name it, e.g. /summary Book club.');
+  });
+
+  it('should summarize the private chat itself when it is whitelisted and no group is named', async () => {
+    mockCtx.update.message.text = '/summary 3h';
+
+    await onMessageReceived(mockCtx);
+
+    expect(mockCtx.api.getChatMember).not.toHaveBeenCalled();
+    expect(enqueueJob).toHaveBeenCalledWith('summary', expect.objectContaining({ chatId: '456', recipientId: undefined }));
+  });
+
+  it('should summarize the group chosen from the inline keyboard', async () => {
+    mockCtx.update = { callback_query: { id: 'q1', data: 'summary:-100', from: { id: 456 }, message: { message_id: 6, chat: { id: 456, type: 'private' } } } };
+
+    await onCallbackQuery(mockCtx);
+    await runJobs(mockCtx.api);
+
+    expect(mockCtx.answerCallbackQuery).toHaveBeenCalled();
+    expect(enqueueJob).toHaveBeenCalledWith('summary', expect.objectContaining({ chatId: '-100', recipientId: '456' }));
+    expect(mockCtx.api.sendMessage).toHaveBeenCalledWith('456', 'Mocked summary response');
+  });
+
+  it('should tell the user privately when their summary finally fails', async () => {
+    await getJobHandlers(mockCtx.api).summary.onFailure!({ chatId: '-200', messageId: 5, recipientId: '456' }, new Error('LLM down'));
+
+    expect(mockCtx.api.sendMessage).toHaveBeenCalledWith('456', 'Sorry, I could not generate the summary. Please try again later.', { reply_to_message_id: 5 });
+  });
+});
+
+describe('summary buttons', () => {
+  let mockCtx: any;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    delete process.env.WHITELISTED_CHATS;
+    (dataUtils.getChatSettings as Mock).mockReturnValue({});
+    (dataUtils.getUsage as Mock).mockReturnValue([]);
+    (dataUtils.getTopicNames as Mock).mockReturnValue({});
+    (dataUtils.getHistory as Mock).mockReturnValue([{ id: 7, author: '@user1', message: 'Hello' }, { id: 9, author: '@user2', message: 'World' }]);
+    (dataUtils.getSummaryByMessage as Mock).mockReturnValue({ id: 3, summary: 'Old summary', firstMessageId: 7, lastMessageId: 9, createdAt: 0, threadId: undefined });
+
+    mockCtx = {
+      update: { callback_query: { id: 'q1', data: 'rewrite:shorter', from: { id: 456, language_code: 'it' }, message: { message_id: 20, chat: { id: 123, type: 'supergroup' } } } },
+      api: {
+        getChatMember: vi.fn().mockResolvedValue({ status: 'member' }),
+        sendMessage: vi.fn().mockResolvedValue(undefined),
+        editMessageText: vi.fn().mockResolvedValue(true),
+      },
+      reply: vi.fn().mockResolvedValue(undefined),
+      answerCallbackQuery: vi.fn().mockResolvedValue(undefined),
+    };
+  });
+
+  it('should rewrite the summary in place from the messages it covers', async () => {
+    await onCallbackQuery(mockCtx);
+    expect(enqueueJob).toHaveBeenCalledWith('rewrite', { chatId: '123', messageId: 20, mode: 'shorter', forum: false, multipart: false, language: undefined });
+    await runJobs(mockCtx.api);
+
+    expect(mockCtx.answerCallbackQuery).toHaveBeenCalled();
+    expect(dataUtils.getSummaryByMessage).toHaveBeenCalledWith('123', 20);
+    expect(dataUtils.getHistory).toHaveBeenCalledWith('123', { afterId: 6, untilId: 9, threadId: undefined });
+    expect((generate as Mock).mock.calls[0][0][0].content).toContain('much shorter than usual');
+    expect(mockCtx.api.editMessageText).toHaveBeenCalledWith('123', 20, 'Mocked summary response', summaryButtons);
+    expect(dataUtils.updateSummary).toHaveBeenCalledWith(3, 'Mocked summary response');
+  });
+
+  it('should translate the summary to the language of the user', async () => {
+    mockCtx.update.callback_query.data = 'rewrite:translate';
+
+    await onCallbackQuery(mockCtx);
+    await runJobs(mockCtx.api);
+
+    expect(enqueueJob).toHaveBeenCalledWith('rewrite', expect.objectContaining({ mode: 'translate', language: 'Italian' }));
+    expect((generate as Mock).mock.calls[0][0]).toContainEqual(expect.objectContaining({ content: expect.stringContaining('Reply in Italian.') }));
+  });
+
+  it('should regenerate a forum summary with a section per topic', async () => {
+    mockCtx.update.callback_query.data = 'rewrite:regenerate:forum';
+    (dataUtils.getHistory as Mock).mockReturnValue([{ id: 7, author: '@user1', message: 'Hello' }, { id: 9, author: '@user2', message: 'Ship it', threadId: 42 }]);
+    (dataUtils.getTopicNames as Mock).mockReturnValue({ 42: 'Releases' });
+
+    await onCallbackQuery(mockCtx);
+    await runJobs(mockCtx.api);
+
+    expect(generate).toHaveBeenCalledTimes(2);
+    expect(mockCtx.api.editMessageText).toHaveBeenCalledWith('123', 20, 'General\nMocked summary response\n\nReleases\nMocked summary response', summaryButtons);
+  });
+
+  it('should ignore a regenerated summary identical to the current one', async () => {
+    mockCtx.update.callback_query.data = 'rewrite:regenerate';
+    mockCtx.api.editMessageText.mockRejectedValue(new GrammyError(
+      'Call to \'editMessageText\' failed!',
+      { ok: false, error_code: 400, description: 'Bad Request: message is not modified' },
+      'editMessageText',
+      {}
+    ));
+
+    await onCallbackQuery(mockCtx);
+    await expect(runJobs(mockCtx.api)).resolves.toBeUndefined();
+  });
+
+  it('should reply with the rewritten summary if it does not fit in the message', async () => {
+    mockCtx.update.callback_query.data = 'rewrite:longer';
+    (generate as Mock).mockResolvedValueOnce({ content: 'a'.repeat(3000) + '\n\n' + 'b'.repeat(3000) });
+
+    await onCallbackQuery(mockCtx);
+    await runJobs(mockCtx.api);
+
+    expect(mockCtx.api.editMessageText).not.toHaveBeenCalled();
+    expect(mockCtx.api.sendMessage).toHaveBeenCalledWith('123', 'a'.repeat(3000), { reply_to_message_id: 20 });
+    expect(dataUtils.updateSummary).not.toHaveBeenCalled();
+  });
+
+  it('should reply with the rewritten summary if the summary was sent in several messages', async () => {
+    mockCtx.update.callback_query.data = 'rewrite:shorter:multipart';
+
+    await onCallbackQuery(mockCtx);
+    await runJobs(mockCtx.api);
+
+    expect(enqueueJob).toHaveBeenCalledWith('rewrite', expect.objectContaining({ forum: false, multipart: true }));
+    expect(mockCtx.api.editMessageText).not.toHaveBeenCalled();
+    expect(mockCtx.api.sendMessage).toHaveBeenCalledWith('123', 'Mocked summary response', { reply_to_message_id: 20 });
+  });
+
+  it('should tell the user when the messages of the summary are no longer stored', async () => {
+    (dataUtils.getHistory as Mock).mockReturnValue([]);
+
+    await onCallbackQuery(mockCtx);
+
+    expect(enqueueJob).not.toHaveBeenCalled();
+    expect(mockCtx.reply).toHaveBeenCalledWith('I no longer have the messages of this summary, so I cannot rewrite it.');
+  });
+
+  it('should respect the admin-only setting of the chat', async () => {
+    (dataUtils.getChatSettings as Mock).mockReturnValue({ adminonly: 'on' });
+
+    await onCallbackQuery(mockCtx);
+
+    expect(enqueueJob).not.toHaveBeenCalled();
+    expect(mockCtx.reply).toHaveBeenCalledWith('Only the administrators of this chat can use the commands of the bot.');
+  });
+});
+
+describe('onMessageEdited', () => {
+  let mockCtx: any;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    delete process.env.WHITELISTED_CHATS;
+
+    mockCtx = {
+      update: {
+        edited_message: {
+          text: 'Hello world, edited',
+          chat: { id: 123 },
+          from: { id: 456, username: 'testuser' },
+          message_id: 1,
+        },
+      },
+    };
+  });
+
+  it('should throw error when chatId is not available', async () => {
+    mockCtx.update.edited_message.chat = undefined;
+    await expect(onMessageEdited(mockCtx)).rejects.toThrow('No Chat found.');
+  });
+
+  it('should update the stored message', async () => {
+    await onMessageEdited(mockCtx);
+    expect(dataUtils.editHistory).toHaveBeenCalledWith('123', 1, 'Hello world, edited');
+  });
+
+  it('should update the stored caption, keeping the text of the document', async () => {
+    mockCtx.update.edited_message.text = undefined;
+    mockCtx.update.edited_message.caption = 'New caption';
+    mockCtx.update.edited_message.document = { file_id: 'doc-file-id', file_name: 'notes.md', mime_type: 'text/markdown', file_size: 1600 };
+    await onMessageEdited(mockCtx);
+    // Without the text of the file, the stored one is kept after the new caption.
+    expect(dataUtils.editHistory).toHaveBeenCalledWith('123', 1, 'New caption');
+  });
+
+  it('should update the stored caption of a transcribed message, keeping its transcription', async () => {
+    mockCtx.update.edited_message.text = undefined;
+    mockCtx.update.edited_message.caption = 'Listen to this';
+    mockCtx.update.edited_message.voice = { file_id: 'voice-file-id', file_unique_id: 'voice-unique-id', duration: 5 };
+    await onMessageEdited(mockCtx);
+    expect(dataUtils.editHistory).toHaveBeenCalledWith('123', 1, 'Listen to this');
+    expect(transcribe).not.toHaveBeenCalled();
+  });
+
+  it('should ignore edits in chats that are not whitelisted', async () => {
+    process.env.WHITELISTED_CHATS = '999';
+    await onMessageEdited(mockCtx);
+    expect(dataUtils.editHistory).not.toHaveBeenCalled();
+  });
+});
+
+describe('onCronJob', () => {
+  let mockBot: any;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    (dataUtils.getChatSettings as Mock).mockReturnValue({});
+    (dataUtils.getChatSchedule as Mock).mockReturnValue(undefined);
+    (dataUtils.getLastSummary as Mock).mockReturnValue(undefined);
+    (dataUtils.getTopicNames as Mock).mockReturnValue({});
+    (dataUtils.getScheduledSummaries as Mock).mockReturnValue([]);
+    (dataUtils.getLastDigest as Mock).mockReturnValue(undefined);
+
+    mockBot = {
+      api: {
+        sendChatAction: vi.fn().mockResolvedValue(undefined),
+        sendMessage: vi.fn().mockResolvedValue(undefined),
+      },
+    };
+  });
+
+  it('should do nothing when no active chats', async () => {
+    (dataUtils.getActiveChats as Mock).mockReturnValue([]);
+    onCronJob();
+    await runJobs(mockBot.api);
+    expect(mockBot.api.sendMessage).not.toHaveBeenCalled();
+  });
+
+  it('should skip chats with no history', async () => {
+    (dataUtils.getActiveChats as Mock).mockReturnValue(['123']);
+    (dataUtils.getHistory as Mock).mockReturnValue([]);
+
+    onCronJob();
+    await runJobs(mockBot.api);
+
+    expect(mockBot.api.sendMessage).not.toHaveBeenCalled();
+  });
+
+  it('should skip chats with scheduled summaries disabled', async () => {
+    (dataUtils.getActiveChats as Mock).mockReturnValue(['123', '456']);
+    (dataUtils.getHistory as Mock).mockReturnValue([
+      { author: '@user1', message: 'Hello' },
+    ]);
+    (dataUtils.getChatSettings as Mock).mockImplementation((chatId: string) => chatId === '123' ? { autosummary: 'off' } : {});
+
+    onCronJob();
+    await runJobs(mockBot.api);
+
+    expect(mockBot.api.sendMessage).toHaveBeenCalledTimes(1);
+    expect(mockBot.api.sendMessage).toHaveBeenCalledWith('456', 'Mocked summary response', summaryButtons);
+  });
+
+  it('should skip chats without new messages since their last summary', async () => {
+    (dataUtils.getActiveChats as Mock).mockReturnValue(['123']);
+    (dataUtils.getHistory as Mock).mockReturnValue([
+      { id: 5, author: '@user1', message: 'Hello' },
+    ]);
+    (dataUtils.getLastSummary as Mock).mockReturnValue({ id: 1, summary: 'Previous summary', firstMessageId: 1, lastMessageId: 5, createdAt: 0 });
+
+    onCronJob();
+    await runJobs(mockBot.api);
+
+    expect(generate).not.toHaveBeenCalled();
+    expect(mockBot.api.sendMessage).not.toHaveBeenCalled();
+  });
+
+  it('should only summarize the new messages of incremental chats', async () => {
+    (dataUtils.getActiveChats as Mock).mockReturnValue(['123']);
+    (dataUtils.getChatSettings as Mock).mockReturnValue({ incremental: 'on' });
+    (dataUtils.getHistory as Mock).mockReturnValue([
+      { id: 6, author: '@user1', message: 'Hello' },
+    ]);
+    (dataUtils.getLastSummary as Mock).mockReturnValue({ id: 1, summary: 'Previous summary', firstMessageId: 1, lastMessageId: 5, createdAt: 0 });
+
+    onCronJob();
+    await runJobs(mockBot.api);
+
+    expect(dataUtils.getHistory).toHaveBeenCalledWith('123', { afterId: 5 });
+    expect(dataUtils.saveSummary).toHaveBeenCalledWith('123', 'Mocked summary response', 6, 6, undefined, undefined, true);
+    expect(mockBot.api.sendMessage).toHaveBeenCalledWith('123', 'Mocked summary response', summaryButtons);
+  });
+
+  it('should send a section per forum topic', async () => {
+    (dataUtils.getActiveChats as Mock).mockReturnValue(['123']);
+    (dataUtils.getHistory as Mock).mockReturnValue([
+      { id: 1, author: '@user1', message: 'Hello' },
+      { id: 2, author: '@user2', message: 'Release today?', threadId: 42 },
+      { id: 3, author: '@user1', message: 'Bug found', threadId: 77 },
+    ]);
+    (dataUtils.getTopicNames as Mock).mockReturnValue({ 42: 'Releases' });
+
+    onCronJob();
+    await runJobs(mockBot.api);
+
+    expect(generate).toHaveBeenCalledTimes(3);
+    expect(mockBot.api.sendMessage).toHaveBeenCalledWith('123', 'General\nMocked summary response\n\nReleases\nMocked summary response\n\nTopic 77\nMocked summary response', summaryButtons);
+    expect(dataUtils.saveSummary).toHaveBeenCalledWith('123', expect.stringContaining('Releases\nMocked summary response'), 1, 3, undefined, undefined, true);
+  });
+
+  it('should skip chats with a custom schedule', async () => {
+    (dataUtils.getActiveChats as Mock).mockReturnValue(['123', '456']);
+    (dataUtils.getHistory as Mock).mockReturnValue([
+      { author: '@user1', message: 'Hello' },
+    ]);
+    (dataUtils.getChatSchedule as Mock).mockImplementation((chatId: string) => chatId === '123' ? { chatId, schedule: '0 8 * * *', timezone: undefined } : undefined);
+
+    onCronJob();
+    await runJobs(mockBot.api);
+
+    expect(mockBot.api.sendMessage).toHaveBeenCalledTimes(1);
+    expect(mockBot.api.sendMessage).toHaveBeenCalledWith('456', 'Mocked summary response', summaryButtons);
+  });
+
+  it('should send structured summaries to chats that use them', async () => {
+    (dataUtils.getActiveChats as Mock).mockReturnValue(['123']);
+    (dataUtils.getChatSettings as Mock).mockReturnValue({ format: 'structured' });
+    (dataUtils.getHistory as Mock).mockReturnValue([
+      { id: 1, author: '@user1', message: 'Hello' },
+    ]);
+    (generate as Mock).mockResolvedValueOnce({ content: '{"open_questions": ["Who is there?"]}' });
+
+    onCronJob();
+    await runJobs(mockBot.api);
+
+    expect(mockBot.api.sendMessage).toHaveBeenCalledWith('123', '<b>Open questions</b>\n• Who is there?', { parse_mode: 'HTML', ...summaryButtons });
+  });
+
+  it('should keep scheduling the summaries after a failing chat', async () => {
+    (dataUtils.getActiveChats as Mock).mockReturnValue(['123', '456']);
+    (dataUtils.getChatSchedule as Mock).mockImplementation((chatId: string) => {
+      if (chatId === '123') throw new Error('Database is locked');
+      return undefined;
+    });
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    onCronJob();
+
+    expect(enqueueJob).toHaveBeenCalledTimes(1);
+    expect(enqueueJob).toHaveBeenCalledWith('scheduled-summary', { chatId: '456' });
+  });
+
+  it('should build the digests that are due from the scheduled summaries', async () => {
+    (dataUtils.getActiveChats as Mock).mockReturnValue(['123']);
+    (dataUtils.getChatSettings as Mock).mockReturnValue({ digest: 'week,month' });
+    (dataUtils.getHistory as Mock).mockReturnValue([
+      { id: 8, author: '@user1', message: 'Hello' },
+    ]);
+    // The first weekly digest is due a week after the first scheduled summary; the monthly one is not due yet.
+    const summaries = [
+      { id: 1, summary: 'Planning of the release', firstMessageId: 1, lastMessageId: 4, createdAt: Date.now() - 1000 * 60 * 60 * 24 * 8, threadId: undefined },
+      { id: 2, summary: 'Release postponed', firstMessageId: 5, lastMessageId: 8, createdAt: Date.now(), threadId: undefined },
+    ];
+    (dataUtils.getScheduledSummaries as Mock).mockReturnValue(summaries);
+
+    onCronJob();
+    await runJobs(mockBot.api);
+
+    expect(enqueueJob).toHaveBeenCalledWith('digest', { chatId: '123', level: 'week', scheduled: true });
+    expect(enqueueJob).not.toHaveBeenCalledWith('digest', expect.objectContaining({ level: 'month' }));
+    expect(dataUtils.getScheduledSummaries).toHaveBeenCalledWith('123', 0, expect.any(Number));
+    expect(mockBot.api.sendMessage).toHaveBeenCalledWith('123', expect.stringMatching(/^Weekly digest, .+\n\nMocked summary response$/));
+    expect(dataUtils.saveDigest).toHaveBeenCalledWith('123', 'week', 'Mocked summary response', summaries, expect.any(Number));
+  });
+
+  it('should start the next digest where the last one ended', async () => {
+    (dataUtils.getActiveChats as Mock).mockReturnValue(['123']);
+    (dataUtils.getChatSettings as Mock).mockReturnValue({ digest: 'week' });
+    (dataUtils.getHistory as Mock).mockReturnValue([
+      { id: 8, author: '@user1', message: 'Hello' },
+    ]);
+    const until = Date.now() - 1000 * 60 * 60 * 24 * 3;
+    (dataUtils.getLastDigest as Mock).mockReturnValue({ id: 1, level: 'week', summary: 'Digest', firstMessageId: 1, lastMessageId: 4, since: 0, until, createdAt: until });
+    (dataUtils.getScheduledSummaries as Mock).mockReturnValue([
+      { id: 2, summary: 'Release postponed', firstMessageId: 5, lastMessageId: 8, createdAt: Date.now(), threadId: undefined },
+    ]);
+
+    onCronJob();
+    await runJobs(mockBot.api);
+
+    expect(dataUtils.getScheduledSummaries).toHaveBeenCalledWith('123', until, expect.any(Number));
+    expect(enqueueJob).not.toHaveBeenCalledWith('digest', expect.anything());
+  });
+
+  it('should send summary to active chats with history', async () => {
+    (dataUtils.getActiveChats as Mock).mockReturnValue(['123', '456']);
+    (dataUtils.getHistory as Mock).mockReturnValue([
+      { author: '@user1', message: 'Hello' },
+    ]);
+
+    onCronJob();
+    await runJobs(mockBot.api);
+
+    expect(mockBot.api.sendChatAction).toHaveBeenCalledTimes(2);
+    expect(mockBot.api.sendMessage).toHaveBeenCalledTimes(2);
+    expect(mockBot.api.sendMessage).toHaveBeenCalledWith('123', 'Mocked summary response', summaryButtons);
+    expect(mockBot.api.sendMessage).toHaveBeenCalledWith('456', 'Mocked summary response', summaryButtons);
+  });
+});
+
+describe('onChatCronJob', () => {
+  let mockBot: any;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    (dataUtils.getChatSettings as Mock).mockReturnValue({});
+    (dataUtils.getLastSummary as Mock).mockReturnValue(undefined);
+
+    mockBot = {
+      api: {
+        sendChatAction: vi.fn().mockResolvedValue(undefined),
+        sendMessage: vi.fn().mockResolvedValue(undefined),
+      },
+    };
+  });
+
+  it('should send summary to the chat', async () => {
+    (dataUtils.getHistory as Mock).mockReturnValue([
+      { author: '@user1', message: 'Hello' },
+    ]);
+
+    onChatCronJob('123');
+    await runJobs(mockBot.api);
+
+    expect(mockBot.api.sendMessage).toHaveBeenCalledWith('123', 'Mocked summary response', summaryButtons);
+  });
+
+  it('should cover the messages since the last scheduled summary, whatever the schedule', async () => {
+    (dataUtils.getLastScheduledSummary as Mock).mockReturnValueOnce({ id: 1, summary: 'Last week', firstMessageId: 1, lastMessageId: 7, createdAt: 0, threadId: undefined });
+    (dataUtils.getHistory as Mock).mockReturnValue([{ id: 8, author: '@user1', message: 'Hello' }]);
+
+    onChatCronJob('123');
+    await runJobs(mockBot.api);
+
+    expect(dataUtils.getHistory).toHaveBeenCalledWith('123', { afterId: 7 });
+    expect(mockBot.api.sendMessage).toHaveBeenCalledWith('123', 'Mocked summary response', summaryButtons);
+  });
+
+  it('should skip the chat when it has no history', async () => {
+    (dataUtils.getHistory as Mock).mockReturnValue([]);
+
+    onChatCronJob('123');
+    await runJobs(mockBot.api);
+
+    expect(mockBot.api.sendMessage).not.toHaveBeenCalled();
+  });
+});
+
+describe('onRetentionJob', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    delete process.env.RETENTION_DAYS;
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should keep everything when no retention period is set', () => {
+    onRetentionJob();
+    expect(dataUtils.purgeHistory).not.toHaveBeenCalled();
+  });
+
+  it('should purge the data older than the retention period', () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(1000 * 60 * 60 * 24 * 100);
+    process.env.RETENTION_DAYS = '30';
+
+    onRetentionJob();
+
+    expect(dataUtils.purgeHistory).toHaveBeenCalledWith(1000 * 60 * 60 * 24 * 70, {});
+  });
+
+  it('should keep the scheduled summaries of the digests in progress', () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(1000 * 60 * 60 * 24 * 100);
+    process.env.RETENTION_DAYS = '3';
+    (dataUtils.getScheduledSummaryChats as Mock).mockReturnValueOnce(['123', '456']);
+    (dataUtils.getChatSettings as Mock).mockReturnValueOnce({ digest: 'week,month' }).mockReturnValueOnce({});
+    (dataUtils.getLastDigest as Mock).mockReturnValueOnce({ until: 1000 * 60 * 60 * 24 * 95 }).mockReturnValueOnce(undefined);
+
+    onRetentionJob();
+
+    // No monthly digest has been built yet: it needs every scheduled summary.
+    expect(dataUtils.purgeHistory).toHaveBeenCalledWith(1000 * 60 * 60 * 24 * 97, { '123': 0 });
+    expect(dataUtils.getLastDigest).toHaveBeenCalledWith('123', 'week');
+  });
+
+  it('should ignore an invalid retention period', () => {
+    process.env.RETENTION_DAYS = 'forever';
+    onRetentionJob();
+    expect(dataUtils.purgeHistory).not.toHaveBeenCalled();
   });
 });
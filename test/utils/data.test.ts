@@ -1,5 +1,9 @@
-import { describe, it, expect, afterEach, vi } from 'vitest';
-import { close, updateHistory, getHistory, getActiveChats } from '../../src/utils/data';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { DatabaseSync } from 'node:sqlite';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { close, updateHistory, getHistory, getActiveChats, getChatSettings, setChatSetting, getChatSchedules, getChatSchedule, setChatSchedule, saveSummary, getLastSummary, getLastScheduledSummary, getSummaryByMessage, updateSummary, getScheduledSummaries, saveDigest, getLastDigest, purgeHistory, deleteChatHistory, deleteUserHistory, searchHistory, editHistory, deleteMessages, getStoredHistory, getHistoryPeriod, getLastUserMessageId, getSummaries, recordUsage, getUsage, recordModelCall, getModelCalls, addJob, claimJobs, getNextJobTime, deleteJob, retryJob, releaseJobs, isOptedOut, setOptOut, saveChat, getKnownChats, saveTopic, getTopicNames, saveTranscription, getTranscription, checkDatabase, rekeyDatabase } from '../../src/utils/data';
 
 // Use an in-memory SQLite database so tests never touch the filesystem.
 // Closing it between tests gives each test a fresh, empty database.
@@ -20,8 +24,8 @@ describe('history', () => {
     updateHistory('123', '2', 'bob', 'Bob', 'Jones','How are you?');
 
     expect(getHistory('123')).toEqual([
-      { author:'@alice', message: 'Hello world' },
-      { author:'@bob', message: 'How are you?' },
+      { id: 1, author:'@alice', message: 'Hello world' },
+      { id: 2, author:'@bob', message: 'How are you?' },
     ]);
   });
 
@@ -29,13 +33,13 @@ describe('history', () => {
     updateHistory('123', '1', 'alice', 'Alice', 'Smith','Hello');
     updateHistory('456', '2', 'bob', 'Bob', 'Jones', 'Hi');
 
-    expect(getHistory('123')).toEqual([{ author:'@alice', message: 'Hello' }]);
+    expect(getHistory('123')).toEqual([{ id: 1, author:'@alice', message: 'Hello' }]);
   });
 
   it('should accept messages without user names', () => {
     updateHistory('123', '1', 'alice', undefined, undefined, 'Hello');
 
-    expect(getHistory('123')).toEqual([{ author:'@alice', message: 'Hello' }]);
+    expect(getHistory('123')).toEqual([{ id: 1, author:'@alice', message: 'Hello' }]);
   });
 
   it('should fall back to first name or user id when username is missing', () => {
@@ -43,15 +47,15 @@ describe('history', () => {
     updateHistory('123', '2', undefined, undefined, undefined, 'Hi');
 
     expect(getHistory('123')).toEqual([
-      { author:'Alice', message: 'Hello' },
-      { author:'2', message: 'Hi' },
+      { id: 1, author:'Alice', message: 'Hello' },
+      { id: 2, author:'2', message: 'Hi' },
     ]);
   });
 
   it('should preserve messages containing the ### separator', () => {
     updateHistory('123', '1', 'alice', 'Alice', 'Smith','a###b###c');
 
-    expect(getHistory('123')).toEqual([{ author:'@alice', message: 'a###b###c' }]);
+    expect(getHistory('123')).toEqual([{ id: 1, author:'@alice', message: 'a###b###c' }]);
   });
 
   it('should only return messages from the last 24 hours, without deleting older ones', () => {
@@ -63,11 +67,311 @@ describe('history', () => {
     vi.setSystemTime(now);
     updateHistory('123', '2', 'bob', 'Bob', 'Jones','Recent message');
 
-    expect(getHistory('123')).toEqual([{ author:'@bob', message: 'Recent message' }]);
+    expect(getHistory('123')).toEqual([{ id: 2, author:'@bob', message: 'Recent message' }]);
 
     // The old message is still stored: it is visible from within its own 24-hour window.
     vi.setSystemTime(now - 1000 * 60 * 60 * 24);
-    expect(getHistory('123')).toContainEqual({ author:'@alice', message: 'Old message' });
+    expect(getHistory('123')).toContainEqual({ id: 1, author:'@alice', message: 'Old message' });
+  });
+
+  it('should return messages within a time range', () => {
+    const now = Date.now();
+    vi.useFakeTimers();
+    vi.setSystemTime(now - 1000 * 60 * 60 * 30);
+    updateHistory('123', '1', 'alice', 'Alice', 'Smith', 'Old message');
+    vi.setSystemTime(now - 1000 * 60 * 60 * 20);
+    updateHistory('123', '2', 'bob', 'Bob', 'Jones', 'Middle message');
+    vi.setSystemTime(now);
+    updateHistory('123', '1', 'alice', 'Alice', 'Smith', 'Recent message');
+
+    // The range includes its start and excludes its end.
+    expect(getHistory('123', { since: now - 1000 * 60 * 60 * 48, until: now - 1000 * 60 * 60 * 20 })).toEqual([
+      { id: 1, author:'@alice', message: 'Old message' },
+    ]);
+    expect(getHistory('123', { since: now - 1000 * 60 * 60 * 20, until: now })).toEqual([
+      { id: 2, author:'@bob', message: 'Middle message' },
+    ]);
+    expect(getHistory('123', { since: now - 1000 * 60 * 60 * 20 })).toEqual([
+      { id: 2, author:'@bob', message: 'Middle message' },
+      { id: 3, author:'@alice', message: 'Recent message' },
+    ]);
+  });
+
+  it('should return the last N messages in chronological order', () => {
+    updateHistory('123', '1', 'alice', 'Alice', 'Smith', 'First');
+    updateHistory('123', '2', 'bob', 'Bob', 'Jones', 'Second');
+    updateHistory('456', '2', 'bob', 'Bob', 'Jones', 'Other chat');
+    updateHistory('123', '1', 'alice', 'Alice', 'Smith', 'Third');
+
+    expect(getHistory('123', { limit: 2 })).toEqual([
+      { id: 2, author:'@bob', message: 'Second' },
+      { id: 4, author:'@alice', message: 'Third' },
+    ]);
+  });
+
+  it('should link replies to the author of the replied message', () => {
+    updateHistory('123', '1', 'alice', 'Alice', 'Smith', 'Lunch?', 10);
+    updateHistory('123', '2', 'bob', 'Bob', 'Jones', 'Sure!', 11, 10);
+    updateHistory('123', '2', 'bob', 'Bob', 'Jones', 'Reply to an unknown message', 12, 5);
+    updateHistory('456', '3', 'carol', 'Carol', 'White', 'Same message id, other chat', 10);
+
+    expect(getHistory('123')).toEqual([
+      { id: 1, author:'@alice', message: 'Lunch?', replyTo: undefined },
+      { id: 2, author:'@bob', message: 'Sure!', replyTo: '@alice' },
+      { id: 3, author:'@bob', message: 'Reply to an unknown message', replyTo: undefined },
+    ]);
+  });
+
+  it('should update the text of an edited message', () => {
+    updateHistory('123', '1', 'alice', 'Alice', 'Smith', 'Meeting at 10', 10);
+    updateHistory('456', '1', 'alice', 'Alice', 'Smith', 'Meeting at 10', 10);
+
+    expect(editHistory('123', 10, 'Call postponed')).toBe(true);
+    expect(editHistory('123', 99, 'Unknown message')).toBe(false);
+
+    expect(getHistory('123')).toEqual([{ id: 1, author:'@alice', message: 'Call postponed' }]);
+    expect(getHistory('456')).toEqual([{ id: 2, author:'@alice', message: 'Meeting at 10' }]);
+    // The search index follows the edit.
+    expect(searchHistory('123', 'meeting', 10)).toEqual([]);
+    expect(searchHistory('123', 'postponed', 10).map(x => x.message)).toEqual(['Call postponed']);
+  });
+
+  it('should keep the text of the file of a message when its caption is edited', () => {
+    updateHistory('123', '1', 'alice', 'Alice', 'Smith', 'Minutes', 10, undefined, undefined, 'document');
+    expect(editHistory('123', 10, 'Minutes', 'Budget approved')).toBe(true);
+    expect(getHistory('123').map(x => x.message)).toEqual(['Minutes\n\nBudget approved']);
+
+    expect(editHistory('123', 10, 'Minutes of Monday')).toBe(true);
+    expect(getHistory('123').map(x => x.message)).toEqual(['Minutes of Monday\n\nBudget approved']);
+    expect(searchHistory('123', 'budget', 10).map(x => x.message)).toEqual(['Minutes of Monday\n\nBudget approved']);
+  });
+
+  it('should keep the transcription of a voice message when its caption is added', () => {
+    updateHistory('123', '1', 'alice', 'Alice', 'Smith', '[voice message]', 10, undefined, undefined, 'voice');
+    editHistory('123', 10, '', 'See you at noon');
+    expect(getHistory('123').map(x => x.message)).toEqual(['See you at noon']);
+
+    editHistory('123', 10, 'Plans');
+    expect(getHistory('123').map(x => x.message)).toEqual(['Plans\n\nSee you at noon']);
+  });
+
+  it('should delete messages by their Telegram ids', () => {
+    updateHistory('123', '1', 'alice', 'Alice', 'Smith', 'First', 10);
+    updateHistory('123', '2', 'bob', 'Bob', 'Jones', 'Second', 11);
+    updateHistory('123', '1', 'alice', 'Alice', 'Smith', 'Third', 12);
+
+    expect(deleteMessages('123', [10, 12, 99])).toBe(2);
+    expect(getHistory('123')).toEqual([{ id: 2, author:'@bob', message: 'Second' }]);
+  });
+
+  it('should return the messages after a given one', () => {
+    updateHistory('123', '1', 'alice', 'Alice', 'Smith', 'First');
+    updateHistory('456', '2', 'bob', 'Bob', 'Jones', 'Other chat');
+    updateHistory('123', '2', 'bob', 'Bob', 'Jones', 'Second');
+
+    expect(getHistory('123', { afterId: 1 })).toEqual([{ id: 3, author:'@bob', message: 'Second' }]);
+    expect(getHistory('123', { afterId: 3 })).toEqual([]);
+  });
+
+  it('should return the messages between two given ones', () => {
+    updateHistory('123', '1', 'alice', 'Alice', 'Smith', 'First');
+    updateHistory('123', '2', 'bob', 'Bob', 'Jones', 'Second');
+    updateHistory('123', '1', 'alice', 'Alice', 'Smith', 'Third');
+
+    expect(getHistory('123', { afterId: 0, untilId: 2 }).map(x => x.message)).toEqual(['First', 'Second']);
+  });
+
+  it('should not reuse the id of a deleted newest message', () => {
+    updateHistory('123', '1', 'alice', 'Alice', 'Smith', 'First', 10);
+    updateHistory('123', '2', 'bob', 'Bob', 'Jones', 'Second', 11);
+    deleteMessages('123', [11]);
+    updateHistory('123', '1', 'alice', 'Alice', 'Smith', 'Third', 12);
+
+    expect(getHistory('123', { afterId: 2 })).toEqual([{ id: 3, author:'@alice', message: 'Third' }]);
+  });
+});
+
+describe('older databases', () => {
+  let dir: string;
+  let dbPath: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'summarygram-'));
+    dbPath = path.join(dir, 'summarygram.sqlite');
+    process.env.SQLITE_PATH = dbPath;
+  });
+
+  afterEach(() => {
+    close();
+    process.env.SQLITE_PATH = ':memory:';
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should give the stored messages an id kept after deletes, and keep them searchable', () => {
+    const database = new DatabaseSync(dbPath);
+    database.exec(`
+      CREATE TABLE messages (
+        chat_id        TEXT    NOT NULL,
+        user_id        TEXT    NOT NULL,
+        username       TEXT,
+        user_firstname TEXT,
+        user_lastname  TEXT,
+        message        TEXT    NOT NULL,
+        created_at     INTEGER NOT NULL
+      );
+      INSERT INTO messages (rowid, chat_id, user_id, username, message, created_at) VALUES (5, '123', '1', 'alice', 'Lunch at noon?', ${Date.now()});
+      INSERT INTO messages (rowid, chat_id, user_id, username, message, created_at) VALUES (7, '123', '2', 'bob', 'Sure!', ${Date.now()});
+    `);
+    database.close();
+
+    expect(getHistory('123')).toEqual([
+      { id: 5, author: '@alice', message: 'Lunch at noon?' },
+      { id: 7, author: '@bob', message: 'Sure!' },
+    ]);
+    expect(searchHistory('123', 'lunch', 10).map(x => x.id)).toEqual([5]);
+
+    deleteUserHistory('2');
+    updateHistory('123', '1', 'alice', 'Alice', 'Smith', 'See you there');
+    expect(getHistory('123', { afterId: 5 }).map(x => x.id)).toEqual([8]);
+  });
+});
+
+describe('getStoredHistory', () => {
+  it('should return the Telegram id and time of the messages', () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2025-03-10T10:00:00Z'));
+    updateHistory('123', '1', 'alice', 'Alice', 'Smith', 'Hello', 10);
+    updateHistory('123', '2', 'bob', 'Bob', 'Jones', 'Hi', 11, 10);
+
+    expect(getStoredHistory('123', { since: 0 })).toEqual([
+      { id: 1, author: '@alice', message: 'Hello', replyTo: undefined, messageId: 10, createdAt: new Date('2025-03-10T10:00:00Z').getTime() },
+      { id: 2, author: '@bob', message: 'Hi', replyTo: '@alice', messageId: 11, createdAt: new Date('2025-03-10T10:00:00Z').getTime() },
+    ]);
+  });
+
+  it('should return the media attached to the messages', () => {
+    updateHistory('123', '1', 'alice', 'Alice', 'Smith', 'Transcribed voice message', 10, undefined, undefined, 'voice');
+    updateHistory('123', '2', 'bob', 'Bob', 'Jones', 'Hi', 11);
+
+    expect(getStoredHistory('123', { since: 0 }).map(x => x.media)).toEqual(['voice', undefined]);
+  });
+});
+
+describe('getLastUserMessageId', () => {
+  it('should return the last message of the user in the chat since the given time', () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2025-03-10T09:00:00Z'));
+    updateHistory('123', '1', 'alice', 'Alice', undefined, 'Old message');
+    vi.setSystemTime(new Date('2025-03-10T10:00:00Z'));
+    updateHistory('123', '1', 'alice', 'Alice', undefined, 'Hello');
+    updateHistory('123', '2', 'bob', 'Bob', undefined, 'Hi');
+    updateHistory('456', '1', 'alice', 'Alice', undefined, 'Other chat');
+
+    expect(getLastUserMessageId('123', '1', 0)).toBe(2);
+    expect(getLastUserMessageId('123', '1', new Date('2025-03-10T11:00:00Z').getTime())).toBeUndefined();
+    expect(getLastUserMessageId('123', '3', 0)).toBeUndefined();
+  });
+});
+
+describe('getHistoryPeriod', () => {
+  it('should return the time of the first and last message of a portion of the history', () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2025-03-10T09:30:00Z'));
+    updateHistory('123', '1', 'alice', 'Alice', 'Smith', 'Hello');
+    updateHistory('456', '2', 'bob', 'Bob', 'Jones', 'Other chat');
+    vi.setSystemTime(new Date('2025-03-10T18:00:00Z'));
+    updateHistory('123', '2', 'bob', 'Bob', 'Jones', 'Hi');
+
+    expect(getHistoryPeriod('123', 1, 3)).toEqual({ since: new Date('2025-03-10T09:30:00Z').getTime(), until: new Date('2025-03-10T18:00:00Z').getTime() });
+    expect(getHistoryPeriod('123', 4, 5)).toBeUndefined();
+  });
+});
+
+describe('retention', () => {
+  it('should purge messages, summaries, digests and transcriptions older than the given time', () => {
+    const now = Date.now();
+    vi.useFakeTimers();
+    vi.setSystemTime(now - 1000 * 60 * 60 * 24 * 40);
+    updateHistory('123', '1', 'alice', 'Alice', 'Smith', 'Old message');
+    saveSummary('123', 'Old summary', 1, 1, undefined, undefined, true);
+    saveDigest('123', 'week', 'Old digest', getScheduledSummaries('123', 0, Date.now()), Date.now());
+    saveTranscription('old-file', 'Old transcription', '123', '1');
+    vi.setSystemTime(now);
+    updateHistory('123', '2', 'bob', 'Bob', 'Jones', 'Recent message');
+    saveTranscription('recent-file', 'Recent transcription', '123', '1');
+
+    expect(purgeHistory(now - 1000 * 60 * 60 * 24 * 30)).toBe(1);
+    expect(getHistory('123', { limit: 10 })).toEqual([{ id: 2, author:'@bob', message: 'Recent message' }]);
+    expect(getLastSummary('123')).toBeUndefined();
+    expect(getLastDigest('123', 'week')).toBeUndefined();
+    expect(getTranscription('old-file')).toBeUndefined();
+    expect(getTranscription('recent-file')).toBe('Recent transcription');
+  });
+
+  it('should keep the scheduled summaries and the last digests that the digests in progress need', () => {
+    const now = Date.now();
+    const day = 1000 * 60 * 60 * 24;
+    vi.useFakeTimers();
+    vi.setSystemTime(now - 20 * day);
+    saveSummary('123', 'Digested summary', 1, 1, undefined, undefined, true);
+    saveSummary('456', 'Other chat summary', 2, 2, undefined, undefined, true);
+    saveDigest('123', 'week', 'Old digest', getScheduledSummaries('123', 0, Date.now()), Date.now());
+    vi.setSystemTime(now - 10 * day);
+    saveSummary('123', 'Summary of the week in progress', 3, 3, undefined, undefined, true);
+    saveSummary('123', 'Requested summary', 4, 4);
+    vi.setSystemTime(now);
+
+    purgeHistory(now - 3 * day, { '123': now - 20 * day });
+    expect(getScheduledSummaries('123', 0, now).map(x => x.summary)).toEqual(['Summary of the week in progress']);
+    expect(getScheduledSummaries('456', 0, now)).toEqual([]);
+    expect(getLastSummary('123')?.summary).toBe('Summary of the week in progress');
+    expect(getLastDigest('123', 'week')?.summary).toBe('Old digest');
+
+    // Once the chat builds no digests, the rest is purged too.
+    purgeHistory(now - 3 * day);
+    expect(getScheduledSummaries('123', 0, now)).toEqual([]);
+    expect(getLastDigest('123', 'week')).toBeUndefined();
+  });
+
+  it('should delete the whole history of a chat only', () => {
+    updateHistory('123', '1', 'alice', 'Alice', 'Smith', 'Hello');
+    updateHistory('123', '2', 'bob', 'Bob', 'Jones', 'Hi');
+    updateHistory('456', '1', 'alice', 'Alice', 'Smith', 'Other chat');
+    saveSummary('123', 'Summary', 1, 2);
+    saveSummary('456', 'Other summary', 3, 3);
+    saveTranscription('file-1', 'Hello', '123', '1');
+    saveTranscription('file-2', 'Other chat', '456', '1');
+
+    expect(deleteChatHistory('123')).toBe(2);
+    expect(getHistory('123')).toEqual([]);
+    expect(getLastSummary('123')).toBeUndefined();
+    expect(getTranscription('file-1')).toBeUndefined();
+    expect(getHistory('456')).toHaveLength(1);
+    expect(getLastSummary('456')?.summary).toBe('Other summary');
+    expect(getTranscription('file-2')).toBe('Other chat');
+  });
+
+  it('should delete the messages of a user in every chat, with the summaries covering them', () => {
+    updateHistory('123', '1', 'alice', 'Alice', 'Smith', 'Hello');
+    updateHistory('123', '2', 'bob', 'Bob', 'Jones', 'Hi');
+    updateHistory('456', '1', 'alice', 'Alice', 'Smith', 'Other chat');
+    updateHistory('123', '2', 'bob', 'Bob', 'Jones', 'Bye');
+    saveSummary('123', 'Summary with Alice', 1, 2);
+    saveSummary('123', 'Summary without Alice', 4, 4);
+    saveSummary('456', 'Other summary with Alice', 3, 3);
+    saveTranscription('file-1', 'Hello', '456', '1');
+    saveTranscription('file-2', 'Bye', '123', '2');
+
+    expect(deleteUserHistory('1')).toBe(2);
+    expect(getHistory('123')).toEqual([
+      { id: 2, author:'@bob', message: 'Hi' },
+      { id: 4, author:'@bob', message: 'Bye' },
+    ]);
+    expect(getHistory('456')).toEqual([]);
+    expect(getLastSummary('123')?.summary).toBe('Summary without Alice');
+    expect(getLastSummary('456')).toBeUndefined();
+    expect(getTranscription('file-1')).toBeUndefined();
+    expect(getTranscription('file-2')).toBe('Bye');
   });
 });
 
@@ -94,3 +398,532 @@ describe('getActiveChats', () => {
     expect(getActiveChats()).toEqual(['456']);
   });
 });
+
+describe('searchHistory', () => {
+  it('should find messages by words, prefixes and stems', () => {
+    updateHistory('123', '1', 'alice', 'Alice', 'Smith', 'We decided to use Postgres for the release', 10);
+    updateHistory('123', '2', 'bob', 'Bob', 'Jones', 'Pizza tonight?', 11);
+    updateHistory('123', '1', 'alice', 'Alice', 'Smith', 'The releases are on Friday', 12);
+
+    const results = searchHistory('123', 'What did we decide about the release?', 10);
+
+    expect(results.map(x => x.message).sort()).toEqual(['The releases are on Friday', 'We decided to use Postgres for the release']);
+    expect(results.find(x => x.id === 1)).toEqual({
+      id: 1,
+      author: '@alice',
+      message: 'We decided to use Postgres for the release',
+      messageId: 10,
+      createdAt: expect.any(Number),
+    });
+  });
+
+  it('should rank the most relevant messages first and respect the limit', () => {
+    updateHistory('123', '1', 'alice', 'Alice', 'Smith', 'Postgres or MySQL?');
+    updateHistory('123', '2', 'bob', 'Bob', 'Jones', 'Postgres migration done, Postgres is live');
+    updateHistory('123', '2', 'bob', 'Bob', 'Jones', 'Lunch?');
+
+    const results = searchHistory('123', 'postgres migration', 1);
+
+    expect(results).toHaveLength(1);
+    expect(results[0].id).toBe(2);
+    expect(results[0].messageId).toBeUndefined();
+  });
+
+  it('should only search the given chat', () => {
+    updateHistory('456', '1', 'alice', 'Alice', 'Smith', 'Postgres in another chat');
+
+    expect(searchHistory('123', 'postgres', 10)).toEqual([]);
+  });
+
+  it('should treat search operators as plain words and ignore short words', () => {
+    updateHistory('123', '1', 'alice', 'Alice', 'Smith', 'NOT a problem');
+
+    expect(searchHistory('123', 'is it "NOT" a problem*', 10)).toHaveLength(1);
+    expect(searchHistory('123', 'a b', 10)).toEqual([]);
+  });
+
+  it('should not find deleted messages', () => {
+    updateHistory('123', '1', 'alice', 'Alice', 'Smith', 'Postgres');
+    deleteChatHistory('123');
+
+    expect(searchHistory('123', 'postgres', 10)).toEqual([]);
+  });
+});
+
+describe('summaries', () => {
+  it('should return no summary for an unknown chat', () => {
+    expect(getLastSummary('unknown')).toBeUndefined();
+  });
+
+  it('should return the summary covering the most recent messages', () => {
+    saveSummary('123', 'Summary of 1-5', 1, 5);
+    saveSummary('123', 'Summary of 6-9', 6, 9);
+    saveSummary('123', 'Summary of yesterday', 2, 4);
+    saveSummary('456', 'Other chat', 10, 12);
+
+    expect(getLastSummary('123')).toEqual({
+      id: 2,
+      summary: 'Summary of 6-9',
+      firstMessageId: 6,
+      lastMessageId: 9,
+      createdAt: expect.any(Number),
+    });
+  });
+
+  it('should return the summaries covering a range of messages', () => {
+    saveSummary('123', 'Summary of 1-5', 1, 5);
+    saveSummary('123', 'Summary of 6-9', 6, 9);
+    saveSummary('123', 'Summary of 10-12', 10, 12);
+    saveSummary('456', 'Other chat', 1, 12);
+
+    expect(getSummaries('123', 5, 9).map(x => x.summary)).toEqual(['Summary of 1-5', 'Summary of 6-9']);
+  });
+
+  it('should keep the summaries of forum topics separate from the summaries of the chat', () => {
+    saveSummary('123', 'Whole chat', 1, 5);
+    saveSummary('123', 'Releases topic', 6, 9, 42);
+
+    expect(getLastSummary('123')?.summary).toBe('Whole chat');
+    expect(getLastSummary('123', 42)?.summary).toBe('Releases topic');
+    expect(getLastSummary('123', 77)).toBeUndefined();
+  });
+
+  it('should find and update the summary shown by a message', () => {
+    saveSummary('123', 'Releases topic', 6, 9, 42, 100);
+    saveSummary('123', 'Not sent', 10, 12);
+
+    expect(getSummaryByMessage('123', 100)).toEqual({ id: 1, summary: 'Releases topic', firstMessageId: 6, lastMessageId: 9, createdAt: expect.any(Number), threadId: 42 });
+    expect(getSummaryByMessage('456', 100)).toBeUndefined();
+
+    updateSummary(1, 'Shorter summary');
+    expect(getSummaryByMessage('123', 100)?.summary).toBe('Shorter summary');
+  });
+
+  it('should return the scheduled summaries created in a period', () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(1000);
+    saveSummary('123', 'Monday', 1, 5, undefined, undefined, true);
+    vi.setSystemTime(2000);
+    saveSummary('123', 'Requested', 6, 7);
+    saveSummary('123', 'Tuesday', 6, 9, undefined, undefined, true);
+    saveSummary('456', 'Other chat', 10, 12, undefined, undefined, true);
+    vi.setSystemTime(3000);
+    saveSummary('123', 'Wednesday', 10, 12, undefined, undefined, true);
+
+    expect(getScheduledSummaries('123', 0, 2000).map(x => x.summary)).toEqual(['Monday', 'Tuesday']);
+    expect(getScheduledSummaries('123', 1000, 3000).map(x => x.summary)).toEqual(['Tuesday', 'Wednesday']);
+  });
+
+  it('should return the last scheduled summary, ignoring the requested ones', () => {
+    expect(getLastScheduledSummary('123')).toBeUndefined();
+    saveSummary('123', 'Monday', 1, 5, undefined, undefined, true);
+    saveSummary('123', 'Requested', 6, 7);
+
+    expect(getLastScheduledSummary('123')).toMatchObject({ summary: 'Monday', lastMessageId: 5 });
+    expect(getLastScheduledSummary('456')).toBeUndefined();
+  });
+});
+
+describe('digests', () => {
+  it('should return the last digest of each period', () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(1000);
+    saveSummary('123', 'Monday', 1, 5, undefined, undefined, true);
+    vi.setSystemTime(2000);
+    saveSummary('123', 'Tuesday', 6, 9, undefined, undefined, true);
+    const summaries = getScheduledSummaries('123', 0, 2000);
+    saveDigest('123', 'week', 'First week', summaries.slice(0, 1), 1500);
+    saveDigest('123', 'week', 'Second week', summaries.slice(1), 2500);
+
+    expect(getLastDigest('123', 'week')).toEqual({ id: 2, level: 'week', summary: 'Second week', firstMessageId: 6, lastMessageId: 9, since: 2000, until: 2500, createdAt: 2000 });
+    expect(getLastDigest('123', 'month')).toBeUndefined();
+    expect(getLastDigest('456', 'week')).toBeUndefined();
+  });
+
+  it('should delete the digests covering the messages of a user, and the digests of a chat', () => {
+    updateHistory('123', '1', 'alice', 'Alice', 'Smith', 'Hello');
+    updateHistory('123', '2', 'bob', 'Bob', 'Jones', 'Hi');
+    updateHistory('456', '2', 'bob', 'Bob', 'Jones', 'Other chat');
+    saveSummary('123', 'Alice and Bob', 1, 2, undefined, undefined, true);
+    saveSummary('456', 'Bob', 3, 3, undefined, undefined, true);
+    saveDigest('123', 'week', 'Alice and Bob', getScheduledSummaries('123', 0, Date.now()), Date.now());
+    saveDigest('456', 'week', 'Bob', getScheduledSummaries('456', 0, Date.now()), Date.now());
+
+    deleteUserHistory('1');
+    expect(getLastDigest('123', 'week')).toBeUndefined();
+    expect(getLastDigest('456', 'week')?.summary).toBe('Bob');
+
+    deleteChatHistory('456');
+    expect(getLastDigest('456', 'week')).toBeUndefined();
+  });
+});
+
+describe('chat settings', () => {
+  it('should return no settings for an unknown chat', () => {
+    expect(getChatSettings('unknown')).toEqual({});
+  });
+
+  it('should store, overwrite and unset settings per chat', () => {
+    setChatSetting('123', 'tldr', '500');
+    setChatSetting('123', 'language', 'Italian');
+    setChatSetting('123', 'tldr', 'off');
+    setChatSetting('456', 'tldr', '200');
+
+    expect(getChatSettings('123')).toEqual({ tldr: 'off', language: 'Italian' });
+
+    setChatSetting('123', 'language', null);
+    expect(getChatSettings('123')).toEqual({ tldr: 'off' });
+    expect(getChatSettings('456')).toEqual({ tldr: '200' });
+  });
+});
+
+describe('known chats', () => {
+  it('should list the groups with stored messages by title, with their latest title', () => {
+    saveChat('123', 'Work');
+    saveChat('456', 'Book club');
+    saveChat('456', 'Book club 📚');
+    saveChat('789', 'No messages');
+    updateHistory('123', '1', 'alice', 'Alice', undefined, 'Hello');
+    updateHistory('456', '2', 'bob', 'Bob', undefined, 'Hi');
+
+    expect(getKnownChats()).toEqual([
+      { chatId: '456', title: 'Book club 📚' },
+      { chatId: '123', title: 'Work' },
+    ]);
+  });
+});
+
+describe('forum topics', () => {
+  it('should store the forum topic of the messages and filter the history by topic', () => {
+    updateHistory('123', '1', 'alice', 'Alice', undefined, 'Hello');
+    updateHistory('123', '2', 'bob', 'Bob', undefined, 'Release today?', 10, undefined, 42);
+    updateHistory('123', '1', 'alice', 'Alice', undefined, 'Found a bug', 11, undefined, 77);
+
+    expect(getHistory('123').map(x => x.threadId)).toEqual([undefined, 42, 77]);
+    expect(getHistory('123', { limit: 5, threadId: 42 })).toEqual([{ id: 2, author: '@bob', message: 'Release today?', threadId: 42 }]);
+    expect(getHistory('123', { afterId: 1, threadId: 77 }).map(x => x.message)).toEqual(['Found a bug']);
+  });
+
+  it('should store the latest name of the topics per chat, unless it may be outdated', () => {
+    saveTopic('123', 42, 'Releases');
+    saveTopic('123', 42, 'Releases 🚀');
+    saveTopic('123', 42, 'Releases', false);
+    saveTopic('123', 77, 'Bugs', false);
+    saveTopic('456', 42, 'Other chat');
+
+    expect(getTopicNames('123')).toEqual({ 42: 'Releases 🚀', 77: 'Bugs' });
+    expect(getTopicNames('789')).toEqual({});
+  });
+});
+
+describe('transcriptions', () => {
+  it('should store the transcriptions by unique file id, including empty ones', () => {
+    saveTranscription('file-1', 'Hello', '123', '1');
+    saveTranscription('file-2', '', '123', '1');
+
+    expect(getTranscription('file-1')).toBe('Hello');
+    expect(getTranscription('file-2')).toBe('');
+    expect(getTranscription('file-3')).toBeUndefined();
+  });
+});
+
+describe('chat schedules', () => {
+  it('should return no schedules when none is set', () => {
+    expect(getChatSchedules()).toEqual([]);
+    expect(getChatSchedule('123')).toBeUndefined();
+  });
+
+  it('should store, overwrite and remove schedules per chat', () => {
+    setChatSchedule('123', { schedule: '0 8 * * *', timezone: 'Europe/Rome' });
+    setChatSchedule('456', { schedule: '0 18 * * 5', timezone: undefined });
+    setChatSchedule('123', { schedule: '0 9 * * *', timezone: 'Europe/Rome' });
+
+    expect(getChatSchedule('123')).toEqual({ chatId: '123', schedule: '0 9 * * *', timezone: 'Europe/Rome' });
+    expect(getChatSchedules()).toHaveLength(2);
+
+    setChatSchedule('123', null);
+    expect(getChatSchedules()).toEqual([{ chatId: '456', schedule: '0 18 * * 5', timezone: undefined }]);
+  });
+});
+
+describe('usage', () => {
+  it('should return the recent uses of a chat', () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2025-03-10T10:00:00Z'));
+    recordUsage('123', '1', 'summary');
+    recordUsage('456', '1', 'summary');
+    vi.setSystemTime(new Date('2025-03-10T11:00:00Z'));
+    recordUsage('123', '2', 'tldr');
+
+    expect(getUsage('123', 0)).toEqual([
+      { userId: '1', action: 'summary', createdAt: new Date('2025-03-10T10:00:00Z').getTime() },
+      { userId: '2', action: 'tldr', createdAt: new Date('2025-03-10T11:00:00Z').getTime() },
+    ]);
+    expect(getUsage('123', new Date('2025-03-10T10:30:00Z').getTime())).toHaveLength(1);
+  });
+
+  it('should delete the uses older than a day', () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2025-03-10T10:00:00Z'));
+    recordUsage('123', '1', 'summary');
+    vi.setSystemTime(new Date('2025-03-11T11:00:00Z'));
+    recordUsage('123', '1', 'summary');
+
+    expect(getUsage('123', 0)).toHaveLength(1);
+  });
+
+  it('should delete the uses of a deleted chat or user', () => {
+    recordUsage('123', '1', 'summary');
+    recordUsage('456', '2', 'summary');
+    recordUsage('789', '3', 'summary');
+    deleteChatHistory('123');
+    deleteUserHistory('2');
+
+    expect(getUsage('123', 0)).toEqual([]);
+    expect(getUsage('456', 0)).toEqual([]);
+    expect(getUsage('789', 0)).toHaveLength(1);
+  });
+});
+
+describe('model calls', () => {
+  it('should return the calls of a chat in a time range', () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2025-03-10T10:00:00Z'));
+    recordModelCall('123', { kind: 'generate', purpose: 'summary', inputSize: 1200, durationMs: 2000, success: true });
+    recordModelCall('456', { kind: 'generate', purpose: 'tldr', inputSize: 500, durationMs: 800, success: true });
+    vi.setSystemTime(new Date('2025-03-11T10:00:00Z'));
+    recordModelCall('123', { kind: 'transcribe', purpose: 'transcription', inputSize: 64000, durationMs: 5000, success: false });
+
+    expect(getModelCalls('123', 0)).toEqual([
+      { kind: 'generate', purpose: 'summary', inputSize: 1200, durationMs: 2000, success: true, createdAt: new Date('2025-03-10T10:00:00Z').getTime() },
+      { kind: 'transcribe', purpose: 'transcription', inputSize: 64000, durationMs: 5000, success: false, createdAt: new Date('2025-03-11T10:00:00Z').getTime() },
+    ]);
+    expect(getModelCalls('123', 0, new Date('2025-03-11T00:00:00Z').getTime())).toHaveLength(1);
+  });
+
+  it('should delete the calls of a deleted chat or older than the retention', () => {
+    const call = { kind: 'generate', purpose: 'summary', inputSize: 10, durationMs: 10, success: true } as const;
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2025-03-01T10:00:00Z'));
+    recordModelCall('123', call);
+    vi.setSystemTime(new Date('2025-03-10T10:00:00Z'));
+    recordModelCall('123', call);
+    recordModelCall('456', call);
+
+    purgeHistory(new Date('2025-03-05T00:00:00Z').getTime());
+    deleteChatHistory('456');
+
+    expect(getModelCalls('123', 0)).toHaveLength(1);
+    expect(getModelCalls('456', 0)).toEqual([]);
+  });
+});
+
+describe('opt-outs', () => {
+  it('should opt a user out of a single chat', () => {
+    setOptOut('1', '123', true);
+
+    expect(isOptedOut('123', '1')).toBe(true);
+    expect(isOptedOut('456', '1')).toBe(false);
+    expect(isOptedOut('123', '2')).toBe(false);
+  });
+
+  it('should opt a user out of all chats', () => {
+    setOptOut('1', null, true);
+    setOptOut('1', null, true);
+
+    expect(isOptedOut('123', '1')).toBe(true);
+    expect(isOptedOut('456', '1')).toBe(true);
+  });
+
+  it('should opt a user back in', () => {
+    setOptOut('1', '123', true);
+    setOptOut('1', '456', true);
+    setOptOut('1', null, true);
+
+    setOptOut('1', '123', false);
+    expect(isOptedOut('123', '1')).toBe(true);
+
+    setOptOut('1', null, false);
+    expect(isOptedOut('123', '1')).toBe(false);
+    expect(isOptedOut('456', '1')).toBe(false);
+  });
+
+  it('should keep the opt-outs when the history is deleted', () => {
+    setOptOut('1', '123', true);
+    deleteUserHistory('1');
+    deleteChatHistory('123');
+
+    expect(isOptedOut('123', '1')).toBe(true);
+  });
+});
+
+describe('jobs', () => {
+  it('should claim the due jobs in order, once', () => {
+    const later = addJob('summary', '{"chatId":"1"}', 2000);
+    const first = addJob('tldr', '{"chatId":"2"}', 1000);
+    addJob('summary', '{"chatId":"3"}', 5000);
+
+    expect(claimJobs(3000, 10)).toEqual([
+      { id: first, type: 'tldr', payload: '{"chatId":"2"}', attempts: 0 },
+      { id: later, type: 'summary', payload: '{"chatId":"1"}', attempts: 0 },
+    ]);
+    expect(claimJobs(3000, 10)).toEqual([]);
+    expect(getNextJobTime()).toBe(5000);
+  });
+
+  it('should claim at most the given number of jobs', () => {
+    addJob('summary', '{}', 1000);
+    addJob('summary', '{}', 1000);
+
+    expect(claimJobs(1000, 1)).toHaveLength(1);
+    expect(claimJobs(1000, 1)).toHaveLength(1);
+  });
+
+  it('should schedule a failed job to run again', () => {
+    const id = addJob('summary', '{}', 1000);
+    claimJobs(1000, 1);
+    retryJob(id, 4000, 'Error: LLM down');
+
+    expect(claimJobs(3000, 1)).toEqual([]);
+    expect(claimJobs(4000, 1)).toEqual([{ id, type: 'summary', payload: '{}', attempts: 1 }]);
+  });
+
+  it('should release the running jobs and delete the done ones', () => {
+    const done = addJob('summary', '{}', 1000);
+    const interrupted = addJob('tldr', '{}', 1000);
+    claimJobs(1000, 2);
+    deleteJob(done);
+    releaseJobs();
+
+    expect(claimJobs(1000, 10)).toEqual([{ id: interrupted, type: 'tldr', payload: '{}', attempts: 0 }]);
+    deleteJob(interrupted);
+    expect(getNextJobTime()).toBeUndefined();
+  });
+});
+
+describe('encryption', () => {
+  const key = Buffer.alloc(32, 1);
+  const otherKey = Buffer.alloc(32, 2);
+  let dir: string;
+  let dbPath: string;
+
+  /**
+   * Read a column of the messages as stored in the database file.
+   */
+  function readStored(column: string): unknown[] {
+    const database = new DatabaseSync(dbPath);
+    try {
+      return database.prepare(`SELECT ${column} AS value FROM messages ORDER BY rowid`).all().map(row => row.value);
+    } finally {
+      database.close();
+    }
+  }
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'summarygram-'));
+    dbPath = path.join(dir, 'summarygram.sqlite');
+    process.env.SQLITE_PATH = dbPath;
+    process.env.ENCRYPTION_KEY = key.toString('base64');
+  });
+
+  afterEach(() => {
+    close();
+    process.env.SQLITE_PATH = ':memory:';
+    delete process.env.ENCRYPTION_KEY;
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should store the messages and names encrypted, and read them back', () => {
+    updateHistory('123', '1', 'alice', 'Alice', 'Smith', 'Lunch at noon?', 10);
+    updateHistory('123', '2', undefined, 'Bob', undefined, 'Sure!', 11, 10);
+    saveSummary('123', 'Alice and Bob agreed on lunch.', 1, 2);
+
+    expect(readStored('message').join()).not.toMatch(/Lunch|Sure/);
+    expect(readStored('username')).toEqual([expect.stringMatching(/^enc:/), null]);
+    expect(readStored('user_lastname')).toEqual([expect.stringMatching(/^enc:/), null]);
+    expect(getHistory('123')).toEqual([
+      { id: 1, author: '@alice', message: 'Lunch at noon?', replyTo: undefined },
+      { id: 2, author: 'Bob', message: 'Sure!', replyTo: '@alice' },
+    ]);
+    expect(getLastSummary('123')?.summary).toBe('Alice and Bob agreed on lunch.');
+  });
+
+  it('should search the encrypted messages without a full-text index', () => {
+    updateHistory('123', '1', 'alice', 'Alice', undefined, 'We decided to release on Friday');
+    updateHistory('123', '2', 'bob', 'Bob', undefined, 'The release notes are ready');
+    updateHistory('123', '3', 'carol', 'Carol', undefined, 'Lunch?');
+
+    expect(searchHistory('123', 'when do we release? decide', 10).map(x => x.id)).toEqual([1, 2]);
+    expect(searchHistory('123', 'release', 1).map(x => x.id)).toEqual([2]);
+  });
+
+  it('should refuse to open the database with the wrong key', () => {
+    updateHistory('123', '1', 'alice', 'Alice', undefined, 'Hello');
+    close();
+    process.env.ENCRYPTION_KEY = otherKey.toString('base64');
+
+    expect(() => checkDatabase()).toThrow('ENCRYPTION_KEY is not the key of the database.');
+    expect(() => getHistory('123')).toThrow('ENCRYPTION_KEY is not the key of the database.');
+  });
+
+  it('should refuse to open an encrypted database without the key', () => {
+    updateHistory('123', '1', 'alice', 'Alice', undefined, 'Hello');
+    close();
+    delete process.env.ENCRYPTION_KEY;
+
+    expect(() => checkDatabase()).toThrow('The database is encrypted: set ENCRYPTION_KEY to its key.');
+  });
+
+  it('should refuse to encrypt a database with plain text messages on the fly', () => {
+    delete process.env.ENCRYPTION_KEY;
+    updateHistory('123', '1', 'alice', 'Alice', undefined, 'Hello');
+    close();
+    process.env.ENCRYPTION_KEY = key.toString('base64');
+
+    expect(() => checkDatabase()).toThrow('The database is not encrypted');
+  });
+
+  it('should encrypt an existing database', () => {
+    delete process.env.ENCRYPTION_KEY;
+    updateHistory('123', '1', 'alice', 'Alice', undefined, 'Hello');
+    saveSummary('123', 'A greeting.', 1, 1, undefined, undefined, true);
+    saveDigest('123', 'week', 'A week of greetings.', getScheduledSummaries('123', 0, Date.now()), Date.now());
+    saveChat('123', 'Friends');
+    saveTopic('123', 42, 'Plans');
+    saveTranscription('file-1', 'See you at eight', '123', '1');
+
+    expect(rekeyDatabase(key)).toBe(1);
+    close();
+    process.env.ENCRYPTION_KEY = key.toString('base64');
+
+    expect(readStored('message')).toEqual([expect.stringMatching(/^enc:/)]);
+    expect(getHistory('123', { limit: 10 })).toEqual([{ id: 1, author: '@alice', message: 'Hello', replyTo: undefined }]);
+    expect(getLastSummary('123')?.summary).toBe('A greeting.');
+    expect(getLastDigest('123', 'week')?.summary).toBe('A week of greetings.');
+    expect(getKnownChats()).toEqual([{ chatId: '123', title: 'Friends' }]);
+    expect(getTopicNames('123')).toEqual({ 42: 'Plans' });
+    expect(getTranscription('file-1')).toBe('See you at eight');
+  });
+
+  it('should rotate the key', () => {
+    updateHistory('123', '1', 'alice', 'Alice', undefined, 'Hello');
+    rekeyDatabase(otherKey);
+    close();
+
+    expect(() => checkDatabase()).toThrow('ENCRYPTION_KEY is not the key of the database.');
+    process.env.ENCRYPTION_KEY = otherKey.toString('base64');
+    expect(getHistory('123', { limit: 10 })[0].message).toBe('Hello');
+  });
+
+  it('should decrypt the database and index its messages again', () => {
+    updateHistory('123', '1', 'alice', 'Alice', undefined, 'We release on Friday');
+    rekeyDatabase(undefined);
+    close();
+    delete process.env.ENCRYPTION_KEY;
+
+    expect(readStored('message')).toEqual(['We release on Friday']);
+    expect(readStored('username')).toEqual(['alice']);
+    expect(searchHistory('123', 'release', 10).map(x => x.id)).toEqual([1]);
+  });
+});
+
@@ -0,0 +1,67 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { close, saveSummary, saveDigest, getScheduledSummaries } from '../../src/utils/data';
+import { getDueDigest, getRecentDigest, getDigestTitle } from '../../src/utils/digest';
+
+// Use an in-memory SQLite database so tests never touch the filesystem.
+process.env.SQLITE_PATH = ':memory:';
+
+afterEach(() => {
+  vi.useRealTimers();
+  close();
+});
+
+/**
+ * Store a scheduled summary of a chat at a given time.
+ *
+ * @param chatId the id of the chat.
+ * @param summary the text of the summary.
+ * @param time the time of the summary, as an ISO date.
+ */
+function storeScheduledSummary(chatId: string, summary: string, time: string) {
+  vi.useFakeTimers();
+  vi.setSystemTime(new Date(time));
+  saveSummary(chatId, summary, 1, 1, undefined, undefined, true);
+}
+
+describe('getDueDigest', () => {
+  it('should be due a week after the first scheduled summary', () => {
+    storeScheduledSummary('123', 'Monday', '2025-03-03T23:59:00Z');
+    storeScheduledSummary('123', 'Tuesday', '2025-03-04T23:59:00Z');
+    saveSummary('123', 'Requested', 1, 1);
+
+    expect(getDueDigest('123', 'week', new Date('2025-03-10T23:58:00Z').getTime())).toBeUndefined();
+    const window = getDueDigest('123', 'week', new Date('2025-03-10T23:59:00Z').getTime());
+    expect(window?.summaries.map(x => x.summary)).toEqual(['Monday', 'Tuesday']);
+    expect(getDueDigest('456', 'week', new Date('2025-03-10T23:59:00Z').getTime())).toBeUndefined();
+  });
+
+  it('should start a calendar month after the end of the last digest', () => {
+    storeScheduledSummary('123', 'February', '2025-02-10T23:59:00Z');
+    saveDigest('123', 'month', 'Digest of February', getScheduledSummaries('123', 0, Date.now()), new Date('2025-02-15T00:00:00Z').getTime());
+    storeScheduledSummary('123', 'March', '2025-03-10T23:59:00Z');
+
+    expect(getDueDigest('123', 'month', new Date('2025-03-14T23:59:00Z').getTime())).toBeUndefined();
+    expect(getDueDigest('123', 'month', new Date('2025-03-15T00:00:00Z').getTime())?.summaries.map(x => x.summary)).toEqual(['March']);
+  });
+});
+
+describe('getRecentDigest', () => {
+  it('should cover the scheduled summaries of the last period', () => {
+    storeScheduledSummary('123', 'Last month', '2025-02-20T23:59:00Z');
+    storeScheduledSummary('123', 'Last week', '2025-03-08T23:59:00Z');
+    const now = new Date('2025-03-10T12:00:00Z').getTime();
+
+    expect(getRecentDigest('123', 'week', now)?.summaries.map(x => x.summary)).toEqual(['Last week']);
+    expect(getRecentDigest('123', 'month', now)?.summaries.map(x => x.summary)).toEqual(['Last month', 'Last week']);
+    expect(getRecentDigest('456', 'week', now)).toBeUndefined();
+  });
+});
+
+describe('getDigestTitle', () => {
+  it('should name the period of the digest', () => {
+    storeScheduledSummary('123', 'Monday', '2025-03-03T23:59:00Z');
+    const window = getDueDigest('123', 'week', new Date('2025-03-11T08:00:00Z').getTime())!;
+
+    expect(getDigestTitle('week', window)).toBe('Weekly digest, 2025-03-03 to 2025-03-11');
+  });
+});
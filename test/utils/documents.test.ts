@@ -0,0 +1,142 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import * as zlib from 'zlib';
+import { extractText, getDocumentKind, getMaxDocumentSize } from '../../src/utils/documents';
+
+/**
+ * Create a PDF document with the given streams.
+ *
+ * @param streams the dictionaries and the contents of the streams.
+ * @returns the document.
+ */
+function createPdf(streams: { dictionary: string, content: Buffer }[]): Buffer {
+  return Buffer.concat([
+    Buffer.from('%PDF-1.4\n'),
+    ...streams.flatMap(({ dictionary, content }, i) => [
+      Buffer.from(`${i + 1} 0 obj\n<< /Length ${content.length} ${dictionary} >>\nstream\n`, 'latin1'),
+      content,
+      Buffer.from('\nendstream\nendobj\n'),
+    ]),
+    Buffer.from('%%EOF\n'),
+  ]);
+}
+
+/**
+ * Create a ZIP archive with the given files, compressed with Deflate.
+ *
+ * @param files the contents of the files, by path.
+ * @returns the archive.
+ */
+function createZip(files: Record<string, string>): Buffer {
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+  for (const [name, content] of Object.entries(files)) {
+    const data = zlib.deflateRawSync(Buffer.from(content));
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(8, 8);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt16LE(name.length, 26);
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(8, 10);
+    central.writeUInt32LE(data.length, 20);
+    central.writeUInt16LE(name.length, 28);
+    central.writeUInt32LE(offset, 42);
+    locals.push(local, Buffer.from(name), data);
+    centrals.push(central, Buffer.from(name));
+    offset += local.length + name.length + data.length;
+  }
+  const directory = Buffer.concat(centrals);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(Object.keys(files).length, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+  return Buffer.concat([...locals, directory, end]);
+}
+
+afterEach(() => {
+  delete process.env.DOCUMENT_MAX_SIZE;
+});
+
+describe('getDocumentKind', () => {
+  it('should recognize the supported documents by MIME type or extension', () => {
+    expect(getDocumentKind('application/pdf', 'scan')).toBe('pdf');
+    expect(getDocumentKind('application/vnd.openxmlformats-officedocument.wordprocessingml.document', undefined)).toBe('docx');
+    expect(getDocumentKind('application/octet-stream', 'README.MD')).toBe('text');
+    expect(getDocumentKind(undefined, 'notes.txt')).toBe('text');
+  });
+
+  it('should not support other documents', () => {
+    expect(getDocumentKind('application/zip', 'archive.zip')).toBeUndefined();
+    expect(getDocumentKind(undefined, undefined)).toBeUndefined();
+  });
+});
+
+describe('getMaxDocumentSize', () => {
+  it('should read the size in megabytes from the environment', () => {
+    expect(getMaxDocumentSize()).toBe(5 * 1024 * 1024);
+    process.env.DOCUMENT_MAX_SIZE = '0.5';
+    expect(getMaxDocumentSize()).toBe(512 * 1024);
+    process.env.DOCUMENT_MAX_SIZE = '0';
+    expect(getMaxDocumentSize()).toBe(0);
+    process.env.DOCUMENT_MAX_SIZE = 'big';
+    expect(getMaxDocumentSize()).toBe(5 * 1024 * 1024);
+  });
+});
+
+describe('extractText', () => {
+  it('should extract the text drawn by the content streams of a PDF', async () => {
+    const pdf = createPdf([
+      { dictionary: '/Filter /FlateDecode', content: zlib.deflateSync('BT /F1 12 Tf 72 712 Td (Hello \\(world\\)) Tj 0 -14 Td [(Sum) -50 (mary) -300 (gram)] TJ ET') },
+      { dictionary: '', content: Buffer.from('BT <FEFF004300690061006F> Tj ET') },
+      { dictionary: '/Subtype /Image /Filter /DCTDecode', content: Buffer.from('BT (Not text) Tj ET') },
+      { dictionary: '/Length1 100 /Filter /FlateDecode', content: zlib.deflateSync('font program') },
+    ]);
+    expect(await extractText(pdf, 'pdf')).toBe('Hello (world)\nSummary gram\n\nCiao');
+  });
+
+  it('should not extract the text of a PDF drawn with composite fonts', async () => {
+    const content = { dictionary: '', content: Buffer.from('BT /F1 12 Tf [<0036>-20<0044>4<0050>-6<0053004F0048>] TJ ET') };
+    const font = '<< /Type /Font /Subtype /Type0 /BaseFont /Calibri /Encoding /Identity-H >>';
+    expect(await extractText(createPdf([{ dictionary: '', content: Buffer.from(font) }, content]), 'pdf')).toBe('');
+    const objects = { dictionary: '/Type /ObjStm /N 1 /First 5 /Filter /FlateDecode', content: zlib.deflateSync('4 0 ' + font) };
+    expect(await extractText(createPdf([objects, content]), 'pdf')).toBe('');
+  });
+
+  it('should extract the paragraphs of a DOCX document', async () => {
+    const docx = createZip({
+      '[Content_Types].xml': '<Types/>',
+      'word/document.xml': '<w:document><w:body>' +
+        '<w:p><w:pPr><w:tabs><w:tab w:val="left" w:pos="720"/></w:tabs></w:pPr><w:r><w:t>Minutes</w:t></w:r></w:p>' +
+        '<w:p><w:r><w:t xml:space="preserve">Budget: </w:t></w:r><w:r><w:t>10 &amp; 20</w:t><w:tab/><w:t>approved</w:t></w:r></w:p>' +
+        '</w:body></w:document>',
+    });
+    expect(await extractText(docx, 'docx')).toBe('Minutes\nBudget: 10 & 20 approved');
+  });
+
+  it('should read plain text and cut long documents', async () => {
+    expect(await extractText(Buffer.from('\uFEFF# Notes\r\n\r\n\r\n\r\n- one\u0000\n'), 'text')).toBe('# Notes\n\n- one');
+    const text = await extractText(Buffer.from('word '.repeat(10000)), 'text');
+    expect(text.length).toBeLessThan(20010);
+    expect(text.endsWith(' […]')).toBe(true);
+  });
+
+  it('should only decompress the beginning of documents that expand too much', async () => {
+    // A few kilobytes of compressed paragraphs expand to hundreds of megabytes.
+    const paragraph = '<w:p><w:r><w:t>All work and no play</w:t></w:r></w:p>';
+    const docx = createZip({ 'word/document.xml': '<w:document><w:body>' + paragraph.repeat(5_000_000) + '</w:body></w:document>' });
+    expect(docx.length).toBeLessThan(2 * 1024 * 1024);
+
+    const text = await extractText(docx, 'docx');
+    expect(text.startsWith('All work and no play\nAll work and no play')).toBe(true);
+    expect(text.length).toBeLessThan(20010);
+  });
+
+  it('should fail on documents that are not valid for their format', async () => {
+    await expect(extractText(Buffer.from('Hello'), 'pdf')).rejects.toThrow('not a PDF document');
+    await expect(extractText(Buffer.from('Hello'), 'docx')).rejects.toThrow('not a ZIP archive');
+    await expect(extractText(createZip({ 'content.xml': '<office/>' }), 'docx')).rejects.toThrow('not a DOCX document');
+  });
+});
@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import { parseKey, encrypt, decrypt } from '../../src/utils/encryption';
+
+const KEY = Buffer.alloc(32, 1);
+const OTHER_KEY = Buffer.alloc(32, 2);
+
+describe('parseKey', () => {
+  it('should accept a key in base64 or hex', () => {
+    expect(parseKey(KEY.toString('base64'))).toEqual(KEY);
+    expect(parseKey(KEY.toString('hex'))).toEqual(KEY);
+  });
+
+  it('should return undefined when no key is set', () => {
+    expect(parseKey(undefined)).toBeUndefined();
+    expect(parseKey('')).toBeUndefined();
+  });
+
+  it('should reject keys of the wrong length or encoding', () => {
+    expect(() => parseKey(Buffer.alloc(16).toString('base64'))).toThrow('ENCRYPTION_KEY must be 32 bytes encoded in base64 or hex');
+    expect(() => parseKey('not a key!')).toThrow('ENCRYPTION_KEY must be 32 bytes');
+    expect(() => parseKey('short', 'NEW_ENCRYPTION_KEY')).toThrow('NEW_ENCRYPTION_KEY must be 32 bytes');
+  });
+});
+
+describe('encrypt', () => {
+  it('should decrypt what it encrypts', () => {
+    const value = encrypt('Ciao, è ora di pranzo 🍝', KEY);
+
+    expect(value).not.toContain('pranzo');
+    expect(decrypt(value, KEY)).toBe('Ciao, è ora di pranzo 🍝');
+  });
+
+  it('should use a random IV', () => {
+    expect(encrypt('Hello', KEY)).not.toBe(encrypt('Hello', KEY));
+  });
+
+  it('should refuse to decrypt with the wrong key', () => {
+    expect(() => decrypt(encrypt('Hello', KEY), OTHER_KEY)).toThrow();
+  });
+
+  it('should refuse to decrypt a tampered value', () => {
+    const value = encrypt('Hello', KEY);
+    const tampered = value.slice(0, -2) + (value.at(-2) === 'A' ? 'B' : 'A') + value.at(-1);
+
+    expect(() => decrypt(tampered, KEY)).toThrow();
+  });
+
+  it('should refuse to decrypt plain text', () => {
+    expect(() => decrypt('Hello', KEY)).toThrow('The value is not encrypted.');
+  });
+});
@@ -0,0 +1,121 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { close, updateHistory, saveSummary } from '../../src/utils/data';
+import { parseExportArgs, exportHistory } from '../../src/utils/export';
+
+// Use an in-memory SQLite database so tests never touch the filesystem.
+process.env.SQLITE_PATH = ':memory:';
+
+const HOUR = 1000 * 60 * 60;
+
+afterEach(() => {
+  vi.useRealTimers();
+  close();
+});
+
+/**
+ * Store a small conversation with a summary, at a fixed time.
+ */
+function storeConversation() {
+  vi.useFakeTimers();
+  vi.setSystemTime(new Date('2025-03-10T10:00:00Z'));
+  updateHistory('123', '1', 'alice', 'Alice', 'Smith', 'Hello, "world"', 10);
+  vi.setSystemTime(new Date('2025-03-10T10:05:00Z'));
+  updateHistory('123', '2', undefined, 'Bob', undefined, 'Hi\nthere', 11, 10);
+  updateHistory('456', '3', 'carol', 'Carol', undefined, 'Other chat', 12);
+  saveSummary('123', 'Alice greeted Bob.', 1, 2);
+}
+
+describe('parseExportArgs', () => {
+  const now = new Date(2025, 2, 10, 15, 30).getTime();
+
+  it('should export the whole history as JSON by default', () => {
+    expect(parseExportArgs('', now)).toEqual({ range: { since: 0 }, format: 'json', extension: 'json' });
+  });
+
+  it('should accept a range and a format in any order', () => {
+    expect(parseExportArgs('csv 3h', now)).toEqual({ range: { since: now - 3 * HOUR }, format: 'csv', extension: 'csv' });
+    expect(parseExportArgs('200 MD', now)).toEqual({ range: { limit: 200 }, format: 'markdown', extension: 'md' });
+  });
+
+  it('should reject invalid arguments', () => {
+    expect(() => parseExportArgs('json csv', now)).toThrow('single format');
+    expect(() => parseExportArgs('pdf', now)).toThrow('Unknown argument "pdf"');
+  });
+});
+
+describe('exportHistory', () => {
+  it('should return undefined when there are no messages in the range', () => {
+    storeConversation();
+    expect(exportHistory('123', { since: Date.now() + HOUR }, 'json')).toBeUndefined();
+  });
+
+  it('should export messages and summaries as JSON', () => {
+    storeConversation();
+
+    expect(JSON.parse(exportHistory('123', { since: 0 }, 'json')!)).toEqual({
+      chatId: '123',
+      messages: [
+        { id: 1, author: '@alice', timestamp: '2025-03-10T10:00:00.000Z', text: 'Hello, "world"', replyTo: null },
+        { id: 2, author: 'Bob', timestamp: '2025-03-10T10:05:00.000Z', text: 'Hi\nthere', replyTo: '@alice' },
+      ],
+      summaries: [
+        { id: 1, timestamp: '2025-03-10T10:05:00.000Z', firstMessageId: 1, lastMessageId: 2, summary: 'Alice greeted Bob.' },
+      ],
+    });
+  });
+
+  it('should export messages and summaries as CSV, quoting fields when needed', () => {
+    storeConversation();
+
+    expect(exportHistory('123', { since: 0 }, 'csv')).toBe([
+      'type,id,timestamp,author,text',
+      'message,1,2025-03-10T10:00:00.000Z,\'@alice,"Hello, ""world"""',
+      'message,2,2025-03-10T10:05:00.000Z,Bob,"Hi\nthere"',
+      'summary,1,2025-03-10T10:05:00.000Z,,Alice greeted Bob.',
+      '',
+    ].join('\r\n'));
+  });
+
+  it('should prefix the CSV fields that spreadsheets would run as formulas', () => {
+    updateHistory('123', '1', undefined, 'Alice', undefined, '=HYPERLINK("http://example.com")');
+    updateHistory('123', '1', undefined, 'Alice', undefined, '+1, -1');
+    updateHistory('123', '1', undefined, 'Alice', undefined, '-5 degrees');
+
+    const rows = exportHistory('123', { since: 0 }, 'csv')?.split('\r\n').slice(1, -1);
+    expect(rows?.map(x => x.slice(x.indexOf('Alice,') + 6))).toEqual([
+      '"\'=HYPERLINK(""http://example.com"")"',
+      '"\'+1, -1"',
+      '\'-5 degrees',
+    ]);
+  });
+
+  it('should export messages and summaries as Markdown', () => {
+    storeConversation();
+
+    expect(exportHistory('123', { since: 0 }, 'markdown')).toBe([
+      '# Chat 123',
+      '',
+      '## Messages',
+      '',
+      '- **@alice** (2025-03-10T10:00:00.000Z): Hello, "world"',
+      '- **Bob** (2025-03-10T10:05:00.000Z) replying to @alice: Hi',
+      '  there',
+      '',
+      '## Summaries',
+      '',
+      '### 2025-03-10T10:05:00.000Z',
+      '',
+      'Alice greeted Bob.',
+      '',
+    ].join('\n'));
+  });
+
+  it('should only export the messages in the range, with the summaries covering them', () => {
+    storeConversation();
+    saveSummary('123', 'Older summary', 0, 0);
+
+    const exported = JSON.parse(exportHistory('123', { limit: 1 }, 'json')!);
+    expect(exported.messages.map((x: { id: number }) => x.id)).toEqual([2]);
+    expect(exported.summaries.map((x: { summary: string }) => x.summary)).toEqual(['Alice greeted Bob.']);
+  });
+});
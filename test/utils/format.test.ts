@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import { escapeHtml, parseStructuredSummary, renderStructuredSummaryHtml, renderStructuredSummaryText } from '../../src/utils/format';
+
+describe('escapeHtml', () => {
+  it('should escape the characters reserved by Telegram HTML', () => {
+    expect(escapeHtml('a < b && c > d')).toBe('a &lt; b &amp;&amp; c &gt; d');
+  });
+});
+
+describe('parseStructuredSummary', () => {
+  it('should parse a complete structured summary', () => {
+    expect(parseStructuredSummary('{"topics": ["Release"], "decisions": ["Ship on Friday"], "action_items": [{"task": "Tag it", "owner": "@bob"}, {"task": "Write notes", "owner": null}], "open_questions": ["Who tests?"]}')).toEqual({
+      topics: ['Release'],
+      decisions: ['Ship on Friday'],
+      actionItems: [{ task: 'Tag it', owner: '@bob' }, { task: 'Write notes', owner: undefined }],
+      openQuestions: ['Who tests?'],
+    });
+  });
+
+  it('should accept JSON wrapped in a code block and missing sections', () => {
+    expect(parseStructuredSummary('Here it is:\n```json\n{"topics": ["Release"]}\n```')).toEqual({
+      topics: ['Release'],
+      decisions: [],
+      actionItems: [],
+      openQuestions: [],
+    });
+  });
+
+  it('should reject text that is not JSON', () => {
+    expect(parseStructuredSummary('The chat talked about the release.')).toBeUndefined();
+    expect(parseStructuredSummary('{topics: Release}')).toBeUndefined();
+  });
+
+  it('should reject sections with an unexpected shape', () => {
+    expect(parseStructuredSummary('{"topics": "Release"}')).toBeUndefined();
+    expect(parseStructuredSummary('{"action_items": ["Tag it"]}')).toBeUndefined();
+    expect(parseStructuredSummary('{"action_items": [{"task": "Tag it", "owner": 1}]}')).toBeUndefined();
+  });
+
+  it('should reject an empty summary', () => {
+    expect(parseStructuredSummary('{"topics": [], "decisions": []}')).toBeUndefined();
+  });
+});
+
+describe('renderStructuredSummaryHtml', () => {
+  it('should render the non-empty sections as escaped bullet lists', () => {
+    expect(renderStructuredSummaryHtml({
+      topics: ['A & B'],
+      decisions: [],
+      actionItems: [{ task: 'Fix <it>', owner: '@bob' }],
+      openQuestions: [],
+    })).toBe('<b>Topics</b>\n• A &amp; B\n\n<b>Action items</b>\n• Fix &lt;it&gt; (<i>@bob</i>)');
+  });
+});
+
+describe('renderStructuredSummaryText', () => {
+  it('should render the non-empty sections as plain text lists', () => {
+    expect(renderStructuredSummaryText({
+      topics: [],
+      decisions: ['Ship'],
+      actionItems: [{ task: 'Tag it', owner: undefined }],
+      openQuestions: ['When?'],
+    })).toBe('Decisions:\n- Ship\n\nAction items:\n- Tag it\n\nOpen questions:\n- When?');
+  });
+});
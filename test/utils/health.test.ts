@@ -0,0 +1,69 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as dataUtils from '../../src/utils/data';
+import { setMode, recordUpdate, recordPoll, checkHealth, checkReadiness } from '../../src/utils/health';
+
+// Use an in-memory SQLite database so tests never touch the filesystem.
+process.env.SQLITE_PATH = ':memory:';
+
+const MINUTE = 1000 * 60;
+
+beforeEach(() => {
+  delete process.env.HEALTH_MAX_IDLE;
+  setMode(undefined, 0);
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  dataUtils.close();
+});
+
+describe('checkReadiness', () => {
+  it('should not be ready before the bot starts', () => {
+    expect(checkReadiness()).toMatchObject({ ok: false, mode: undefined, database: true });
+  });
+
+  it('should be ready once the bot starts', () => {
+    setMode('polling');
+    expect(checkReadiness()).toMatchObject({ ok: true, mode: 'polling', database: true });
+  });
+
+  it('should not be ready when the database cannot be queried', () => {
+    setMode('webhook');
+    vi.spyOn(dataUtils, 'checkDatabase').mockImplementation(() => { throw new Error('disk I/O error'); });
+    expect(checkReadiness()).toMatchObject({ ok: false, database: false });
+  });
+});
+
+describe('checkHealth', () => {
+  it('should be healthy while the bot polls for updates', () => {
+    setMode('polling', 0);
+    recordPoll(4 * MINUTE);
+    expect(checkHealth(8 * MINUTE)).toMatchObject({ ok: true, lastPoll: new Date(4 * MINUTE).toISOString(), lastUpdate: null });
+  });
+
+  it('should be unhealthy when the bot stops polling for updates', () => {
+    setMode('polling', 0);
+    recordPoll(MINUTE);
+    recordUpdate(2 * MINUTE);
+    expect(checkHealth(8 * MINUTE)).toMatchObject({ ok: false, lastUpdate: new Date(2 * MINUTE).toISOString() });
+  });
+
+  it('should not limit the idle time in webhook mode by default', () => {
+    setMode('webhook', 0);
+    expect(checkHealth(24 * 60 * MINUTE).ok).toBe(true);
+  });
+
+  it('should use the configured idle time', () => {
+    process.env.HEALTH_MAX_IDLE = '60';
+    setMode('webhook', 0);
+    recordUpdate(MINUTE);
+    expect(checkHealth(2 * MINUTE).ok).toBe(true);
+    expect(checkHealth(3 * MINUTE).ok).toBe(false);
+  });
+
+  it('should be unhealthy when the database cannot be queried', () => {
+    setMode('polling');
+    vi.spyOn(dataUtils, 'checkDatabase').mockImplementation(() => { throw new Error('disk I/O error'); });
+    expect(checkHealth().ok).toBe(false);
+  });
+});
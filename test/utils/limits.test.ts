@@ -0,0 +1,75 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { close, recordUsage } from '../../src/utils/data';
+import { checkRateLimit, formatRateLimit } from '../../src/utils/limits';
+
+// Use an in-memory SQLite database so tests never touch the filesystem.
+process.env.SQLITE_PATH = ':memory:';
+
+const MINUTE = 1000 * 60;
+const HOUR = MINUTE * 60;
+
+beforeEach(() => {
+  delete process.env.RATE_LIMIT_USER_COOLDOWN;
+  delete process.env.RATE_LIMIT_CHAT_COOLDOWN;
+  delete process.env.RATE_LIMIT_DAILY_QUOTA;
+  vi.useFakeTimers();
+  vi.setSystemTime(new Date('2025-03-10T10:00:00Z'));
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  close();
+});
+
+describe('checkRateLimit', () => {
+  it('should allow the first request', () => {
+    expect(checkRateLimit('123', '1', 'summary')).toBeUndefined();
+  });
+
+  it('should apply the cooldown of the user', () => {
+    recordUsage('123', '1', 'summary');
+    vi.advanceTimersByTime(MINUTE);
+
+    expect(checkRateLimit('123', '1', 'summary')).toEqual({ reason: 'user', retryAt: Date.now() + MINUTE });
+    expect(checkRateLimit('123', '1', 'ask')).toBeUndefined();
+    vi.advanceTimersByTime(MINUTE);
+    expect(checkRateLimit('123', '1', 'summary')).toBeUndefined();
+  });
+
+  it('should apply the cooldown of the chat to the other users', () => {
+    recordUsage('123', '1', 'summary');
+    vi.advanceTimersByTime(10 * 1000);
+
+    expect(checkRateLimit('123', '2', 'summary')).toEqual({ reason: 'chat', retryAt: Date.now() + 20 * 1000 });
+    expect(checkRateLimit('456', '2', 'summary')).toBeUndefined();
+  });
+
+  it('should use the configured cooldowns', () => {
+    process.env.RATE_LIMIT_USER_COOLDOWN = '0';
+    process.env.RATE_LIMIT_CHAT_COOLDOWN = '0';
+    recordUsage('123', '1', 'summary');
+
+    expect(checkRateLimit('123', '1', 'summary')).toBeUndefined();
+  });
+
+  it('should apply the daily quota of the chat to all actions', () => {
+    process.env.RATE_LIMIT_DAILY_QUOTA = '2';
+    recordUsage('123', '1', 'summary');
+    vi.advanceTimersByTime(HOUR);
+    recordUsage('123', '2', 'tldr');
+    vi.advanceTimersByTime(HOUR);
+
+    expect(checkRateLimit('123', '3', 'ask')).toEqual({ reason: 'quota', retryAt: new Date('2025-03-11T10:00:00Z').getTime(), quota: 2 });
+    vi.advanceTimersByTime(22 * HOUR);
+    expect(checkRateLimit('123', '3', 'ask')).toBeUndefined();
+  });
+});
+
+describe('formatRateLimit', () => {
+  it('should tell the user when to try again', () => {
+    const now = Date.now();
+    expect(formatRateLimit({ reason: 'user', retryAt: now + 90 * 1000 }, now)).toBe('You have just made the same request. Try again in 2 minutes.');
+    expect(formatRateLimit({ reason: 'chat', retryAt: now + 1000 }, now)).toBe('The bot has just answered the same request in this chat. Try again in 1 second.');
+    expect(formatRateLimit({ reason: 'quota', retryAt: now + 2 * HOUR + 5 * MINUTE, quota: 50 }, now)).toBe('This chat has reached its limit of 50 AI requests per day. Try again in 2 hours and 5 minutes.');
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { getLLMProvider, getContextBudget, splitIntoChunks, fitIntoBudget } from '../../src/utils/llm';
+
+beforeEach(() => {
+  for (const name of [
+    'LLM_PROVIDER', 'PROVIDER', 'OPENAI_API_KEY', 'CLOUDFLARE_ACCOUNT_ID', 'CLOUDFLARE_AUTH_KEY', 'CLOUDFLARE_MODEL',
+    'OLLAMA_URI', 'LLAMA_CPP_MODEL_PATH', 'LLM_CONTEXT_BUDGET', 'OPENAI_CONTEXT_BUDGET', 'OLLAMA_CONTEXT_BUDGET',
+  ]) delete process.env[name];
+});
+
+describe('getLLMProvider', () => {
+  it('should return undefined when no provider is configured', () => {
+    expect(getLLMProvider()).toBeUndefined();
+  });
+
+  it('should prefer the explicit provider', () => {
+    process.env.LLM_PROVIDER = 'Ollama';
+    process.env.OPENAI_API_KEY = 'key';
+    expect(getLLMProvider()).toBe('ollama');
+  });
+
+  it('should auto-detect the provider by priority', () => {
+    process.env.LLAMA_CPP_MODEL_PATH = '/models/model.gguf';
+    expect(getLLMProvider()).toBe('llama.cpp');
+    process.env.OLLAMA_URI = 'http://localhost:11434';
+    expect(getLLMProvider()).toBe('ollama');
+    process.env.OPENAI_API_KEY = 'key';
+    expect(getLLMProvider()).toBe('openai');
+  });
+});
+
+describe('getContextBudget', () => {
+  it('should use the provider default', () => {
+    process.env.OPENAI_API_KEY = 'key';
+    expect(getContextBudget()).toBe(200000);
+  });
+
+  it('should use a conservative default when no provider is configured', () => {
+    expect(getContextBudget()).toBe(8000);
+  });
+
+  it('should prefer the global budget over the provider default', () => {
+    process.env.OPENAI_API_KEY = 'key';
+    process.env.LLM_CONTEXT_BUDGET = '5000';
+    expect(getContextBudget()).toBe(5000);
+  });
+
+  it('should prefer the provider budget over the global one', () => {
+    process.env.LLM_PROVIDER = 'ollama';
+    process.env.LLM_CONTEXT_BUDGET = '5000';
+    process.env.OLLAMA_CONTEXT_BUDGET = '3000';
+    process.env.OPENAI_CONTEXT_BUDGET = '1000';
+    expect(getContextBudget()).toBe(3000);
+  });
+
+  it('should ignore invalid budgets', () => {
+    process.env.LLM_PROVIDER = 'ollama';
+    process.env.OLLAMA_CONTEXT_BUDGET = 'lots';
+    process.env.LLM_CONTEXT_BUDGET = '-1';
+    expect(getContextBudget()).toBe(8000);
+  });
+});
+
+describe('splitIntoChunks', () => {
+  it('should return no chunks for no texts', () => {
+    expect(splitIntoChunks([], 10)).toEqual([]);
+  });
+
+  it('should keep texts that fit in a single chunk', () => {
+    expect(splitIntoChunks(['abc', 'def'], 10)).toEqual([['abc', 'def']]);
+  });
+
+  it('should split texts into chunks within the budget, preserving order', () => {
+    expect(splitIntoChunks(['abcd', 'efgh', 'ijkl'], 8)).toEqual([['abcd', 'efgh'], ['ijkl']]);
+  });
+
+  it('should cut texts longer than the budget', () => {
+    expect(splitIntoChunks(['ab', 'cdefghij'], 4)).toEqual([['ab'], ['cdef'], ['ghij']]);
+  });
+});
+
+describe('fitIntoBudget', () => {
+  it('should keep texts that fit in the budget', () => {
+    expect(fitIntoBudget(['ab', 'cd'], 4)).toEqual(['ab', 'cd']);
+  });
+
+  it('should cut the longest texts first, sharing the rest of the budget', () => {
+    const texts = fitIntoBudget(['a'.repeat(100), 'short', 'b'.repeat(50)], 65);
+    expect(texts).toEqual(['a'.repeat(26) + ' […]', 'short', 'b'.repeat(26) + ' […]']);
+    expect(texts.join('').length).toBeLessThanOrEqual(65);
+  });
+});
+
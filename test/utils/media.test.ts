@@ -0,0 +1,43 @@
+import { describe, it, expect, vi, afterEach, Mock } from 'vitest';
+import * as fs from 'fs';
+import * as path from 'path';
+
+// Mock ffmpeg: it writes two chunks next to the input file.
+vi.mock('child_process', () => ({
+  execFile: vi.fn((command: string, args: string[], callback: (error: Error | null, stdout: string, stderr: string) => void) => {
+    const pattern = args[args.length - 1];
+    fs.writeFileSync(pattern.replace('%04d', '0001'), 'second');
+    fs.writeFileSync(pattern.replace('%04d', '0000'), 'first');
+    callback(null, '', '');
+  }),
+}));
+
+import { execFile } from 'child_process';
+import { extractAudioChunks, getChunkDuration } from '../../src/utils/media';
+
+afterEach(() => {
+  delete process.env.STT_CHUNK_DURATION;
+});
+
+describe('getChunkDuration', () => {
+  it('should read the duration in seconds from the environment', () => {
+    expect(getChunkDuration()).toBe(300);
+    process.env.STT_CHUNK_DURATION = '60';
+    expect(getChunkDuration()).toBe(60);
+    process.env.STT_CHUNK_DURATION = '0';
+    expect(getChunkDuration()).toBe(300);
+  });
+});
+
+describe('extractAudioChunks', () => {
+  it('should extract the audio with ffmpeg and return the chunks in order', async () => {
+    const chunks = await extractAudioChunks(Buffer.from('video'), 120);
+
+    expect(chunks.map(x => x.toString())).toEqual(['first', 'second']);
+    const [command, args] = (execFile as unknown as Mock).mock.calls[0];
+    expect(command).toBe('ffmpeg');
+    expect(args).toEqual(expect.arrayContaining(['-vn', '-ar', '16000', '-segment_time', '120']));
+    // The temporary files are deleted.
+    expect(fs.existsSync(path.dirname(args[args.length - 1]))).toBe(false);
+  });
+});
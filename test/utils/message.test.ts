@@ -0,0 +1,99 @@
+import { describe, it, expect, vi } from 'vitest';
+import { InlineKeyboard, InputFile } from 'grammy';
+import { splitMessage, sendText, toChat, MESSAGE_MAX_LENGTH } from '../../src/utils/message';
+
+describe('splitMessage', () => {
+  it('should not split a text that fits in a message', () => {
+    expect(splitMessage('  Hello world  ')).toEqual(['Hello world']);
+  });
+
+  it('should split on paragraph boundaries first', () => {
+    expect(splitMessage('First line.\nSecond line.\n\nThird line.', 30)).toEqual(['First line.\nSecond line.', 'Third line.']);
+  });
+
+  it('should split on sentence boundaries when there are no paragraphs', () => {
+    expect(splitMessage('One sentence here. Another one here. A third one.', 40)).toEqual(['One sentence here. Another one here.', 'A third one.']);
+  });
+
+  it('should split on words, then anywhere, as a last resort', () => {
+    expect(splitMessage('lorem ipsum dolor', 12)).toEqual(['lorem ipsum', 'dolor']);
+    expect(splitMessage('abcdefghij', 4)).toEqual(['abcd', 'efgh', 'ij']);
+  });
+
+  it('should keep every part within the Telegram limit', () => {
+    const text = Array.from({ length: 500 }, (_, i) => `Sentence number ${i} of a very long summary.`).join(' ');
+    const parts = splitMessage(text);
+    expect(parts.length).toBeGreaterThan(1);
+    expect(parts.every(x => x.length <= MESSAGE_MAX_LENGTH)).toBe(true);
+    expect(parts.join(' ')).toBe(text);
+  });
+
+  it('should close the HTML tags left open by a cut and open them again in the next part', () => {
+    const text = '<b>Decisions</b>\n• <i>' + 'ship it '.repeat(10).trim() + '</i>';
+    const parts = splitMessage(text, 50, true);
+    expect(parts).toEqual([
+      '<b>Decisions</b>',
+      '• <i>ship it ship it ship it ship it ship it</i>',
+      '<i>ship it ship it ship it ship it ship it</i>',
+    ]);
+    expect(parts.every(x => x.length <= 50)).toBe(true);
+  });
+
+  it('should not cut HTML texts inside their tags or entities', () => {
+    const text = 'Read <a href="https://example.com/notes">the notes</a> &amp; more';
+    expect(splitMessage(text, 50, true)).toEqual(['Read <a href="https://example.com/notes">the</a>', '<a href="https://example.com/notes">notes</a>', '&amp; more']);
+    expect(splitMessage('abcdefgh&amp;ijkl', 10, true)).toEqual(['abcdefgh', '&amp;ijkl']);
+  });
+});
+
+describe('sendText', () => {
+  const createTarget = () => ({
+    sendMessage: vi.fn().mockResolvedValue(undefined),
+    sendDocument: vi.fn().mockResolvedValue(undefined),
+  });
+
+  it('should send a short text as a single message', async () => {
+    const target = createTarget();
+    await sendText(target, 'Hello');
+    expect(target.sendMessage).toHaveBeenCalledWith('Hello');
+    expect(target.sendDocument).not.toHaveBeenCalled();
+  });
+
+  it('should send each part of a long text as a reply to the same message', async () => {
+    const target = createTarget();
+    const text = 'a'.repeat(4000) + '\n\n' + 'b'.repeat(4000);
+    await sendText(target, text, { replyTo: 7, html: true });
+    expect(target.sendMessage).toHaveBeenCalledTimes(2);
+    expect(target.sendMessage).toHaveBeenNthCalledWith(1, 'a'.repeat(4000), { parse_mode: 'HTML', reply_to_message_id: 7 });
+    expect(target.sendMessage).toHaveBeenNthCalledWith(2, 'b'.repeat(4000), { parse_mode: 'HTML', reply_to_message_id: 7 });
+  });
+
+  it('should show the keyboard under the last part and return its id', async () => {
+    const target = createTarget();
+    target.sendMessage.mockResolvedValueOnce({ message_id: 1 }).mockResolvedValueOnce({ message_id: 2 });
+    const keyboard = new InlineKeyboard().text('Shorter', 'rewrite:shorter');
+    expect(await sendText(target, 'a'.repeat(4000) + '\n\n' + 'b'.repeat(4000), { keyboard })).toBe(2);
+    expect(target.sendMessage).toHaveBeenNthCalledWith(1, 'a'.repeat(4000));
+    expect(target.sendMessage).toHaveBeenNthCalledWith(2, 'b'.repeat(4000), { reply_markup: keyboard });
+  });
+
+  it('should send a very long text as a document', async () => {
+    const target = createTarget();
+    await sendText(target, '<b>Topics</b>\n' + 'x'.repeat(5 * MESSAGE_MAX_LENGTH), { replyTo: 7, html: true, filename: 'summary.txt' });
+    expect(target.sendMessage).not.toHaveBeenCalled();
+    expect(target.sendDocument).toHaveBeenCalledWith(expect.any(InputFile), { reply_to_message_id: 7 });
+    const document = target.sendDocument.mock.calls[0][0] as InputFile;
+    expect(document.filename).toBe('summary.txt');
+    expect(String(document['fileData'])).toMatch(/^Topics\nx/);
+  });
+});
+
+describe('toChat', () => {
+  it('should send the messages to the forum topic, if any', async () => {
+    const api = { sendMessage: vi.fn().mockResolvedValue(undefined), sendDocument: vi.fn().mockResolvedValue(undefined) };
+    await sendText(toChat(api as any, '123'), 'Hello');
+    await sendText(toChat(api as any, '123', 42), 'Hello', { replyTo: 7 });
+    expect(api.sendMessage).toHaveBeenNthCalledWith(1, '123', 'Hello');
+    expect(api.sendMessage).toHaveBeenNthCalledWith(2, '123', 'Hello', { reply_to_message_id: 7, message_thread_id: 42 });
+  });
+});
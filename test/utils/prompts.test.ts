@@ -0,0 +1,141 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { close } from '../../src/utils/data';
+import { getChatPrompt, setChatPrompt, formatChatPrompt, getDefaultPreset, getTldrTemplate, renderPrompt, usesPlaceholder } from '../../src/utils/prompts';
+
+// Use an in-memory SQLite database so tests never touch the filesystem.
+process.env.SQLITE_PATH = ':memory:';
+
+let dir: string | undefined;
+
+/**
+ * Create a PROMPTS_DIR with the given files.
+ *
+ * @param files the contents of the files, by name.
+ */
+function setPromptsDir(files: Record<string, string>) {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'prompts-'));
+  for (const [name, content] of Object.entries(files)) fs.writeFileSync(path.join(dir, name), content);
+  process.env.PROMPTS_DIR = dir;
+}
+
+beforeEach(() => {
+  delete process.env.PROMPTS_DIR;
+  delete process.env.SUMMARY_PRESET;
+});
+
+afterEach(() => {
+  close();
+  if (dir) fs.rmSync(dir, { recursive: true, force: true });
+  dir = undefined;
+});
+
+describe('getChatPrompt', () => {
+  it('should use the standard preset by default', () => {
+    expect(getChatPrompt('123')).toMatchObject({ preset: 'standard', isDefault: true });
+    expect(getChatPrompt('123').template).toContain('summarize a lot of messages');
+  });
+
+  it('should use the default preset from the environment', () => {
+    process.env.SUMMARY_PRESET = 'Minutes';
+    expect(getChatPrompt('123')).toMatchObject({ preset: 'minutes', isDefault: true });
+  });
+
+  it('should use the preset or the custom prompt of the chat', () => {
+    setChatPrompt('123', 'bullets');
+    setChatPrompt('456', 'custom Summarize as a haiku.\nBe poetic.');
+    expect(getChatPrompt('123')).toMatchObject({ preset: 'bullets', isDefault: false });
+    expect(getChatPrompt('456')).toEqual({ preset: undefined, isDefault: false, template: 'Summarize as a haiku.\nBe poetic.' });
+    expect(getChatPrompt('789')).toMatchObject({ preset: 'standard', isDefault: true });
+  });
+
+  it('should restore the default preset', () => {
+    setChatPrompt('123', 'casual');
+    setChatPrompt('123', 'default');
+    expect(getChatPrompt('123')).toMatchObject({ preset: 'standard', isDefault: true });
+  });
+
+  it('should fall back to the default preset when the chosen one no longer exists', () => {
+    setPromptsDir({ 'pirate.txt': 'Summarize like a pirate.' });
+    setChatPrompt('123', 'pirate');
+    fs.rmSync(path.join(dir!, 'pirate.txt'));
+    expect(getChatPrompt('123')).toMatchObject({ preset: 'standard', isDefault: true });
+  });
+});
+
+describe('setChatPrompt', () => {
+  it('should reject unknown presets, listing the available ones', () => {
+    expect(() => setChatPrompt('123', 'pirate')).toThrow('Unknown preset "pirate". Available presets: standard, minutes, casual, bullets.');
+  });
+
+  it('should require the instructions of a custom prompt', () => {
+    expect(() => setChatPrompt('123', 'custom')).toThrow('Write the instructions for the AI after "custom"');
+  });
+
+  it('should reject options after a preset', () => {
+    expect(() => setChatPrompt('123', 'minutes please')).toThrow('The preset "minutes" has no options.');
+  });
+});
+
+describe('PROMPTS_DIR', () => {
+  it('should add and override presets with the text files', () => {
+    setPromptsDir({ 'pirate.txt': 'Summarize like a pirate.\n', 'minutes.txt': 'Write our minutes.', 'notes.md': 'Ignored.', 'empty.txt': ' ' });
+    setChatPrompt('123', 'pirate');
+    setChatPrompt('456', 'minutes');
+    expect(getChatPrompt('123').template).toBe('Summarize like a pirate.');
+    expect(getChatPrompt('456').template).toBe('Write our minutes.');
+    expect(() => setChatPrompt('123', 'notes')).toThrow('Unknown preset');
+    expect(() => setChatPrompt('123', 'empty')).toThrow('Unknown preset');
+  });
+
+  it('should override the TL;DR prompt with tldr.txt, which is not a preset', () => {
+    expect(getTldrTemplate()).toContain('very short and concise summary');
+    setPromptsDir({ 'tldr.txt': 'One sentence only.' });
+    expect(getTldrTemplate()).toBe('One sentence only.');
+    expect(() => setChatPrompt('123', 'tldr')).toThrow('Unknown preset');
+  });
+
+  it('should fail if the directory cannot be read', () => {
+    process.env.PROMPTS_DIR = path.join(os.tmpdir(), 'missing-prompts-dir');
+    expect(() => getDefaultPreset()).toThrow('PROMPTS_DIR cannot be read');
+  });
+});
+
+describe('getDefaultPreset', () => {
+  it('should reject an unknown preset', () => {
+    process.env.SUMMARY_PRESET = 'pirate';
+    expect(() => getDefaultPreset()).toThrow('SUMMARY_PRESET is not a preset: pirate');
+  });
+});
+
+describe('formatChatPrompt', () => {
+  it('should show the prompt of the chat and the presets', () => {
+    setChatPrompt('123', 'custom Be brief.');
+    const text = formatChatPrompt('123');
+    expect(text).toContain('Prompt of this chat: custom\n\nBe brief.');
+    expect(text).toContain('minutes - meeting minutes');
+    expect(text).toContain('{{chat_title}}');
+  });
+});
+
+describe('renderPrompt', () => {
+  it('should replace the placeholders', () => {
+    const template = 'Summarize {{chat_title}}, {{date_range}}, in {{language}}.';
+    expect(renderPrompt(template, {
+      chatTitle: 'Book club',
+      period: { since: Date.UTC(2025, 2, 10, 9, 30), until: Date.UTC(2025, 2, 10, 18, 0) },
+      language: 'Italian',
+    })).toBe('Summarize Book club, from 2025-03-10 09:30 to 2025-03-10 18:00 (UTC), in Italian.');
+  });
+
+  it('should use a generic wording for the missing values and keep unknown placeholders', () => {
+    expect(renderPrompt('{{chat_title}} {{date_range}} {{language}} {{other}}', {})).toBe('this chat in the requested period the language of the messages {{other}}');
+  });
+
+  it('should tell which placeholders a template uses', () => {
+    expect(usesPlaceholder('Hello {{chat_title}}', 'chat_title')).toBe(true);
+    expect(usesPlaceholder('Hello {{chat_title}}', 'date_range')).toBe(false);
+  });
+});
@@ -0,0 +1,119 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { addJob, claimJobs, close } from '../../src/utils/data';
+import { enqueueJob, getBackoff, startQueue, stopQueue } from '../../src/utils/queue';
+
+// Use an in-memory SQLite database so tests never touch the filesystem.
+process.env.SQLITE_PATH = ':memory:';
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.setSystemTime(new Date('2025-03-10T10:00:00Z'));
+  delete process.env.QUEUE_CONCURRENCY;
+  delete process.env.QUEUE_MAX_ATTEMPTS;
+});
+
+afterEach(() => {
+  stopQueue();
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+  close();
+});
+
+describe('getBackoff', () => {
+  it('should double the delay at each attempt, up to 10 minutes', () => {
+    expect(getBackoff(1)).toBe(10 * 1000);
+    expect(getBackoff(2)).toBe(20 * 1000);
+    expect(getBackoff(3)).toBe(40 * 1000);
+    expect(getBackoff(10)).toBe(10 * 60 * 1000);
+  });
+});
+
+describe('queue', () => {
+  it('should run the queued jobs with their payload', async () => {
+    const run = vi.fn().mockResolvedValue(undefined);
+    startQueue({ summary: { run } });
+
+    enqueueJob('summary', { chatId: '123' });
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(run).toHaveBeenCalledWith({ chatId: '123' });
+    expect(claimJobs(Date.now() + 1000 * 60 * 60, 10)).toEqual([]);
+  });
+
+  it('should retry a failing job with backoff', async () => {
+    const run = vi.fn().mockRejectedValueOnce(new Error('LLM down')).mockResolvedValue(undefined);
+    startQueue({ summary: { run } });
+
+    enqueueJob('summary', { chatId: '123' });
+    await vi.advanceTimersByTimeAsync(0);
+    expect(run).toHaveBeenCalledTimes(1);
+
+    await vi.advanceTimersByTimeAsync(9 * 1000);
+    expect(run).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(run).toHaveBeenCalledTimes(2);
+  });
+
+  it('should give up after the last attempt and call the failure handler', async () => {
+    process.env.QUEUE_MAX_ATTEMPTS = '2';
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const error = new Error('LLM down');
+    const run = vi.fn().mockRejectedValue(error);
+    const onFailure = vi.fn().mockResolvedValue(undefined);
+    startQueue({ summary: { run, onFailure } });
+
+    enqueueJob('summary', { chatId: '123' });
+    await vi.advanceTimersByTimeAsync(1000 * 60 * 60);
+
+    expect(run).toHaveBeenCalledTimes(2);
+    expect(onFailure).toHaveBeenCalledTimes(1);
+    expect(onFailure).toHaveBeenCalledWith({ chatId: '123' }, error);
+  });
+
+  it('should not run more jobs than the concurrency limit at once', async () => {
+    process.env.QUEUE_CONCURRENCY = '2';
+    const pending: (() => void)[] = [];
+    const run = vi.fn(() => new Promise<void>(resolve => pending.push(resolve)));
+    startQueue({ summary: { run } });
+
+    for (let i = 0; i < 5; i++) enqueueJob('summary', { i });
+    await vi.advanceTimersByTimeAsync(0);
+    expect(run).toHaveBeenCalledTimes(2);
+
+    pending.shift()!();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(run).toHaveBeenCalledTimes(3);
+    expect(run).toHaveBeenLastCalledWith({ i: 2 });
+
+    // Let the running jobs finish, not to hold the slots in the next tests.
+    stopQueue();
+    pending.forEach(resolve => resolve());
+    await vi.advanceTimersByTimeAsync(0);
+  });
+
+  it('should run the jobs left by a previous run on start', async () => {
+    // A job claimed by a run that was interrupted, and one that was still waiting.
+    addJob('summary', '{"chatId":"123"}', Date.now());
+    claimJobs(Date.now(), 1);
+    addJob('tldr', '{"chatId":"456"}', Date.now());
+    const summary = vi.fn().mockResolvedValue(undefined);
+    const tldr = vi.fn().mockResolvedValue(undefined);
+
+    startQueue({ summary: { run: summary }, tldr: { run: tldr } });
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(summary).toHaveBeenCalledWith({ chatId: '123' });
+    expect(tldr).toHaveBeenCalledWith({ chatId: '456' });
+  });
+
+  it('should not run jobs once stopped', async () => {
+    const run = vi.fn().mockResolvedValue(undefined);
+    startQueue({ summary: { run } });
+    stopQueue();
+
+    enqueueJob('summary', { chatId: '123' });
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(run).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import { parseHistoryRange } from '../../src/utils/range';
+
+const HOUR = 1000 * 60 * 60;
+
+describe('parseHistoryRange', () => {
+  // A fixed local time: 2025-03-10 15:30.
+  const now = new Date(2025, 2, 10, 15, 30).getTime();
+
+  it('should return undefined when no arguments are given', () => {
+    expect(parseHistoryRange('', now)).toBeUndefined();
+    expect(parseHistoryRange('   ', now)).toBeUndefined();
+  });
+
+  it('should parse a message count', () => {
+    expect(parseHistoryRange('200', now)).toEqual({ limit: 200 });
+  });
+
+  it('should reject a zero message count', () => {
+    expect(() => parseHistoryRange('0', now)).toThrow('positive integer');
+  });
+
+  it('should parse time windows', () => {
+    expect(parseHistoryRange('30m', now)).toEqual({ since: now - HOUR / 2 });
+    expect(parseHistoryRange('3h', now)).toEqual({ since: now - 3 * HOUR });
+    expect(parseHistoryRange('2d', now)).toEqual({ since: now - 48 * HOUR });
+    expect(parseHistoryRange('1W', now)).toEqual({ since: now - 7 * 24 * HOUR });
+  });
+
+  it('should reject an empty time window', () => {
+    expect(() => parseHistoryRange('0h', now)).toThrow('greater than zero');
+  });
+
+  it('should parse yesterday as the previous calendar day', () => {
+    expect(parseHistoryRange('yesterday', now)).toEqual({
+      since: new Date(2025, 2, 9).getTime(),
+      until: new Date(2025, 2, 10).getTime(),
+    });
+  });
+
+  it('should parse a time of the day earlier than now as today', () => {
+    expect(parseHistoryRange('since 09:00', now)).toEqual({ since: new Date(2025, 2, 10, 9, 0).getTime() });
+  });
+
+  it('should parse a time of the day later than now as yesterday', () => {
+    expect(parseHistoryRange('since 18:15', now)).toEqual({ since: new Date(2025, 2, 9, 18, 15).getTime() });
+  });
+
+  it('should parse times of the day and yesterday in the given time zone', () => {
+    const utcNow = Date.UTC(2025, 2, 10, 15, 30);
+    expect(parseHistoryRange('since 09:00', utcNow, 'Europe/Rome')).toEqual({ since: Date.UTC(2025, 2, 10, 8, 0) });
+    expect(parseHistoryRange('since 18:15', utcNow, 'Europe/Rome')).toEqual({ since: Date.UTC(2025, 2, 9, 17, 15) });
+    expect(parseHistoryRange('yesterday', utcNow, 'Europe/Rome')).toEqual({ since: Date.UTC(2025, 2, 8, 23), until: Date.UTC(2025, 2, 9, 23) });
+    // New York moved to daylight saving time on March 9.
+    expect(parseHistoryRange('yesterday', utcNow, 'America/New_York')).toEqual({ since: Date.UTC(2025, 2, 9, 5), until: Date.UTC(2025, 2, 10, 4) });
+  });
+
+  it('should reject invalid times of the day', () => {
+    expect(() => parseHistoryRange('since 25:00', now)).toThrow('not a valid time');
+    expect(() => parseHistoryRange('since noon', now)).toThrow('since HH:MM');
+  });
+
+  it('should reject unknown arguments', () => {
+    expect(() => parseHistoryRange('last week', now)).toThrow('Unknown argument "last week"');
+  });
+});
@@ -0,0 +1,50 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { redactText, getCustomPatterns } from '../../src/utils/redact';
+
+beforeEach(() => {
+  delete process.env.REDACT_PATTERNS;
+});
+
+describe('redactText', () => {
+  it('should mask e-mail addresses', () => {
+    expect(redactText('Write to alice.smith+work@mail.example.co.uk or bob@example.com.')).toBe('Write to [email] or [email].');
+  });
+
+  it('should mask international and national phone numbers', () => {
+    expect(redactText('Call +39 333 123 4567, (555) 123-4567 or 3331234567')).toBe('Call [phone], [phone] or [phone]');
+    expect(redactText('Call 0044 20.7946.0958')).toBe('Call [phone]');
+  });
+
+  it('should not mask dates, versions and short numbers as phone numbers', () => {
+    const text = 'On 2025-03-10 18:00, 42 people upgraded to 1.2.3 (order 12345, room 555-1234).';
+    expect(redactText(text)).toBe(text);
+  });
+
+  it('should mask IBANs with or without spaces', () => {
+    expect(redactText('Pay IT60 X054 2811 1010 0000 0123 456 or DE89370400440532013000.')).toBe('Pay [iban] or [iban].');
+  });
+
+  it('should not mask short codes that look like the start of an IBAN', () => {
+    expect(redactText('See ticket AB12 and room DE89.')).toBe('See ticket AB12 and room DE89.');
+  });
+
+  it('should mask the custom patterns', () => {
+    process.env.REDACT_PATTERNS = 'ACME-\\d+ secret\\sproject';
+    expect(redactText('Customer ACME-1234 asked about the secret project.')).toBe('Customer [redacted] asked about the [redacted].');
+  });
+
+  it('should keep a text without personal data', () => {
+    expect(redactText('Let us ship on Friday.')).toBe('Let us ship on Friday.');
+  });
+});
+
+describe('getCustomPatterns', () => {
+  it('should return no patterns by default', () => {
+    expect(getCustomPatterns()).toEqual([]);
+  });
+
+  it('should reject an invalid regular expression', () => {
+    process.env.REDACT_PATTERNS = 'valid (invalid';
+    expect(() => getCustomPatterns()).toThrow('REDACT_PATTERNS contains an invalid regular expression: (invalid');
+  });
+});
@@ -0,0 +1,108 @@
+import { describe, it, expect, beforeEach, afterEach, vi, Mock } from 'vitest';
+import cron from 'node-cron';
+import { close, getChatSchedule, setChatSchedule } from '../../src/utils/data';
+import { getDefaultSchedule, parseSchedule, startScheduler, stopScheduler, updateChatSchedule } from '../../src/utils/scheduler';
+
+// Mock node-cron scheduling, keeping the real validation.
+vi.mock('node-cron', async () => {
+  const actual = await vi.importActual<typeof import('node-cron')>('node-cron');
+  const schedule = vi.fn().mockImplementation(() => ({ stop: vi.fn() }));
+  return { default: { ...actual.default, schedule } };
+});
+
+// Use an in-memory SQLite database so tests never touch the filesystem.
+process.env.SQLITE_PATH = ':memory:';
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  delete process.env.CRON_SCHEDULE;
+  delete process.env.CRON_TIMEZONE;
+});
+
+afterEach(() => {
+  stopScheduler();
+  close();
+});
+
+describe('parseSchedule', () => {
+  it('should parse a cron expression without time zone', () => {
+    expect(parseSchedule('0 8 * * *')).toEqual({ schedule: '0 8 * * *', timezone: undefined });
+  });
+
+  it('should parse a cron expression with seconds', () => {
+    expect(parseSchedule('30 0 8 * * *')).toEqual({ schedule: '30 0 8 * * *', timezone: undefined });
+  });
+
+  it('should parse a cron expression followed by a time zone', () => {
+    expect(parseSchedule('0 17 * * fri Europe/Rome')).toEqual({ schedule: '0 17 * * fri', timezone: 'Europe/Rome' });
+    expect(parseSchedule(' 0 8 * * *   UTC ')).toEqual({ schedule: '0 8 * * *', timezone: 'UTC' });
+  });
+
+  it('should reject unknown time zones', () => {
+    expect(() => parseSchedule('0 8 * * * Europe/Atlantis')).toThrow('Unknown time zone "Europe/Atlantis"');
+  });
+
+  it('should reject invalid cron expressions', () => {
+    expect(() => parseSchedule('0 8 * *')).toThrow('cron expression');
+    expect(() => parseSchedule('0 25 * * *')).toThrow('cron expression');
+    expect(() => parseSchedule('every morning')).toThrow('cron expression');
+  });
+});
+
+describe('getDefaultSchedule', () => {
+  it('should default to every day at 23:59 in the server time zone', () => {
+    expect(getDefaultSchedule()).toEqual({ schedule: '59 23 * * *', timezone: undefined });
+  });
+
+  it('should use the configured schedule and time zone', () => {
+    process.env.CRON_SCHEDULE = '0 20 * * *';
+    process.env.CRON_TIMEZONE = 'Europe/Rome';
+    expect(getDefaultSchedule()).toEqual({ schedule: '0 20 * * *', timezone: 'Europe/Rome' });
+  });
+
+  it('should be disabled with never', () => {
+    process.env.CRON_SCHEDULE = 'never';
+    expect(getDefaultSchedule()).toBeUndefined();
+  });
+});
+
+describe('scheduler', () => {
+  it('should schedule the stored chat schedules at startup', () => {
+    setChatSchedule('123', { schedule: '0 8 * * *', timezone: 'Europe/Rome' });
+    setChatSchedule('456', { schedule: '0 9 * * 1', timezone: undefined });
+    const callback = vi.fn();
+
+    startScheduler(callback);
+
+    expect(cron.schedule).toHaveBeenCalledTimes(2);
+    expect(cron.schedule).toHaveBeenCalledWith('0 8 * * *', expect.any(Function), { timezone: 'Europe/Rome' });
+    expect(cron.schedule).toHaveBeenCalledWith('0 9 * * 1', expect.any(Function), { timezone: undefined });
+
+    // The scheduled task summarizes its own chat.
+    (cron.schedule as Mock).mock.calls[0][1]();
+    expect(callback).toHaveBeenCalledWith('123');
+  });
+
+  it('should replace the task of a chat when its schedule changes', () => {
+    startScheduler(vi.fn());
+
+    updateChatSchedule('123', { schedule: '0 8 * * *', timezone: undefined });
+    const task = (cron.schedule as Mock).mock.results[0].value;
+    updateChatSchedule('123', { schedule: '0 7 * * *', timezone: 'UTC' });
+
+    expect(task.stop).toHaveBeenCalled();
+    expect(cron.schedule).toHaveBeenLastCalledWith('0 7 * * *', expect.any(Function), { timezone: 'UTC' });
+    expect(getChatSchedule('123')).toEqual({ chatId: '123', schedule: '0 7 * * *', timezone: 'UTC' });
+  });
+
+  it('should stop the task of a chat going back to the default schedule', () => {
+    startScheduler(vi.fn());
+
+    updateChatSchedule('123', { schedule: '0 8 * * *', timezone: undefined });
+    const task = (cron.schedule as Mock).mock.results[0].value;
+    updateChatSchedule('123', null);
+
+    expect(task.stop).toHaveBeenCalled();
+    expect(getChatSchedule('123')).toBeUndefined();
+  });
+});
@@ -0,0 +1,103 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import { Bot, webhookCallback } from 'grammy';
+import { close } from '../../src/utils/data';
+import { setMode } from '../../src/utils/health';
+import { getPort, getWebhookConfig, startServer } from '../../src/utils/server';
+
+// Use an in-memory SQLite database so tests never touch the filesystem.
+process.env.SQLITE_PATH = ':memory:';
+
+/**
+ * Start the server on a free port.
+ */
+async function start(webhook?: Parameters<typeof startServer>[1]): Promise<{ server: Server, url: string }> {
+  const server = startServer(0, webhook);
+  await new Promise(resolve => server.once('listening', resolve));
+  return { server, url: `http://localhost:${(server.address() as AddressInfo).port}` };
+}
+
+describe('getWebhookConfig', () => {
+  beforeEach(() => {
+    delete process.env.WEBHOOK_URL;
+    delete process.env.WEBHOOK_SECRET;
+    delete process.env.PORT;
+  });
+
+  it('should use long polling when no webhook URL is set', () => {
+    expect(getWebhookConfig()).toBeUndefined();
+  });
+
+  it('should read the webhook URL and secret', () => {
+    process.env.WEBHOOK_URL = 'https://bot.example.com/telegram/updates';
+    process.env.WEBHOOK_SECRET = 'my-secret_1';
+    expect(getWebhookConfig()).toEqual({ url: 'https://bot.example.com/telegram/updates', path: '/telegram/updates', secret: 'my-secret_1' });
+  });
+
+  it('should require a valid secret', () => {
+    process.env.WEBHOOK_URL = 'https://bot.example.com/telegram';
+    expect(() => getWebhookConfig()).toThrow('WEBHOOK_SECRET is required');
+    process.env.WEBHOOK_SECRET = 'not valid!';
+    expect(() => getWebhookConfig()).toThrow('WEBHOOK_SECRET is required');
+  });
+
+  it('should read the port', () => {
+    expect(getPort()).toBe(8080);
+    process.env.PORT = '3000';
+    expect(getPort()).toBe(3000);
+  });
+});
+
+describe('startServer', () => {
+  let server: Server | undefined;
+
+  beforeEach(() => {
+    setMode(undefined);
+  });
+
+  afterEach(async () => {
+    if (server) await new Promise(resolve => server!.close(resolve));
+    server = undefined;
+    close();
+  });
+
+  it('should expose the health and readiness checks', async () => {
+    const started = await start();
+    server = started.server;
+
+    const notReady = await fetch(started.url + '/readyz');
+    expect(notReady.status).toBe(503);
+    setMode('polling');
+    const ready = await fetch(started.url + '/readyz');
+    expect(ready.status).toBe(200);
+    expect(await ready.json()).toMatchObject({ ok: true, mode: 'polling', database: true });
+    const health = await fetch(started.url + '/healthz');
+    expect(health.status).toBe(200);
+  });
+
+  it('should not expose a webhook in polling mode', async () => {
+    const started = await start();
+    server = started.server;
+
+    const response = await fetch(started.url + '/telegram', { method: 'POST', body: '{}' });
+    expect(response.status).toBe(404);
+  });
+
+  it('should only accept updates with the secret token', async () => {
+    const bot = new Bot('123:token', { botInfo: { id: 123, is_bot: true, first_name: 'Bot', username: 'bot' } as never });
+    const onMessage = vi.fn();
+    bot.on('message', onMessage);
+    const started = await start({ path: '/telegram', handler: webhookCallback(bot, 'http', { secretToken: 'secret' }) });
+    server = started.server;
+    const update = JSON.stringify({ update_id: 1, message: { message_id: 1, date: 0, chat: { id: 1, type: 'private', first_name: 'A' }, text: 'Hello' } });
+
+    const rejected = await fetch(started.url + '/telegram', { method: 'POST', body: update, headers: { 'Content-Type': 'application/json', 'X-Telegram-Bot-Api-Secret-Token': 'wrong' } });
+    expect(rejected.status).toBe(401);
+    expect(onMessage).not.toHaveBeenCalled();
+
+    const accepted = await fetch(started.url + '/telegram', { method: 'POST', body: update, headers: { 'Content-Type': 'application/json', 'X-Telegram-Bot-Api-Secret-Token': 'secret' } });
+    expect(accepted.status).toBe(200);
+    expect(onMessage).toHaveBeenCalledTimes(1);
+  });
+});
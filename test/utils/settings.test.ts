@@ -0,0 +1,126 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { close } from '../../src/utils/data';
+import { getSettings, updateSettings, formatSettings } from '../../src/utils/settings';
+
+// Use an in-memory SQLite database so tests never touch the filesystem.
+process.env.SQLITE_PATH = ':memory:';
+
+beforeEach(() => {
+  delete process.env.MSG_LENGTH_LIMIT;
+  delete process.env.AUTO_SUMMARY;
+  delete process.env.TRANSCRIPTION;
+  delete process.env.TRANSCRIPTION_REPLY;
+  delete process.env.SUMMARY_LANGUAGE;
+  delete process.env.INCREMENTAL_SUMMARY;
+  delete process.env.SUMMARY_FORMAT;
+  delete process.env.ADMIN_ONLY;
+  delete process.env.REDACTION;
+  delete process.env.DIGEST;
+});
+
+afterEach(() => {
+  close();
+});
+
+describe('getSettings', () => {
+  it('should return the built-in defaults', () => {
+    expect(getSettings('123')).toEqual({ tldrThreshold: 1000, autoSummary: true, transcription: true, transcriptionReply: true, language: undefined, incremental: 'off', format: 'plain', redaction: false, adminOnly: false, digests: [] });
+  });
+
+  it('should fall back to the environment defaults', () => {
+    process.env.MSG_LENGTH_LIMIT = '500';
+    process.env.AUTO_SUMMARY = 'off';
+    process.env.TRANSCRIPTION = 'off';
+    process.env.TRANSCRIPTION_REPLY = 'off';
+    process.env.SUMMARY_LANGUAGE = 'Italian';
+    process.env.INCREMENTAL_SUMMARY = 'context';
+    process.env.SUMMARY_FORMAT = 'structured';
+    process.env.REDACTION = 'on';
+    process.env.ADMIN_ONLY = 'on';
+    process.env.DIGEST = 'month';
+    expect(getSettings('123')).toEqual({ tldrThreshold: 500, autoSummary: false, transcription: false, transcriptionReply: false, language: 'Italian', incremental: 'context', format: 'structured', redaction: true, adminOnly: true, digests: ['month'] });
+  });
+
+  it('should prefer the chat settings over the environment defaults', () => {
+    process.env.MSG_LENGTH_LIMIT = '500';
+    updateSettings('123', 'tldr=off autosummary=no');
+    expect(getSettings('123')).toMatchObject({ tldrThreshold: Infinity, autoSummary: false });
+    expect(getSettings('456')).toMatchObject({ tldrThreshold: 500, autoSummary: true });
+  });
+});
+
+describe('updateSettings', () => {
+  it('should accept values with spaces', () => {
+    updateSettings('123', 'language=Brazilian Portuguese tldr=200');
+    expect(getSettings('123')).toMatchObject({ tldrThreshold: 200, language: 'Brazilian Portuguese' });
+  });
+
+  it('should restore the default value', () => {
+    updateSettings('123', 'transcription=off');
+    updateSettings('123', 'transcription=default');
+    expect(getSettings('123').transcription).toBe(true);
+  });
+
+  it('should accept the incremental modes', () => {
+    updateSettings('123', 'incremental=context');
+    expect(getSettings('123').incremental).toBe('context');
+    updateSettings('123', 'incremental=on');
+    expect(getSettings('123').incremental).toBe('on');
+    expect(() => updateSettings('123', 'incremental=sometimes')).toThrow('Invalid value for the setting "incremental"');
+  });
+
+  it('should only let administrators restrict the commands', () => {
+    expect(() => updateSettings('123', 'tldr=200 adminonly=on', false)).toThrow('Only the administrators of this chat can change the setting "adminonly"');
+    expect(getSettings('123')).toMatchObject({ tldrThreshold: 1000, adminOnly: false });
+    updateSettings('123', 'adminonly=on', true);
+    expect(getSettings('123').adminOnly).toBe(true);
+  });
+
+  it('should only let administrators change the redaction', () => {
+    expect(() => updateSettings('123', 'redaction=off', false)).toThrow('Only the administrators of this chat can change the setting "redaction"');
+    updateSettings('123', 'redaction=on', true);
+    expect(getSettings('123').redaction).toBe(true);
+  });
+
+  it('should accept the summary formats', () => {
+    updateSettings('123', 'format=Structured');
+    expect(getSettings('123').format).toBe('structured');
+    expect(() => updateSettings('123', 'format=fancy')).toThrow('Invalid value for the setting "format"');
+  });
+
+  it('should accept the digest levels', () => {
+    updateSettings('123', 'digest=month,week');
+    expect(getSettings('123').digests).toEqual(['week', 'month']);
+    expect(formatSettings('123')).toContain('digest=week,month - ');
+    updateSettings('123', 'digest=both');
+    expect(getSettings('123').digests).toEqual(['week', 'month']);
+    updateSettings('123', 'digest=Week');
+    expect(getSettings('123').digests).toEqual(['week']);
+    updateSettings('123', 'digest=off');
+    expect(getSettings('123').digests).toEqual([]);
+    expect(() => updateSettings('123', 'digest=daily')).toThrow('Invalid value for the setting "digest"');
+  });
+
+  it('should reject unknown settings', () => {
+    expect(() => updateSettings('123', 'color=blue')).toThrow('Unknown setting "color"');
+  });
+
+  it('should reject invalid values without changing any setting', () => {
+    expect(() => updateSettings('123', 'language=German tldr=short')).toThrow('Invalid value for the setting "tldr"');
+    expect(getSettings('123').language).toBeUndefined();
+  });
+
+  it('should reject arguments that are not key=value pairs', () => {
+    expect(() => updateSettings('123', 'tldr 500')).toThrow('key=value');
+  });
+});
+
+describe('formatSettings', () => {
+  it('should list the values and mark the defaults', () => {
+    updateSettings('123', 'tldr=300');
+    const text = formatSettings('123');
+    expect(text).toContain('tldr=300 - ');
+    expect(text).toContain('autosummary=on (default)');
+    expect(text).toContain('language=auto (default)');
+  });
+});
@@ -0,0 +1,88 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { close, updateHistory, setChatSchedule, recordModelCall } from '../../src/utils/data';
+import { getChatStats, getUsageReport, renderUsageReport } from '../../src/utils/stats';
+
+// Use an in-memory SQLite database so tests never touch the filesystem.
+process.env.SQLITE_PATH = ':memory:';
+
+afterEach(() => {
+  vi.useRealTimers();
+  close();
+});
+
+/**
+ * Store a small conversation, at fixed times.
+ */
+function storeConversation() {
+  vi.useFakeTimers();
+  vi.setSystemTime(new Date('2025-03-10T09:10:00Z'));
+  updateHistory('123', '1', 'alice', 'Alice', 'Smith', 'Good morning');
+  updateHistory('123', '2', 'bob', 'Bob', undefined, 'Morning!');
+  vi.setSystemTime(new Date('2025-03-10T09:40:00Z'));
+  updateHistory('123', '1', 'alice', 'Alice', 'Smith', 'Listen to this', 10, undefined, undefined, 'voice');
+  vi.setSystemTime(new Date('2025-03-10T18:20:00Z'));
+  updateHistory('123', '1', 'alice', 'Alice', 'Smith', 'agenda.pdf', 11, undefined, undefined, 'document');
+  updateHistory('456', '3', 'carol', 'Carol', undefined, 'Other chat');
+  vi.setSystemTime(new Date('2025-03-10T20:00:00Z'));
+}
+
+describe('getChatStats', () => {
+  it('should count the messages, the participants, the busiest hours and the media', () => {
+    storeConversation();
+
+    expect(getChatStats('123')).toBe([
+      '4 messages from 2 participants.',
+      '',
+      'Most active participants:',
+      '1. @alice: 3 messages (75%)',
+      '2. @bob: 1 message (25%)',
+      '',
+      'Busiest hours (UTC):',
+      '- 09:00-10:00: 3 messages',
+      '- 18:00-19:00: 1 message',
+      '',
+      'Media: 1 voice message, 1 document.',
+    ].join('\n'));
+  });
+
+  it('should use the time zone of the schedule of the chat', () => {
+    storeConversation();
+    setChatSchedule('123', { schedule: '0 8 * * *', timezone: 'Europe/Rome' });
+
+    expect(getChatStats('123', { since: 0 })).toContain('Busiest hours (Europe/Rome):\n- 10:00-11:00: 3 messages\n- 19:00-20:00: 1 message');
+  });
+
+  it('should return undefined when there are no messages in the range', () => {
+    storeConversation();
+
+    expect(getChatStats('123', { limit: 0 })).toBeUndefined();
+    expect(getChatStats('789')).toBeUndefined();
+  });
+});
+
+describe('renderUsageReport', () => {
+  it('should group the calls by purpose', () => {
+    expect(renderUsageReport([
+      { kind: 'generate', purpose: 'summary', inputSize: 12000, durationMs: 3000, success: true, createdAt: 0 },
+      { kind: 'generate', purpose: 'summary', inputSize: 8000, durationMs: 1000, success: false, createdAt: 0 },
+      { kind: 'transcribe', purpose: 'transcription', inputSize: 3 * 1024 * 1024, durationMs: 6500, success: true, createdAt: 0 },
+    ])).toBe([
+      '3 calls to the AI, 1 failed.',
+      '',
+      'Summaries: 2 calls, 20,000 characters, 2.0 s on average.',
+      'Transcriptions: 1 call, 3.0 MB of audio, 6.5 s on average.',
+    ].join('\n'));
+  });
+});
+
+describe('getUsageReport', () => {
+  it('should report the calls of the chat in the time range', () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2025-03-10T10:00:00Z'));
+    recordModelCall('123', { kind: 'generate', purpose: 'tldr', inputSize: 900, durationMs: 500, success: true });
+    recordModelCall('456', { kind: 'generate', purpose: 'ask', inputSize: 100, durationMs: 500, success: true });
+
+    expect(getUsageReport('123', { since: 0 })).toBe('1 call to the AI.\n\nTL;DRs: 1 call, 900 characters, 0.5 s on average.');
+    expect(getUsageReport('123', { since: new Date('2025-03-11T00:00:00Z').getTime() })).toBeUndefined();
+  });
+});